@@ -190,6 +190,9 @@ const VIEW_CONFIG = {
 // ============================================================================
 // RECORDING DAYS (standard 3-day structure)
 // ============================================================================
+// Keys must exist as recording sessions in Supabase (recording_sessions).
+// For more or fewer days, or split blocks, create the sessions with
+// POST /api/sessions and list them here.
 
 const RECORDING_DAYS = {
   DAY_1: { key: 'dag1', display: 'Dag 1', description: 'Textläsning & Predikan' },
@@ -212,6 +215,9 @@ const POST_STATUS = {
 // LOCATION OPTIONS (common church locations)
 // ============================================================================
 
+// Inspelningsplats för nya program; samma som DEFAULT_LOCATION i worker/wrangler.toml
+const DEFAULT_LOCATION = 'Caroli-kyrkan, Borås';
+
 const LOCATIONS = [
   'talarplats',
   'altare',
@@ -27,7 +27,10 @@ const SYNC_CONFIG = {
 
   // Retry
   MAX_RETRIES: 3,
-  RETRY_DELAY_MS: 1000
+  RETRY_DELAY_MS: 1000,
+
+  // Senast synkade Supabase-versioner per entitetstyp (JSON id → version)
+  SYNCED_VERSIONS_KEY_PREFIX: 'SYNCED_VERSIONS_'
 };
 
 // ============================================================================
@@ -65,6 +68,25 @@ function getWorkerUrl_() {
   return url;
 }
 
+/**
+ * Supabase versions of the people or programmes last synced from this
+ * spreadsheet. The sheets have no version column, so they are kept here
+ * and sent with the next batch to detect edits made elsewhere.
+ */
+function getSyncedVersions_(entityType) {
+  const props = PropertiesService.getScriptProperties();
+  return JSON.parse(props.getProperty(SYNC_CONFIG.SYNCED_VERSIONS_KEY_PREFIX + entityType) || '{}');
+}
+
+/**
+ * Remember the versions the worker returned after a batch sync
+ */
+function saveSyncedVersions_(entityType, versions) {
+  const props = PropertiesService.getScriptProperties();
+  const merged = Object.assign(getSyncedVersions_(entityType), versions);
+  props.setProperty(SYNC_CONFIG.SYNCED_VERSIONS_KEY_PREFIX + entityType, JSON.stringify(merged));
+}
+
 /**
  * Get webhook secret
  */
@@ -208,6 +230,38 @@ function fullSyncToSupabase() {
     }
   }
 
+  // Personer och programmetadata (credits, sändningsdatum)
+  // Versionen från förra synken, så att ändringar gjorda i Supabase ger konflikt
+  const personVersions = getSyncedVersions_('person');
+  const programVersions = getSyncedVersions_('program');
+  const entityBatches = [
+    { entity_type: 'person', data: getAllPeople_().filter(row => row[PERSON_SCHEMA.ID]).map(row => convertPersonToSupabaseFormat_(row, personVersions[row[PERSON_SCHEMA.ID]])) },
+    { entity_type: 'program', data: getDbSheet_(DB.PROGRAMS).getDataRange().getValues().slice(1).filter(row => row[PROGRAM_SCHEMA.PROGRAM_NR]).map(row => convertProgramToSupabaseFormat_(row, programVersions[row[PROGRAM_SCHEMA.PROGRAM_NR]])) }
+  ];
+
+  for (const batch of entityBatches) {
+    if (batch.data.length === 0) continue;
+
+    try {
+      const response = sendToWorker_('/sync/from-sheets', {
+        source: 'sheets',
+        action: 'batch_sync',
+        entity_type: batch.entity_type,
+        data: batch.data,
+        timestamp: new Date().toISOString()
+      });
+
+      if (response.success) {
+        totalCreated += response.results.created;
+        totalUpdated += response.results.updated;
+        totalConflicts += response.results.conflicts.length;
+        saveSyncedVersions_(batch.entity_type, response.results.versions || {});
+      }
+    } catch (error) {
+      Logger.log(`Sync error for ${batch.entity_type}: ${error.message}`);
+    }
+  }
+
   ui.alert(`Full Sync Klar!\n\nSkapade: ${totalCreated}\nUppdaterade: ${totalUpdated}\nKonflikter: ${totalConflicts}`);
 }
 
@@ -217,12 +271,11 @@ function fullSyncToSupabase() {
 
 /**
  * Webhook endpoint for receiving updates from Supabase
- * Called by Cloudflare Worker when Supabase data changes
+ * Called by Cloudflare Worker when Supabase data changes (doPost with ?webhook=supabase)
  */
 function handleSupabaseWebhook(e) {
-  // Verify webhook secret
-  const secret = e.parameter.secret || '';
-  if (secret !== getWebhookSecret_()) {
+  // Verify HMAC signature from the worker
+  if (!verifyWebhookSignature_(e)) {
     return ContentService.createTextOutput(JSON.stringify({ error: 'Unauthorized' }))
       .setMimeType(ContentService.MimeType.JSON);
   }
@@ -230,6 +283,12 @@ function handleSupabaseWebhook(e) {
   try {
     const payload = JSON.parse(e.postData.contents);
 
+    // Only posts are mirrored into the sheet
+    if (payload.entity_type && payload.entity_type !== 'post') {
+      return ContentService.createTextOutput(JSON.stringify({ success: true, ignored: true }))
+        .setMimeType(ContentService.MimeType.JSON);
+    }
+
     switch (payload.action) {
       case 'update':
         handleInboundUpdate_(payload.data);
@@ -243,6 +302,10 @@ function handleSupabaseWebhook(e) {
         handleInboundDelete_(payload.data.post_id);
         break;
 
+      case 'reorder':
+        handleInboundReorder_(payload.data);
+        break;
+
       default:
         Logger.log(`Unknown webhook action: ${payload.action}`);
     }
@@ -257,6 +320,38 @@ function handleSupabaseWebhook(e) {
   }
 }
 
+/**
+ * Verify the worker's signature: HMAC-SHA256 of "<timestamp>.<body>" with
+ * the webhook secret. Apps Script cannot read headers, so the worker also
+ * sends timestamp and signature as query parameters.
+ */
+function verifyWebhookSignature_(e) {
+  const timestamp = parseInt(e.parameter.timestamp, 10);
+  const signature = e.parameter.signature || '';
+
+  // Reject stale requests (5 min) so a captured request cannot be replayed later
+  if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > 300) {
+    return false;
+  }
+
+  const bytes = Utilities.computeHmacSha256Signature(
+    timestamp + '.' + e.postData.contents,
+    getWebhookSecret_(),
+    Utilities.Charset.UTF_8
+  );
+  const expected = bytes.map(b => ((b + 256) % 256).toString(16).padStart(2, '0')).join('');
+
+  // Constant-time comparison, so the response time does not reveal how much matched
+  if (expected.length !== signature.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
 /**
  * Handle inbound update from Supabase
  */
@@ -325,6 +420,32 @@ function handleInboundDelete_(postId) {
   Logger.log(`Inbound delete: ${postId}`);
 }
 
+/**
+ * Handle inbound reorder from Supabase: the programme's new running order
+ * as post_ids, written back as sort_order 10, 20, 30 … like apply_running_order
+ */
+function handleInboundReorder_(data) {
+  const sheet = getDbSheet_(DB.POSTS);
+  const allData = sheet.getDataRange().getValues();
+  const order = data.order || [];
+  let moved = 0;
+
+  for (let i = 1; i < allData.length; i++) {
+    const row = allData[i];
+    const index = order.indexOf(row[POST_SCHEMA.ID]);
+    if (index === -1 || parseInt(row[POST_SCHEMA.PROGRAM_NR]) !== parseInt(data.program_nr)) continue;
+
+    const sortOrder = 10 * (index + 1);
+    if (parseInt(row[POST_SCHEMA.SORT_ORDER]) === sortOrder) continue;
+
+    sheet.getRange(i + 1, POST_SCHEMA.SORT_ORDER + 1).setValue(sortOrder);
+    sheet.getRange(i + 1, POST_SCHEMA.MODIFIED + 1).setValue(getTimestamp_());
+    moved++;
+  }
+
+  Logger.log(`Inbound reorder: program ${data.program_nr}, ${moved} posts moved`);
+}
+
 // ============================================================================
 // FORMAT CONVERSION
 // ============================================================================
@@ -357,6 +478,48 @@ function convertPostToSupabaseFormat_(post) {
   };
 }
 
+/**
+ * Convert a _DB_Personer row to Supabase format. `version` is the
+ * Supabase version last synced for the person (undefined if never).
+ */
+function convertPersonToSupabaseFormat_(row, version) {
+  // Sheets tillåter svenska tecken i typ, enum i Supabase gör det inte
+  const typeMap = { 'kompositör': 'komponist', 'textförfattare': 'textforfattare' };
+  const type = String(row[PERSON_SCHEMA.TYPE] || 'medverkande').toLowerCase();
+
+  return {
+    person_id: String(row[PERSON_SCHEMA.ID]),
+    name: String(row[PERSON_SCHEMA.NAME] || ''),
+    roles: row[PERSON_SCHEMA.ROLES] ? String(row[PERSON_SCHEMA.ROLES]).split(',').map(s => s.trim()).filter(Boolean) : [],
+    contact: row[PERSON_SCHEMA.CONTACT] ? String(row[PERSON_SCHEMA.CONTACT]) : null,
+    type: typeMap[type] || type,
+    version: version
+  };
+}
+
+/**
+ * Convert a _DB_Program row to Supabase format, with the Supabase
+ * version last synced for the programme
+ */
+function convertProgramToSupabaseFormat_(row, version) {
+  const tz = Session.getScriptTimeZone();
+  const formatDate = value => value instanceof Date ? Utilities.formatDate(value, tz, 'yyyy-MM-dd') : (value || null);
+  const formatTime = value => value instanceof Date ? Utilities.formatDate(value, tz, 'HH:mm:ss') : (value || null);
+
+  return {
+    program_nr: parseInt(row[PROGRAM_SCHEMA.PROGRAM_NR]),
+    location: row[PROGRAM_SCHEMA.LOCATION] || null,
+    start_date: formatDate(row[PROGRAM_SCHEMA.START_DATE]),
+    broadcast_date: formatDate(row[PROGRAM_SCHEMA.BROADCAST_DATE]),
+    church_year: row[PROGRAM_SCHEMA.CHURCH_YEAR] ? String(row[PROGRAM_SCHEMA.CHURCH_YEAR]) : null,
+    prod_nr: row[PROGRAM_SCHEMA.PROD_NR] ? String(row[PROGRAM_SCHEMA.PROD_NR]) : null,
+    target_duration_sec: parseInt(row[PROGRAM_SCHEMA.TARGET_LENGTH]) || 2610,
+    start_time: formatTime(row[PROGRAM_SCHEMA.START_TIME]),
+    notes: row[PROGRAM_SCHEMA.NOTES] ? String(row[PROGRAM_SCHEMA.NOTES]) : null,
+    version: version
+  };
+}
+
 /**
  * Convert Supabase format back to Sheets format
  */
@@ -392,19 +555,35 @@ function convertSupabaseToSheetsFormat_(data) {
  * Send request to Cloudflare Worker
  */
 function sendToWorker_(endpoint, payload) {
-  const workerUrl = getWorkerUrl_();
-  const secret = getWebhookSecret_();
-
-  const options = {
+  return fetchFromWorker_(endpoint, {
     method: 'post',
     contentType: 'application/json',
     headers: {
-      'X-Webhook-Secret': secret
+      'X-Webhook-Secret': getWebhookSecret_(),
+      // Same key on every retry, so a retried request is not applied twice
+      'Idempotency-Key': Utilities.getUuid()
     },
     payload: JSON.stringify(payload),
     muteHttpExceptions: true
-  };
+  });
+}
+
+/**
+ * Read from the Cloudflare Worker (GET with the webhook secret)
+ */
+function getFromWorker_(endpoint) {
+  return fetchFromWorker_(endpoint, {
+    method: 'get',
+    headers: { 'X-Webhook-Secret': getWebhookSecret_() },
+    muteHttpExceptions: true
+  });
+}
 
+/**
+ * Fetch with retries; 2xx and 409 bodies are returned, anything else throws
+ */
+function fetchFromWorker_(endpoint, options) {
+  const workerUrl = getWorkerUrl_();
   let lastError;
 
   for (let attempt = 1; attempt <= SYNC_CONFIG.MAX_RETRIES; attempt++) {
@@ -656,6 +835,36 @@ function saveSyncConfig(url, secret, enabled) {
   props.setProperty(SYNC_CONFIG.ENABLED_KEY, enabled ? 'true' : 'false');
 
   Logger.log(`Sync config saved. Enabled: ${enabled}`);
+
+  if (enabled) {
+    try {
+      registerSheetsWebhook();
+    } catch (error) {
+      Logger.log(`Webhook registration failed: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Register this web app as the worker's "sheets" webhook target, so
+ * Studio and Companion changes are pushed here. Signed with the same
+ * secret as outbound sync.
+ */
+function registerSheetsWebhook() {
+  const webAppUrl = ScriptApp.getService().getUrl();
+  if (!webAppUrl) {
+    throw new Error('Web app is not deployed. Deploy it before enabling sync.');
+  }
+
+  const result = sendToWorker_('/api/webhooks', {
+    name: 'sheets',
+    url: webAppUrl + '?webhook=supabase',
+    secret: getWebhookSecret_(),
+    entity_types: ['post']
+  });
+
+  Logger.log(`Sheets webhook registered: ${JSON.stringify(result.target)}`);
+  return result;
 }
 
 /**
@@ -711,7 +920,8 @@ function installSyncTriggers() {
 
 /**
  * Periodic sync (hourly)
- * Catches any missed changes
+ * Reports which posts Sheets holds and when each was last modified, so
+ * the worker's reconciliation job can spot missed or conflicting changes
  */
 function periodicSync() {
   if (!isSyncEnabled_()) return;
@@ -720,9 +930,27 @@ function periodicSync() {
   const props = PropertiesService.getScriptProperties();
   const lastSync = props.getProperty('LAST_PERIODIC_SYNC') || '1970-01-01T00:00:00Z';
 
-  // For now, just log
   Logger.log(`Periodic sync running. Last sync: ${lastSync}`);
 
+  const data = getDbSheet_(DB.POSTS).getDataRange().getValues();
+  const rows = data.slice(1)
+    .filter(row => row[POST_SCHEMA.ID])
+    .map(row => {
+      const modified = row[POST_SCHEMA.MODIFIED];
+      return {
+        id: String(row[POST_SCHEMA.ID]),
+        modified_at: modified instanceof Date ? modified.toISOString() : (modified ? String(modified) : null)
+      };
+    });
+
+  try {
+    const result = sendToWorker_('/sync/sheets-state', { entity_type: 'post', rows: rows });
+    Logger.log(`Reported ${result.reported} posts to worker`);
+  } catch (error) {
+    Logger.log(`Sheets state report failed: ${error.message}`);
+    return;
+  }
+
   // Update last sync time
   props.setProperty('LAST_PERIODIC_SYNC', new Date().toISOString());
 }
@@ -1078,7 +1306,7 @@ function pullAllFromSupabase() {
   if (confirm !== ui.Button.YES) return;
 
   try {
-    const response = sendToWorker_('/api/posts', {});
+    const response = getFromWorker_('/api/posts');
 
     if (response.success && response.posts) {
       let updated = 0;
@@ -687,6 +687,11 @@ function doPost(e) {
   const output = ContentService.createTextOutput();
   output.setMimeType(ContentService.MimeType.JSON);
 
+  // Change events from the sync worker are signed, not keyed
+  if (e.parameter && e.parameter.webhook === 'supabase') {
+    return handleSupabaseWebhook(e);
+  }
+
   try {
     const data = JSON.parse(e.postData.contents);
 
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { createClient, RealtimeChannel } from '@supabase/supabase-js';
+import { createClient, RealtimeChannel, Session } from '@supabase/supabase-js';
 
 // ============================================================================
 // TYPES
@@ -17,10 +17,31 @@ interface Post {
   people_ids: string[];
   location: string;
   status: 'planerad' | 'recording' | 'inspelad' | 'godkand';
-  recording_day: string;
+  recording_day: string | null;  // Inspelningspass (recording_sessions.session_key)
+  recording_slot: string | null;
   notes: string;
 }
 
+interface Take {
+  id: string;
+  post_id: string;
+  take_nr: number;
+  tc_in: string;
+  tc_out: string | null;
+  duration_sec: number | null;
+  verdict: 'good' | 'ng' | 'keep' | null;
+  selected: boolean;
+  notes: string | null;
+}
+
+// Samma roller som user_roles i supabase/schema.sql
+type Role = 'producer' | 'floor_manager' | 'operator' | 'guest';
+
+interface StudioUser {
+  email: string;
+  role: Role;
+}
+
 interface ProgramStats {
   program_nr: number;
   total_posts: number;
@@ -32,6 +53,33 @@ interface ProgramStats {
   progress_percent: number;
 }
 
+// Svar från workerns GET /api/analytics/durations (de fält panelen visar)
+interface PostDuration {
+  post_id: string;
+  title: string | null;
+  planned_sec: number;
+  actual_sec: number | null;
+  difference_sec: number | null;
+}
+
+interface TypeAccuracy {
+  type_key: string | null;
+  posts: number;
+  ratio: number | null;
+  mean_abs_error_percent: number | null;
+}
+
+interface DurationAnalytics {
+  forecast: {
+    planned_total_sec: number;
+    remaining_posts: number;
+    projected_total_sec: number;
+    projected_overrun_sec: number;
+  };
+  types: TypeAccuracy[];
+  posts: PostDuration[];
+}
+
 // ============================================================================
 // SUPABASE CLIENT
 // ============================================================================
@@ -41,11 +89,140 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 
 const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Analyspanelen hämtar från workern; utan VITE_WORKER_URL visas den inte
+const workerUrl = import.meta.env.VITE_WORKER_URL || '';
+
+const ROLE_LABELS: Record<Role, string> = {
+  producer: 'Producent',
+  floor_manager: 'Inspelningsledare',
+  operator: 'Operatör',
+  guest: 'Gäst',
+};
+
 // ============================================================================
-// MAIN APP
+// AUTH
 // ============================================================================
 
 export default function App() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [user, setUser] = useState<StudioUser | null>(null);
+  const [checking, setChecking] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setChecking(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Rollen läses från user_roles; inloggade utan roll är gäster
+  useEffect(() => {
+    if (!session) {
+      setUser(null);
+      return;
+    }
+
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', session.user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching role:', error);
+        setUser({ email: session.user.email ?? '', role: (data?.role as Role | undefined) ?? 'guest' });
+      });
+  }, [session]);
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return (
+      <div className="error-container">
+        <div className="error-icon">⚙️</div>
+        <div className="error-message">
+          Supabase inte konfigurerat.<br />
+          Sätt VITE_SUPABASE_URL och VITE_SUPABASE_ANON_KEY i .env
+        </div>
+      </div>
+    );
+  }
+
+  if (checking || (session && !user)) {
+    return (
+      <div className="loading-container">
+        <div className="loading-spinner" />
+        <div>Loggar in...</div>
+      </div>
+    );
+  }
+
+  if (!session || !user) {
+    return <SignIn />;
+  }
+
+  return <Studio user={user} onSignOut={() => supabase.auth.signOut()} />;
+}
+
+function SignIn() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+    if (error) {
+      console.error('Error signing in:', error);
+      setError('Fel e-post eller lösenord');
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="signin-container">
+      <form className="signin-form" onSubmit={handleSubmit}>
+        <div className="logo">Church Service</div>
+        <input
+          className="signin-input"
+          type="email"
+          placeholder="E-post"
+          autoComplete="username"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          required
+        />
+        <input
+          className="signin-input"
+          type="password"
+          placeholder="Lösenord"
+          autoComplete="current-password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          required
+        />
+        {error && <div className="signin-error">{error}</div>}
+        <button className="retry-btn" type="submit" disabled={submitting}>
+          Logga in
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// ============================================================================
+// STUDIO
+// ============================================================================
+
+function Studio({ user, onSignOut }: { user: StudioUser; onSignOut: () => void }) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [connected, setConnected] = useState(false);
@@ -54,12 +231,14 @@ export default function App() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [stats, setStats] = useState<ProgramStats | null>(null);
   const [currentPostId, setCurrentPostId] = useState<string | null>(null);
+  const [takes, setTakes] = useState<Take[]>([]);
 
   const [isRecording, setIsRecording] = useState(false);
   const [recordingStartTime, setRecordingStartTime] = useState<number | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
 
   const [clock, setClock] = useState(new Date());
+  const [showAnalytics, setShowAnalytics] = useState(false);
 
   // ============================================================================
   // DATA FETCHING
@@ -103,6 +282,16 @@ export default function App() {
 
   useEffect(() => {
     let channel: RealtimeChannel;
+    let refreshTimeout: number | undefined;
+
+    // En omsortering ger ett event per flyttad post, hämta bara en gång
+    const scheduleRefresh = () => {
+      window.clearTimeout(refreshTimeout);
+      refreshTimeout = window.setTimeout(() => {
+        fetchPosts();
+        fetchStats();
+      }, 250);
+    };
 
     const setupRealtime = async () => {
       setLoading(true);
@@ -123,8 +312,7 @@ export default function App() {
           },
           (payload) => {
             console.log('Realtime update:', payload);
-            fetchPosts();
-            fetchStats();
+            scheduleRefresh();
           }
         )
         .subscribe((status) => {
@@ -136,12 +324,64 @@ export default function App() {
     setupRealtime();
 
     return () => {
+      window.clearTimeout(refreshTimeout);
       if (channel) {
         supabase.removeChannel(channel);
       }
     };
   }, [programNr, fetchPosts, fetchStats]);
 
+  // Tagningar för aktiv post, uppdateras live när Companion loggar TC
+  const activePostId = (
+    posts.find(p => p.post_id === currentPostId) || posts.find(p => p.status === 'recording') || posts[0]
+  )?.post_id;
+
+  const fetchTakes = useCallback(async () => {
+    if (!activePostId) {
+      setTakes([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('tc_log')
+      .select('id, post_id, take_nr, tc_in, tc_out, duration_sec, verdict, selected, notes')
+      .eq('post_id', activePostId)
+      .order('take_nr');
+
+    if (error) {
+      console.error('Error fetching takes:', error);
+      return;
+    }
+    setTakes(data || []);
+  }, [activePostId]);
+
+  useEffect(() => {
+    if (!activePostId) {
+      setTakes([]);
+      return;
+    }
+
+    fetchTakes();
+
+    const channel = supabase
+      .channel(`takes_${activePostId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tc_log',
+          filter: `post_id=eq.${activePostId}`
+        },
+        () => fetchTakes()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activePostId, fetchTakes]);
+
   // ============================================================================
   // CLOCK & TIMER
   // ============================================================================
@@ -172,6 +412,11 @@ export default function App() {
   // POST ACTIONS
   // ============================================================================
 
+  // Samma regler som ROLE_SCOPES i workern och RLS i databasen
+  const canRecord = user.role === 'producer' || user.role === 'floor_manager';
+  const canApprove = user.role === 'producer';
+  const canLogTakes = user.role !== 'guest';
+
   const currentPost = posts.find(p => p.post_id === currentPostId) || posts.find(p => p.status === 'recording') || posts[0];
   const currentIndex = currentPost ? posts.findIndex(p => p.post_id === currentPost.post_id) : -1;
   const upcomingPosts = currentIndex >= 0 ? posts.slice(currentIndex, currentIndex + 6) : posts.slice(0, 6);
@@ -196,10 +441,13 @@ export default function App() {
     setElapsedTime(0);
 
     try {
-      await supabase
+      // En godkänd post förblir godkänd vid extratagning
+      const { error } = await supabase
         .from('posts')
         .update({ status: 'recording', last_modified_by: 'studio' })
-        .eq('post_id', currentPost.post_id);
+        .eq('post_id', currentPost.post_id)
+        .in('status', ['planerad', 'inspelad']);
+      if (error) throw error;
     } catch (err) {
       console.error('Error starting recording:', err);
     }
@@ -211,10 +459,12 @@ export default function App() {
     setIsRecording(false);
 
     try {
-      await supabase
+      // Databasen avvisar otillåtna statusövergångar
+      const { error } = await supabase
         .from('posts')
         .update({ status: 'inspelad', last_modified_by: 'studio' })
         .eq('post_id', currentPost.post_id);
+      if (error) throw error;
 
       // Move to next post
       handleNext();
@@ -227,15 +477,46 @@ export default function App() {
     if (!currentPost) return;
 
     try {
-      await supabase
+      // Databasen avvisar otillåtna statusövergångar
+      const { error } = await supabase
         .from('posts')
         .update({ status: 'godkand', last_modified_by: 'studio' })
         .eq('post_id', currentPost.post_id);
+      if (error) throw error;
     } catch (err) {
       console.error('Error approving:', err);
     }
   };
 
+  const handleTakeVerdict = async (take: Take, verdict: Take['verdict']) => {
+    try {
+      await supabase
+        .from('tc_log')
+        .update({ verdict: take.verdict === verdict ? null : verdict })
+        .eq('id', take.id);
+    } catch (err) {
+      console.error('Error setting verdict:', err);
+    }
+  };
+
+  // select_take() är bara för workern, så valet går via POST /api/takes
+  const handleSelectTake = async (take: Take) => {
+    try {
+      const { data } = await supabase.auth.getSession();
+      const response = await fetch(`${workerUrl}/api/takes`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${data.session?.access_token ?? ''}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ post_id: take.post_id, take_nr: take.take_nr, selected: !take.selected }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (err) {
+      console.error('Error selecting take:', err);
+    }
+  };
+
   // ============================================================================
   // HELPERS
   // ============================================================================
@@ -257,18 +538,6 @@ export default function App() {
   // RENDER
   // ============================================================================
 
-  if (!supabaseUrl || !supabaseAnonKey) {
-    return (
-      <div className="error-container">
-        <div className="error-icon">⚙️</div>
-        <div className="error-message">
-          Supabase inte konfigurerat.<br />
-          Sätt VITE_SUPABASE_URL och VITE_SUPABASE_ANON_KEY i .env
-        </div>
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="loading-container">
@@ -314,6 +583,10 @@ export default function App() {
             <div className={`status-dot ${connected ? '' : 'disconnected'}`} />
             {connected ? 'Live' : 'Ansluter...'}
           </div>
+          <div className="user-badge">
+            {user.email} · {ROLE_LABELS[user.role]}
+            <button className="signout-btn" onClick={onSignOut}>Logga ut</button>
+          </div>
           <div className="clock">{formatClock(clock)}</div>
         </div>
       </header>
@@ -339,8 +612,11 @@ export default function App() {
                   <span className="meta-value">{currentPost.location || '-'}</span>
                 </div>
                 <div className="meta-item">
-                  <span className="meta-label">Dag</span>
-                  <span className="meta-value">{currentPost.recording_day}</span>
+                  <span className="meta-label">Pass</span>
+                  <span className="meta-value">
+                    {currentPost.recording_day || '-'}
+                    {currentPost.recording_slot && ` ${currentPost.recording_slot.slice(0, 5)}`}
+                  </span>
                 </div>
                 <div className="meta-item">
                   <span className="meta-label">Status</span>
@@ -348,6 +624,38 @@ export default function App() {
                 </div>
               </div>
 
+              {takes.length > 0 && (
+                <div className="take-list">
+                  {takes.map(take => (
+                    <div key={take.id} className={`take-item ${take.selected ? 'selected' : ''}`}>
+                      <div className="take-number">T{take.take_nr}</div>
+                      <div className="take-tc">
+                        {take.tc_in} – {take.tc_out || '…'}
+                      </div>
+                      <div className="take-actions">
+                        {(['good', 'ng', 'keep'] as const).map(verdict => (
+                          <button
+                            key={verdict}
+                            className={`take-btn verdict-${verdict} ${take.verdict === verdict ? 'active' : ''}`}
+                            onClick={() => handleTakeVerdict(take, verdict)}
+                            disabled={!canLogTakes}
+                          >
+                            {verdict.toUpperCase()}
+                          </button>
+                        ))}
+                        <button
+                          className={`take-btn take-select ${take.selected ? 'active' : ''}`}
+                          onClick={() => handleSelectTake(take)}
+                          disabled={!take.tc_out || !canLogTakes || !workerUrl}
+                        >
+                          ★
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="timer-container">
                 <div className={`timer ${isRecording ? 'recording' : ''} ${elapsedTime > currentPost.duration_sec ? 'overtime' : ''}`}>
                   {formatTime(elapsedTime)}
@@ -394,16 +702,20 @@ export default function App() {
         </button>
 
         {isRecording ? (
-          <button className="control-btn btn-record recording" onClick={handleStopRecording}>
+          <button className="control-btn btn-record recording" onClick={handleStopRecording} disabled={!canRecord}>
             ⏹ Stoppa inspelning
           </button>
         ) : (
-          <button className="control-btn btn-record" onClick={handleStartRecording} disabled={!currentPost}>
+          <button className="control-btn btn-record" onClick={handleStartRecording} disabled={!currentPost || !canRecord}>
             ⏺ Starta inspelning
           </button>
         )}
 
-        <button className="control-btn btn-approve" onClick={handleApprove} disabled={!currentPost || currentPost.status !== 'inspelad'}>
+        <button
+          className="control-btn btn-approve"
+          onClick={handleApprove}
+          disabled={!currentPost || currentPost.status !== 'inspelad' || !canApprove}
+        >
           ✓ Godkänn
         </button>
 
@@ -412,6 +724,15 @@ export default function App() {
         </button>
       </div>
 
+      {showAnalytics && (
+        <AnalyticsPanel
+          day={currentPost?.recording_day ?? null}
+          refreshKey={posts}
+          formatTime={formatTime}
+          onClose={() => setShowAnalytics(false)}
+        />
+      )}
+
       {/* Stats Bar */}
       {stats && (
         <div className="stats-bar">
@@ -431,8 +752,138 @@ export default function App() {
             <span className="stat-label">Total tid:</span>
             <span className="stat-value">{formatTime(stats.total_duration_sec)}</span>
           </div>
+          {workerUrl && (
+            <button className="stats-toggle" onClick={() => setShowAnalytics(!showAnalytics)}>
+              📊 Prognos
+            </button>
+          )}
         </div>
       )}
     </div>
   );
 }
+
+// ============================================================================
+// ANALYTICS
+// ============================================================================
+
+/**
+ * Actual against planned duration for a recording session, and the forecast
+ * for the posts that remain, from the worker's duration analytics.
+ */
+function AnalyticsPanel({ day, refreshKey, formatTime, onClose }: {
+  day: string | null;
+  refreshKey: unknown;
+  formatTime: (seconds: number) => string;
+  onClose: () => void;
+}) {
+  const [analytics, setAnalytics] = useState<DurationAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Hämtas om när posterna ändras (status, längd, ordning)
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchAnalytics = async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        const response = await fetch(
+          `${workerUrl}/api/analytics/durations${day ? `?day=${encodeURIComponent(day)}` : ''}`,
+          { headers: { Authorization: `Bearer ${data.session?.access_token ?? ''}` } }
+        );
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const body: DurationAnalytics = await response.json();
+        if (!cancelled) {
+          setAnalytics(body);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error fetching analytics:', err);
+        if (!cancelled) setError('Kunde inte hämta analys');
+      }
+    };
+
+    fetchAnalytics();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [day, refreshKey]);
+
+  const formatSigned = (seconds: number): string =>
+    `${seconds > 0 ? '+' : seconds < 0 ? '−' : ''}${formatTime(Math.abs(seconds))}`;
+
+  const recorded = analytics?.posts.filter(post => post.actual_sec !== null) ?? [];
+
+  return (
+    <div className="analytics-panel">
+      <div className="analytics-header">
+        <span>Prognos {day ?? 'alla pass'}</span>
+        <button className="signout-btn" onClick={onClose}>Stäng</button>
+      </div>
+
+      {error && <div className="analytics-error">{error}</div>}
+
+      {analytics && (
+        <>
+          <div className="analytics-forecast">
+            <div className="stat-item">
+              <span className="stat-label">Planerat:</span>
+              <span className="stat-value">{formatTime(analytics.forecast.planned_total_sec)}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Prognos:</span>
+              <span className="stat-value">{formatTime(analytics.forecast.projected_total_sec)}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Avvikelse:</span>
+              <span className={`stat-value ${analytics.forecast.projected_overrun_sec > 0 ? 'negative' : 'positive'}`}>
+                {formatSigned(analytics.forecast.projected_overrun_sec)}
+              </span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Kvar:</span>
+              <span className="stat-value">{analytics.forecast.remaining_posts}</span>
+            </div>
+          </div>
+
+          <div className="analytics-section">Inspelat mot planerat</div>
+          {recorded.length === 0 ? (
+            <div className="analytics-empty">Inga stängda tagningar ännu</div>
+          ) : (
+            <table className="analytics-table">
+              <tbody>
+                {recorded.map(post => (
+                  <tr key={post.post_id}>
+                    <td>{post.post_id}</td>
+                    <td className="analytics-title">{post.title || '(Ingen titel)'}</td>
+                    <td>{formatTime(post.planned_sec)}</td>
+                    <td>{formatTime(post.actual_sec!)}</td>
+                    <td className={post.difference_sec! > 0 ? 'negative' : 'positive'}>
+                      {formatSigned(post.difference_sec!)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="analytics-section">Träffsäkerhet per posttyp (alla program)</div>
+          <table className="analytics-table">
+            <tbody>
+              {analytics.types.map(type => (
+                <tr key={type.type_key ?? '-'}>
+                  <td className="analytics-title">{type.type_key ?? '-'}</td>
+                  <td>{type.posts} st</td>
+                  <td>{type.ratio !== null ? `${Math.round(type.ratio * 100)} %` : '-'}</td>
+                  <td>{type.mean_abs_error_percent !== null ? `±${Math.round(type.mean_abs_error_percent)} %` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
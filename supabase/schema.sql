@@ -12,9 +12,9 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- ============================================================================
 
 CREATE TYPE post_status AS ENUM ('planerad', 'recording', 'inspelad', 'godkand');
-CREATE TYPE recording_day AS ENUM ('dag1', 'dag2', 'dag3');
 CREATE TYPE person_type AS ENUM ('medverkande', 'team', 'komponist', 'textforfattare');
 CREATE TYPE change_source AS ENUM ('sheets', 'api', 'studio', 'companion', 'system');
+CREATE TYPE user_role AS ENUM ('producer', 'floor_manager', 'operator', 'guest');
 
 -- ============================================================================
 -- PROGRAMS TABLE
@@ -30,10 +30,13 @@ CREATE TABLE programs (
   prod_nr TEXT,
   target_duration_sec INT DEFAULT 2610,  -- 43:30
   start_time TIME DEFAULT '09:00:00',
+  frame_rate TEXT DEFAULT '25' CHECK (frame_rate IN ('23.976', '24', '25', '29.97df', '30', '50', '59.94df')),
   notes TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
-  version INT DEFAULT 1
+  version INT DEFAULT 1,
+  last_modified_by change_source DEFAULT 'system',
+  last_modified_client TEXT  -- API-klient (api_clients.name) vid skrivning via Worker
 );
 
 -- Seed 4 programs
@@ -50,8 +53,16 @@ CREATE TABLE people (
   roles TEXT[],  -- Array: ['liturg', 'predikant']
   contact TEXT,
   type person_type DEFAULT 'medverkande',
+  -- Tillgänglighet: [{"date": "2026-03-14", "start": "09:00", "end": "12:00"}, ...]
+  -- Ett fönster utan date gäller alla dagar. NULL eller [] = alltid tillgänglig.
+  availability JSONB CHECK (availability IS NULL OR jsonb_typeof(availability) = 'array'),
   created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Optimistic locking (samma semantik som posts)
+  version INT DEFAULT 1,
+  last_modified_by change_source DEFAULT 'system',
+  last_modified_client TEXT  -- API-klient (api_clients.name) vid skrivning via Worker
 );
 
 -- ============================================================================
@@ -87,6 +98,32 @@ INSERT INTO post_types (type_key, display_name, default_duration_sec, icon, requ
   ('mellan_paa', 'Mellan-påa', 30, '⏸️', false, 'teknisk', '#ECEFF1'),
   ('valsignelse', 'Välsignelse', 45, '🙌', true, 'liturgisk', '#C8E6C9');
 
+-- ============================================================================
+-- RECORDING SESSIONS (inspelningspass)
+-- ============================================================================
+
+-- Ett pass per inspelningsdag eller block (förmiddag/kväll). Antalet pass
+-- och deras nycklar är data, inte schema: posts.recording_day pekar på
+-- session_key.
+CREATE TABLE recording_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_key TEXT UNIQUE NOT NULL CHECK (session_key ~ '^[a-z0-9][a-z0-9_-]{0,31}$'),  -- 'dag1', 'dag2-kvall'
+  name TEXT NOT NULL,
+  session_date DATE,
+  start_time TIME NOT NULL DEFAULT '09:00:00',
+  end_time TIME,
+  location TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Samma tre dagar som RECORDING_DAYS i Config.gs
+INSERT INTO recording_sessions (session_key, name) VALUES
+  ('dag1', 'Dag 1 – Textläsning & Predikan'),
+  ('dag2', 'Dag 2 – Musik & Kör'),
+  ('dag3', 'Dag 3 – Församling (helhet)');
+
 -- ============================================================================
 -- POSTS TABLE (huvudtabellen)
 -- ============================================================================
@@ -116,7 +153,8 @@ CREATE TABLE posts (
   arranger TEXT,
 
   -- Inspelning
-  recording_day recording_day DEFAULT 'dag1',
+  recording_day TEXT REFERENCES recording_sessions(session_key) ON UPDATE CASCADE,  -- pass
+  recording_slot TIME,  -- fast starttid i passet, NULL = direkt efter föregående post
   recording_time TIME,
   status post_status DEFAULT 'planerad',
 
@@ -133,6 +171,7 @@ CREATE TABLE posts (
   -- Optimistic locking - KRITISKT för sync
   version INT DEFAULT 1,
   last_modified_by change_source DEFAULT 'system',
+  last_modified_client TEXT,  -- API-klient (api_clients.name) vid skrivning via Worker
 
   -- Soft delete
   deleted_at TIMESTAMPTZ,
@@ -153,15 +192,26 @@ CREATE TABLE tc_log (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   post_id TEXT NOT NULL REFERENCES posts(post_id),
   operator TEXT,
-  tc_in TEXT,  -- HH:MM:SS:FF
+  tc_in TEXT,  -- HH:MM:SS:FF (HH:MM:SS;FF för drop-frame)
   tc_out TEXT,
   clip_nr INT,
+  frame_rate TEXT,  -- Programmets bildfrekvens vid TC-IN, t.ex. '25', '29.97df'
+  duration_frames INT,  -- Exakt längd i frames (midnattsövergång hanterad)
   duration_sec INT,
   notes TEXT,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+
+  -- Tagningar: varje TC-IN startar en ny tagning för posten
+  take_nr INT NOT NULL DEFAULT 1,
+  verdict TEXT CHECK (verdict IN ('good', 'ng', 'keep')),
+  selected BOOLEAN NOT NULL DEFAULT false,  -- Vald tagning (max en per post)
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(post_id, take_nr)
 );
 
 CREATE INDEX idx_tc_log_post ON tc_log(post_id);
+CREATE UNIQUE INDEX idx_tc_log_selected ON tc_log(post_id) WHERE selected;
 
 -- ============================================================================
 -- AUDIT LOG (automatisk historik för alla ändringar)
@@ -178,11 +228,15 @@ CREATE TABLE audit_log (
   changed_fields TEXT[],
   source change_source DEFAULT 'system',
   user_email TEXT,
+  batch_id UUID,  -- Grupperar rader som hör till samma logiska ändring (t.ex. omsortering)
+  client_name TEXT,  -- API-klient som gjorde ändringen (api_clients.name)
+  reason TEXT,  -- Motivering vid privilegierad ändring, t.ex. överstyrd status
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 CREATE INDEX idx_audit_post ON audit_log(post_id);
 CREATE INDEX idx_audit_created ON audit_log(created_at);
+CREATE INDEX idx_audit_batch ON audit_log(batch_id) WHERE batch_id IS NOT NULL;
 
 -- ============================================================================
 -- SYNC STATUS (för att tracka Sheets-synkronisering)
@@ -192,10 +246,12 @@ CREATE TABLE sync_status (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   entity_type TEXT NOT NULL,  -- 'post', 'person', 'program'
   entity_id TEXT NOT NULL,
-  sheets_version INT DEFAULT 0,
-  db_version INT DEFAULT 0,
+  sheets_version INT DEFAULT 0,     -- Versionen Sheets senast skrev eller tog emot
+  db_version INT DEFAULT 0,         -- Aktuell version i databasen
   last_sheets_sync TIMESTAMPTZ,
   last_db_sync TIMESTAMPTZ,
+  sheets_modified_at TIMESTAMPTZ,   -- Radens modified i Sheets vid senaste rapport
+  sheets_reported_at TIMESTAMPTZ,
   conflict BOOLEAN DEFAULT false,
   conflict_data JSONB,
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -204,6 +260,121 @@ CREATE TABLE sync_status (
   UNIQUE(entity_type, entity_id)
 );
 
+-- ============================================================================
+-- API CLIENTS (namngivna nycklar för Companion, Studio m.fl.)
+-- ============================================================================
+
+CREATE TABLE api_clients (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE CHECK (name ~ '^[a-z0-9][a-z0-9_-]*$'),  -- "companion-regi", "ipad-floor"
+  key_hash TEXT NOT NULL UNIQUE,  -- SHA-256 (hex), nyckeln lagras aldrig i klartext
+  key_prefix TEXT NOT NULL,       -- Nyckelns början, för att känna igen den i listor
+  scopes TEXT[] NOT NULL DEFAULT '{read}'
+    CHECK (scopes <@ ARRAY['read', 'timecode', 'status', 'approve', 'edit', 'override']),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ
+);
+
+-- ============================================================================
+-- USER ROLES (personer som loggar in med Supabase Auth)
+-- ============================================================================
+
+-- producer: allt, även godkännande och körschema
+-- floor_manager: inspelningsstatus, anteckningar och tagningar
+-- operator: bara timecode och tagningar
+-- guest: bara läsning (även inloggade utan rad här)
+-- Samma regler som ROLE_SCOPES i worker/src/auth.ts.
+CREATE TABLE user_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role user_role NOT NULL DEFAULT 'guest',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- IDEMPOTENCY KEYS (svar att spela upp igen vid omförsök)
+-- ============================================================================
+
+CREATE TABLE idempotency_keys (
+  caller TEXT NOT NULL,        -- API-klient, 'sheets' eller IP
+  key TEXT NOT NULL,           -- Idempotency-Key, eller 'auto:<hash>' utan nyckel
+  request_hash TEXT NOT NULL,  -- SHA-256 av metod, route och body
+  route TEXT NOT NULL,
+  response_status INT,         -- NULL medan den första requesten pågår
+  response_body TEXT,
+  content_type TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+
+  PRIMARY KEY (caller, key)
+);
+
+CREATE INDEX idx_idempotency_expires ON idempotency_keys(expires_at);
+
+-- ============================================================================
+-- WEBHOOKS (utgående ändringshändelser till Sheets och andra mottagare)
+-- ============================================================================
+
+CREATE TABLE webhook_targets (
+  name TEXT PRIMARY KEY CHECK (name ~ '^[a-z0-9][a-z0-9_-]*$'),
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,  -- HMAC-nyckel, måste sparas i klartext för att kunna signera
+  entity_types TEXT[] NOT NULL DEFAULT '{post,person,program}'
+    CHECK (entity_types <@ ARRAY['post', 'person', 'program']),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Kö med en rad per händelse och mottagare. Levererade rader ligger kvar
+-- en vecka; 'dead' ligger kvar tills de spelas upp igen.
+CREATE TABLE webhook_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  target_name TEXT NOT NULL REFERENCES webhook_targets(name) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT,
+  event JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+  attempts INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_status INT,       -- HTTP-status från senaste försöket
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_webhook_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_webhook_entity ON webhook_deliveries(target_name, entity_type, entity_id) WHERE status = 'pending';
+CREATE INDEX idx_webhook_dead ON webhook_deliveries(target_name, created_at) WHERE status = 'dead';
+
+-- ============================================================================
+-- PRODUCTION EVENTS (händelseström för GET /events)
+-- ============================================================================
+
+-- id är event-ID i strömmen; klienter återupptar med Last-Event-ID.
+-- Rader äldre än ett dygn rensas av workerns cron.
+CREATE TABLE production_events (
+  id BIGSERIAL PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('post_status', 'current_post', 'tc_in', 'tc_out', 'reorder')),
+  program_nr INT,
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_production_events_created ON production_events(created_at);
+
+-- ============================================================================
+-- COUNTERS (serverside-räknare, t.ex. klippnummer för Companion/HyperDeck)
+-- ============================================================================
+
+CREATE TABLE counters (
+  name TEXT PRIMARY KEY,
+  value INT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO counters (name, value) VALUES ('clip_counter', 0);
+
 -- ============================================================================
 -- FUNCTIONS & TRIGGERS
 -- ============================================================================
@@ -217,22 +388,79 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
--- Auto-increment version (optimistic locking)
+-- API-klienten bakom aktuell request. Workern skickar X-Api-Client till
+-- PostgREST, som exponerar request-headers som inställningen request.headers.
+CREATE OR REPLACE FUNCTION request_client()
+RETURNS TEXT AS $$
+  SELECT NULLIF(NULLIF(current_setting('request.headers', true), '')::json->>'x-api-client', '');
+$$ LANGUAGE sql STABLE;
+
+-- Personen bakom aktuell request. Studio skriver direkt som inloggad
+-- användare; workern kör med service key och skickar X-User-Email för
+-- användare vars JWT den verifierat. Headern gäller bara med service key.
+CREATE OR REPLACE FUNCTION request_user_email()
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN auth.role() = 'service_role'
+      THEN NULLIF(NULLIF(current_setting('request.headers', true), '')::json->>'x-user-email', '')
+    ELSE NULLIF(auth.jwt()->>'email', '')
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Rollen för en inloggad användare; inloggade utan rad i user_roles är
+-- gäster. NULL för service key (workern kontrollerar själv) och anon.
+CREATE OR REPLACE FUNCTION request_role()
+RETURNS user_role AS $$
+  SELECT CASE
+    WHEN auth.role() = 'authenticated'
+      THEN COALESCE((SELECT role FROM public.user_roles WHERE user_id = auth.uid()), 'guest')
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Sätt last_modified_client vid varje skrivning
+CREATE OR REPLACE FUNCTION set_modified_client()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.last_modified_client = request_client();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Auto-increment version (optimistic locking). En omsortering via
+-- apply_running_order och omräknade klocktider (refresh_recording_times)
+-- ger ingen ny version.
 CREATE OR REPLACE FUNCTION increment_version()
 RETURNS TRIGGER AS $$
 BEGIN
+  IF current_setting('app.reorder', true) = 'on'
+     OR current_setting('app.recording_times', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
   NEW.version = OLD.version + 1;
   RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
 
--- Audit logging trigger
+-- Audit logging trigger. Körs som ägaren, så att inloggade användare
+-- (som inte får skriva i audit_log) ändå loggas. Rader som flyttas av
+-- apply_running_order loggas inte var för sig, där skrivs en REORDER-rad,
+-- och omräknade klocktider loggas inte alls.
 CREATE OR REPLACE FUNCTION audit_trigger()
 RETURNS TRIGGER AS $$
 DECLARE
   changed TEXT[];
   col TEXT;
+  batch UUID := NULLIF(current_setting('app.batch_id', true), '')::UUID;
+  client TEXT := request_client();
+  email TEXT := request_user_email();
+  reason TEXT := NULLIF(current_setting('app.change_reason', true), '');
 BEGIN
+  IF TG_OP = 'UPDATE' AND (current_setting('app.reorder', true) = 'on'
+     OR current_setting('app.recording_times', true) = 'on') THEN
+    RETURN NEW;
+  END IF;
+
   IF TG_OP = 'UPDATE' THEN
     -- Find changed columns
     FOR col IN SELECT column_name FROM information_schema.columns
@@ -242,7 +470,7 @@ BEGIN
       END IF;
     END LOOP;
 
-    INSERT INTO audit_log (table_name, record_id, post_id, action, old_data, new_data, changed_fields, source)
+    INSERT INTO audit_log (table_name, record_id, post_id, action, old_data, new_data, changed_fields, source, batch_id, client_name, user_email, reason)
     VALUES (
       TG_TABLE_NAME,
       NEW.id,
@@ -251,34 +479,162 @@ BEGIN
       to_jsonb(OLD),
       to_jsonb(NEW),
       changed,
-      NEW.last_modified_by
+      NEW.last_modified_by,
+      batch,
+      client,
+      email,
+      reason
     );
   ELSIF TG_OP = 'INSERT' THEN
-    INSERT INTO audit_log (table_name, record_id, post_id, action, new_data, source)
+    INSERT INTO audit_log (table_name, record_id, post_id, action, new_data, source, batch_id, client_name, user_email, reason)
     VALUES (
       TG_TABLE_NAME,
       NEW.id,
       CASE WHEN TG_TABLE_NAME = 'posts' THEN NEW.post_id ELSE NULL END,
       'INSERT',
       to_jsonb(NEW),
-      NEW.last_modified_by
+      NEW.last_modified_by,
+      batch,
+      client,
+      email,
+      reason
     );
   ELSIF TG_OP = 'DELETE' THEN
-    INSERT INTO audit_log (table_name, record_id, post_id, action, old_data)
+    INSERT INTO audit_log (table_name, record_id, post_id, action, old_data, batch_id, client_name, user_email, reason)
     VALUES (
       TG_TABLE_NAME,
       OLD.id,
       CASE WHEN TG_TABLE_NAME = 'posts' THEN OLD.post_id ELSE NULL END,
       'DELETE',
-      to_jsonb(OLD)
+      to_jsonb(OLD),
+      batch,
+      client,
+      email,
+      reason
     );
   END IF;
 
   RETURN COALESCE(NEW, OLD);
 END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- POST STATUS (tillståndsmaskin)
+-- ============================================================================
+
+-- Tillåtna övergångar, samma som POST_STATUS_TRANSITIONS i worker/src/status.ts:
+-- planerad → recording → inspelad → godkand, plus avbruten tagning
+-- (recording → planerad), omtagning (inspelad → recording), återställning
+-- (inspelad → planerad) och ångrat godkännande (godkand → inspelad)
+CREATE OR REPLACE FUNCTION post_status_allowed(p_from post_status, p_to post_status)
+RETURNS BOOLEAN AS $$
+  SELECT p_from = p_to OR CASE p_from
+    WHEN 'planerad' THEN p_to = 'recording'
+    WHEN 'recording' THEN p_to IN ('inspelad', 'planerad')
+    WHEN 'inspelad' THEN p_to IN ('godkand', 'recording', 'planerad')
+    WHEN 'godkand' THEN p_to = 'inspelad'
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Stoppar otillåtna övergångar oavsett klient (Worker, Studio, SQL).
+-- override_post_status() och offline-push sätter app.status_override.
+CREATE OR REPLACE FUNCTION enforce_post_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT post_status_allowed(OLD.status, NEW.status)
+     AND COALESCE(current_setting('app.status_override', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Status of % cannot change from % to %', NEW.post_id, OLD.status, NEW.status
+      USING ERRCODE = 'check_violation',
+            HINT = 'Use an override with a reason (POST /api/post/status)';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Privilegierad statusändring utanför tillståndsmaskinen. Motiveringen
+-- hamnar i audit_log.reason. NULL om posten saknas eller versionen är inaktuell.
+CREATE OR REPLACE FUNCTION override_post_status(
+  p_post_id TEXT,
+  p_status post_status,
+  p_reason TEXT,
+  p_version INT DEFAULT NULL
+)
+RETURNS SETOF posts AS $$
+BEGIN
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to override the status of %', p_post_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.status_override', 'on', true);
+  PERFORM set_config('app.change_reason', p_reason, true);
+
+  RETURN QUERY
+  UPDATE posts SET status = p_status, last_modified_by = 'api'
+  WHERE post_id = p_post_id
+    AND deleted_at IS NULL
+    AND (p_version IS NULL OR version = p_version)
+  RETURNING *;
+
+  PERFORM set_config('app.status_override', '', true);
+  PERFORM set_config('app.change_reason', '', true);
+END;
 $$ LANGUAGE plpgsql;
 
+-- ============================================================================
+-- USER ROLES (behörighet för inloggade användare)
+-- ============================================================================
+
+-- RLS avgör vilka tabeller en roll får skriva i; här begränsas vad en
+-- floor manager får ändra i en post. Workern (service key) har redan
+-- kontrollerat rollen och släpps igenom.
+CREATE OR REPLACE FUNCTION enforce_post_role()
+RETURNS TRIGGER AS $$
+DECLARE
+  -- Kolumner som triggers eller status/anteckningar ändrar
+  allowed TEXT[] := ARRAY['status', 'notes', 'version', 'updated_at', 'last_modified_by', 'last_modified_client'];
+BEGIN
+  IF request_role() IS DISTINCT FROM 'floor_manager' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status AND 'godkand' IN (OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Only a producer can approve or un-approve %', NEW.post_id
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF to_jsonb(NEW) - allowed IS DISTINCT FROM to_jsonb(OLD) - allowed THEN
+    RAISE EXCEPTION 'A floor manager can only change status and notes of %', NEW.post_id
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tilldela en roll via e-post. Användaren måste finnas i Supabase Auth
+-- (inbjuden eller inloggad en gång). Ingen rad om e-posten är okänd.
+-- Körs som ägaren för att läsa auth.users; bara workern får anropa den.
+CREATE OR REPLACE FUNCTION set_user_role(p_email TEXT, p_role user_role)
+RETURNS SETOF user_roles AS $$
+  INSERT INTO user_roles (user_id, email, role)
+  SELECT id, email, p_role FROM auth.users WHERE lower(email) = lower(p_email)
+  ON CONFLICT (user_id) DO UPDATE
+    SET role = EXCLUDED.role, email = EXCLUDED.email, updated_at = NOW()
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
 -- Apply triggers to posts
+CREATE TRIGGER posts_role
+  BEFORE UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION enforce_post_role();
+
+CREATE TRIGGER posts_status
+  BEFORE UPDATE OF status ON posts
+  FOR EACH ROW EXECUTE FUNCTION enforce_post_status();
+
 CREATE TRIGGER posts_updated_at
   BEFORE UPDATE ON posts
   FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -287,6 +643,10 @@ CREATE TRIGGER posts_version
   BEFORE UPDATE ON posts
   FOR EACH ROW EXECUTE FUNCTION increment_version();
 
+CREATE TRIGGER posts_modified_client
+  BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION set_modified_client();
+
 CREATE TRIGGER posts_audit
   AFTER INSERT OR UPDATE OR DELETE ON posts
   FOR EACH ROW EXECUTE FUNCTION audit_trigger();
@@ -296,11 +656,1082 @@ CREATE TRIGGER programs_updated_at
   BEFORE UPDATE ON programs
   FOR EACH ROW EXECUTE FUNCTION update_updated_at();
 
+CREATE TRIGGER programs_version
+  BEFORE UPDATE ON programs
+  FOR EACH ROW EXECUTE FUNCTION increment_version();
+
+CREATE TRIGGER programs_modified_client
+  BEFORE INSERT OR UPDATE ON programs
+  FOR EACH ROW EXECUTE FUNCTION set_modified_client();
+
+CREATE TRIGGER programs_audit
+  AFTER INSERT OR UPDATE OR DELETE ON programs
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger();
+
+-- Apply to recording sessions
+CREATE TRIGGER recording_sessions_updated_at
+  BEFORE UPDATE ON recording_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
 -- Apply to people
 CREATE TRIGGER people_updated_at
   BEFORE UPDATE ON people
   FOR EACH ROW EXECUTE FUNCTION update_updated_at();
 
+CREATE TRIGGER people_version
+  BEFORE UPDATE ON people
+  FOR EACH ROW EXECUTE FUNCTION increment_version();
+
+CREATE TRIGGER people_modified_client
+  BEFORE INSERT OR UPDATE ON people
+  FOR EACH ROW EXECUTE FUNCTION set_modified_client();
+
+CREATE TRIGGER people_audit
+  AFTER INSERT OR UPDATE OR DELETE ON people
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger();
+
+-- ============================================================================
+-- BATCH SYNC (en round trip från Worker, valfritt allt-eller-inget)
+-- ============================================================================
+
+-- Upsert av en hel batch poster med versionskontroll per rad.
+-- Returnerar en rapport per post_id. Med p_atomic = true skrivs ingenting
+-- om någon rad är i konflikt eller felar. version 0 betyder att posten inte
+-- får finnas (skapad offline); finns den redan är det en konflikt.
+CREATE OR REPLACE FUNCTION sync_posts_batch(
+  p_posts JSONB,
+  p_atomic BOOLEAN DEFAULT false,
+  p_source change_source DEFAULT 'sheets',
+  p_override_reason TEXT DEFAULT NULL  -- Satt: statusövergångar kontrolleras inte (offline-push)
+)
+RETURNS JSONB AS $$
+DECLARE
+  row_data JSONB;
+  existing posts%ROWTYPE;
+  merged posts%ROWTYPE;
+  incoming_version INT;
+  created TEXT[] := '{}';
+  updated TEXT[] := '{}';
+  conflicts JSONB := '[]'::jsonb;
+  errors JSONB := '[]'::jsonb;
+BEGIN
+  -- Konfliktkontroll först, så att atomiskt läge kan avbryta utan att skriva
+  FOR row_data IN SELECT * FROM jsonb_array_elements(p_posts) LOOP
+    incoming_version := NULLIF(row_data->>'version', '')::INT;
+    SELECT * INTO existing FROM posts WHERE post_id = row_data->>'post_id' FOR UPDATE;
+
+    IF FOUND AND incoming_version IS NOT NULL AND incoming_version < existing.version THEN
+      conflicts := conflicts || jsonb_build_object(
+        'post_id', existing.post_id,
+        'your_version', incoming_version,
+        'server_version', existing.version,
+        'last_modified_by', existing.last_modified_by,
+        'last_modified_at', existing.updated_at
+      );
+    END IF;
+  END LOOP;
+
+  IF p_atomic AND jsonb_array_length(conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'applied', false,
+      'created', created,
+      'updated', updated,
+      'conflicts', conflicts,
+      'errors', errors
+    );
+  END IF;
+
+  -- Gäller transaktionen ut och loggas i audit_log.reason
+  IF p_override_reason IS NOT NULL THEN
+    PERFORM set_config('app.status_override', 'on', true);
+    PERFORM set_config('app.change_reason', p_override_reason, true);
+  END IF;
+
+  BEGIN
+    FOR row_data IN SELECT * FROM jsonb_array_elements(p_posts) LOOP
+      -- Hoppa över rader som redan rapporterats som konflikt
+      CONTINUE WHEN conflicts @> jsonb_build_array(jsonb_build_object('post_id', row_data->>'post_id'));
+
+      BEGIN
+        SELECT * INTO existing FROM posts WHERE post_id = row_data->>'post_id';
+
+        IF FOUND THEN
+          -- Fält som saknas i raden behåller sitt nuvarande värde
+          merged := jsonb_populate_record(existing, row_data - 'id' - 'version' - 'created_at' - 'updated_at');
+
+          UPDATE posts SET
+            program_nr = merged.program_nr,
+            type_key = merged.type_key,
+            sort_order = merged.sort_order,
+            title = merged.title,
+            duration_sec = merged.duration_sec,
+            location = merged.location,
+            people_ids = merged.people_ids,
+            text_author = merged.text_author,
+            composer = merged.composer,
+            arranger = merged.arranger,
+            recording_day = merged.recording_day,
+            recording_slot = merged.recording_slot,
+            recording_time = merged.recording_time,
+            status = merged.status,
+            info_pos = merged.info_pos,
+            graphics = merged.graphics,
+            notes = merged.notes,
+            open_text = merged.open_text,
+            last_modified_by = p_source
+          WHERE id = existing.id;
+
+          updated := array_append(updated, existing.post_id);
+        ELSE
+          merged := jsonb_populate_record(NULL::posts, row_data);
+
+          INSERT INTO posts (
+            post_id, program_nr, type_key, sort_order, title, duration_sec,
+            location, people_ids, text_author, composer, arranger,
+            recording_day, recording_slot, recording_time, status, info_pos, graphics,
+            notes, open_text, last_modified_by
+          ) VALUES (
+            merged.post_id, merged.program_nr, merged.type_key, merged.sort_order,
+            merged.title, COALESCE(merged.duration_sec, 60),
+            merged.location, merged.people_ids, merged.text_author, merged.composer, merged.arranger,
+            merged.recording_day, merged.recording_slot, merged.recording_time,
+            COALESCE(merged.status, 'planerad'), merged.info_pos, merged.graphics,
+            merged.notes, COALESCE(merged.open_text, false), p_source
+          );
+
+          created := array_append(created, row_data->>'post_id');
+        END IF;
+
+        PERFORM record_sync_status('post', row_data->>'post_id', p_source::TEXT);
+
+      EXCEPTION WHEN OTHERS THEN
+        IF p_atomic THEN
+          RAISE;
+        END IF;
+
+        errors := errors || jsonb_build_object('post_id', row_data->>'post_id', 'message', SQLERRM, 'code', SQLSTATE);
+      END;
+    END LOOP;
+
+  EXCEPTION WHEN OTHERS THEN
+    -- Atomiskt läge: allt rullas tillbaka till blockets start
+    RETURN jsonb_build_object(
+      'applied', false,
+      'created', '{}'::TEXT[],
+      'updated', '{}'::TEXT[],
+      'conflicts', conflicts,
+      'errors', errors || jsonb_build_object('post_id', row_data->>'post_id', 'message', SQLERRM, 'code', SQLSTATE)
+    );
+  END;
+
+  RETURN jsonb_build_object(
+    'applied', true,
+    'created', created,
+    'updated', updated,
+    'conflicts', conflicts,
+    'errors', errors
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Samma för personer och program (p_entity_type 'person' eller 'program'),
+-- nycklat på person_id respektive program_nr. Rapporten har samma form som
+-- sync_posts_batch med entity_id istället för post_id, plus de nya
+-- versionerna (entity_id → version) som Sheets sparar till nästa synk.
+CREATE OR REPLACE FUNCTION sync_entities_batch(
+  p_entity_type TEXT,
+  p_rows JSONB,
+  p_atomic BOOLEAN DEFAULT false,
+  p_source change_source DEFAULT 'sheets'
+)
+RETURNS JSONB AS $$
+DECLARE
+  row_data JSONB;
+  entity_id TEXT;
+  id_column TEXT;
+  existing_version INT;
+  existing_modified_by change_source;
+  existing_modified_at TIMESTAMPTZ;
+  incoming_version INT;
+  saved_version INT;
+  person people%ROWTYPE;
+  program programs%ROWTYPE;
+  created TEXT[] := '{}';
+  updated TEXT[] := '{}';
+  versions JSONB := '{}'::jsonb;
+  conflicts JSONB := '[]'::jsonb;
+  errors JSONB := '[]'::jsonb;
+BEGIN
+  IF p_entity_type = 'person' THEN
+    id_column := 'person_id';
+  ELSIF p_entity_type = 'program' THEN
+    id_column := 'program_nr';
+  ELSE
+    RAISE EXCEPTION 'Unknown entity type: %', p_entity_type USING ERRCODE = '22023';
+  END IF;
+
+  -- Konfliktkontroll först, så att atomiskt läge kan avbryta utan att skriva
+  FOR row_data IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    entity_id := row_data->>id_column;
+    incoming_version := NULLIF(row_data->>'version', '')::INT;
+
+    IF p_entity_type = 'person' THEN
+      SELECT version, last_modified_by, updated_at
+        INTO existing_version, existing_modified_by, existing_modified_at
+        FROM people WHERE person_id = entity_id FOR UPDATE;
+    ELSE
+      SELECT version, last_modified_by, updated_at
+        INTO existing_version, existing_modified_by, existing_modified_at
+        FROM programs WHERE program_nr = entity_id::INT FOR UPDATE;
+    END IF;
+
+    IF FOUND AND incoming_version IS NOT NULL AND incoming_version < existing_version THEN
+      conflicts := conflicts || jsonb_build_object(
+        'entity_id', entity_id,
+        'your_version', incoming_version,
+        'server_version', existing_version,
+        'last_modified_by', existing_modified_by,
+        'last_modified_at', existing_modified_at
+      );
+    END IF;
+  END LOOP;
+
+  IF p_atomic AND jsonb_array_length(conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'applied', false,
+      'created', created,
+      'updated', updated,
+      'conflicts', conflicts,
+      'errors', errors,
+      'versions', versions
+    );
+  END IF;
+
+  BEGIN
+    FOR row_data IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+      entity_id := row_data->>id_column;
+
+      -- Hoppa över rader som redan rapporterats som konflikt
+      CONTINUE WHEN conflicts @> jsonb_build_array(jsonb_build_object('entity_id', entity_id));
+
+      BEGIN
+        IF p_entity_type = 'person' THEN
+          SELECT * INTO person FROM people WHERE person_id = entity_id;
+
+          IF FOUND THEN
+            -- Fält som saknas i raden behåller sitt nuvarande värde
+            person := jsonb_populate_record(person, row_data - 'id' - 'version' - 'created_at' - 'updated_at');
+
+            UPDATE people SET
+              name = person.name,
+              roles = person.roles,
+              contact = person.contact,
+              type = person.type,
+              availability = person.availability,
+              last_modified_by = p_source
+            WHERE id = person.id
+            RETURNING version INTO saved_version;
+
+            updated := array_append(updated, entity_id);
+          ELSE
+            person := jsonb_populate_record(NULL::people, row_data);
+
+            INSERT INTO people (person_id, name, roles, contact, type, availability, last_modified_by)
+            VALUES (
+              person.person_id, person.name, person.roles, person.contact,
+              COALESCE(person.type, 'medverkande'), person.availability, p_source
+            )
+            RETURNING version INTO saved_version;
+
+            created := array_append(created, entity_id);
+          END IF;
+        ELSE
+          SELECT * INTO program FROM programs WHERE program_nr = entity_id::INT;
+
+          IF FOUND THEN
+            program := jsonb_populate_record(program, row_data - 'id' - 'version' - 'created_at' - 'updated_at');
+
+            UPDATE programs SET
+              location = program.location,
+              start_date = program.start_date,
+              broadcast_date = program.broadcast_date,
+              church_year = program.church_year,
+              prod_nr = program.prod_nr,
+              target_duration_sec = program.target_duration_sec,
+              start_time = program.start_time,
+              frame_rate = program.frame_rate,
+              notes = program.notes,
+              last_modified_by = p_source
+            WHERE id = program.id
+            RETURNING version INTO saved_version;
+
+            updated := array_append(updated, entity_id);
+          ELSE
+            program := jsonb_populate_record(NULL::programs, row_data);
+
+            INSERT INTO programs (
+              program_nr, location, start_date, broadcast_date, church_year, prod_nr,
+              target_duration_sec, start_time, frame_rate, notes, last_modified_by
+            ) VALUES (
+              program.program_nr, program.location, program.start_date, program.broadcast_date,
+              program.church_year, program.prod_nr, COALESCE(program.target_duration_sec, 2610),
+              COALESCE(program.start_time, '09:00:00'), COALESCE(program.frame_rate, '25'),
+              program.notes, p_source
+            )
+            RETURNING version INTO saved_version;
+
+            created := array_append(created, entity_id);
+          END IF;
+        END IF;
+
+        versions := versions || jsonb_build_object(entity_id, saved_version);
+        PERFORM record_sync_status(p_entity_type, entity_id, p_source::TEXT);
+
+      EXCEPTION WHEN OTHERS THEN
+        IF p_atomic THEN
+          RAISE;
+        END IF;
+
+        errors := errors || jsonb_build_object('entity_id', entity_id, 'message', SQLERRM);
+      END;
+    END LOOP;
+
+  EXCEPTION WHEN OTHERS THEN
+    -- Atomiskt läge: allt rullas tillbaka till blockets start
+    RETURN jsonb_build_object(
+      'applied', false,
+      'created', '{}'::TEXT[],
+      'updated', '{}'::TEXT[],
+      'conflicts', conflicts,
+      'errors', errors || jsonb_build_object('entity_id', entity_id, 'message', SQLERRM),
+      'versions', '{}'::jsonb
+    );
+  END;
+
+  RETURN jsonb_build_object(
+    'applied', true,
+    'created', created,
+    'updated', updated,
+    'conflicts', conflicts,
+    'errors', errors,
+    'versions', versions
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- RUNNING ORDER (atomisk omsortering)
+-- ============================================================================
+
+-- Skriver om sort_order (10, 20, 30 …) för ett helt program i en transaktion.
+-- p_expected är ordningen klienten utgick från; har den ändrats sedan dess
+-- avbryts allt (SQLSTATE 40001). p_new_post skapas i samma transaktion.
+-- Flyttade rader får varken ny version, egna audit-rader eller webhooks
+-- (app.reorder); en enda REORDER-rad beskriver ändringen som helhet och
+-- delar batch_id med en eventuell ny post.
+CREATE OR REPLACE FUNCTION apply_running_order(
+  p_program_nr INT,
+  p_order TEXT[],
+  p_expected TEXT[],
+  p_new_post JSONB DEFAULT NULL,
+  p_source change_source DEFAULT 'api'
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_order TEXT[];
+  batch UUID := uuid_generate_v4();
+  new_post posts%ROWTYPE;
+  result JSONB;
+BEGIN
+  PERFORM 1 FROM posts
+  WHERE program_nr = p_program_nr AND deleted_at IS NULL
+  FOR UPDATE;
+
+  SELECT COALESCE(array_agg(post_id ORDER BY sort_order, post_id), '{}') INTO current_order
+  FROM posts
+  WHERE program_nr = p_program_nr AND deleted_at IS NULL;
+
+  IF current_order IS DISTINCT FROM p_expected THEN
+    RAISE EXCEPTION 'Running order for program % has changed', p_program_nr
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF (SELECT array_agg(x ORDER BY x) FROM unnest(p_order) x) IS DISTINCT FROM
+     (SELECT array_agg(x ORDER BY x) FROM unnest(
+        current_order || CASE WHEN p_new_post IS NULL THEN '{}'::TEXT[] ELSE ARRAY[p_new_post->>'post_id'] END
+     ) x) THEN
+    RAISE EXCEPTION 'New order must contain every active post in program % exactly once', p_program_nr
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.batch_id', batch::TEXT, true);
+
+  IF p_new_post IS NOT NULL THEN
+    new_post := jsonb_populate_record(NULL::posts, p_new_post);
+
+    INSERT INTO posts (
+      post_id, program_nr, type_key, sort_order, title, duration_sec,
+      location, people_ids, text_author, composer, arranger,
+      recording_day, recording_slot, recording_time, status, info_pos, graphics,
+      notes, open_text, last_modified_by
+    ) VALUES (
+      new_post.post_id, p_program_nr, new_post.type_key,
+      10 * array_position(p_order, new_post.post_id),
+      new_post.title, COALESCE(new_post.duration_sec, 60),
+      new_post.location, new_post.people_ids, new_post.text_author, new_post.composer, new_post.arranger,
+      new_post.recording_day, new_post.recording_slot, new_post.recording_time,
+      COALESCE(new_post.status, 'planerad'), new_post.info_pos, new_post.graphics,
+      new_post.notes, COALESCE(new_post.open_text, false), p_source
+    );
+  END IF;
+
+  -- Bara rader som faktiskt flyttas skrivs (färre realtime-events)
+  PERFORM set_config('app.reorder', 'on', true);
+
+  UPDATE posts p
+  SET sort_order = 10 * o.idx, last_modified_by = p_source
+  FROM unnest(p_order) WITH ORDINALITY AS o(post_id, idx)
+  WHERE p.post_id = o.post_id
+    AND p.deleted_at IS NULL
+    AND p.sort_order IS DISTINCT FROM 10 * o.idx;
+
+  PERFORM set_config('app.reorder', '', true);
+  PERFORM refresh_recording_times(p_program_nr);
+
+  INSERT INTO audit_log (table_name, action, old_data, new_data, changed_fields, source, batch_id, client_name, user_email)
+  VALUES (
+    'posts',
+    'REORDER',
+    jsonb_build_object('program_nr', p_program_nr, 'order', current_order),
+    jsonb_build_object('program_nr', p_program_nr, 'order', p_order),
+    ARRAY['sort_order'],
+    p_source,
+    batch,
+    request_client(),
+    request_user_email()
+  );
+
+  PERFORM set_config('app.batch_id', '', true);
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'post_id', post_id, 'sort_order', sort_order, 'title', title, 'version', version
+  ) ORDER BY sort_order) INTO result
+  FROM posts
+  WHERE program_nr = p_program_nr AND deleted_at IS NULL;
+
+  RETURN jsonb_build_object('batch_id', batch, 'order', COALESCE(result, '[]'::jsonb));
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TIMING (beräknade klocktider)
+-- ============================================================================
+
+-- recording_time hålls ifylld med klocktiden från post_clock_times. Bara
+-- rader vars klocktid ändras skrivs, och eftersom värdet är härlett ger
+-- skrivningen ingen ny version, audit-rad eller webhook (app.recording_times).
+CREATE OR REPLACE FUNCTION refresh_recording_times(p_program_nr INT)
+RETURNS INT AS $$
+DECLARE
+  changed INT;
+BEGIN
+  PERFORM set_config('app.recording_times', 'on', true);
+
+  UPDATE posts p
+  SET recording_time = t.clock_time
+  FROM post_clock_times t
+  WHERE t.post_id = p.post_id
+    AND t.program_nr = p_program_nr
+    AND p.recording_time IS DISTINCT FROM t.clock_time;
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  PERFORM set_config('app.recording_times', '', true);
+  RETURN changed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Den skrivna radens egen klocktid sätts före skrivningen, så att raden
+-- som returneras till klienten redan stämmer.
+CREATE OR REPLACE FUNCTION set_post_recording_time()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL THEN
+    SELECT (pg.start_time + make_interval(secs => COALESCE((
+      SELECT SUM(COALESCE(q.duration_sec, 0))
+      FROM posts q
+      WHERE q.program_nr = NEW.program_nr
+        AND q.deleted_at IS NULL
+        AND q.id <> NEW.id
+        AND (q.sort_order, q.post_id) < (NEW.sort_order, NEW.post_id)
+    ), 0)))::TIME
+    INTO NEW.recording_time
+    FROM programs pg
+    WHERE pg.program_nr = NEW.program_nr;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Övriga poster i programmet räknas om efter skrivningen. Omräkningen
+-- skriver bara recording_time och triggar därför inte sig själv. En
+-- omsortering räknar om en gång när alla rader flyttats.
+CREATE OR REPLACE FUNCTION posts_timing_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.reorder', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_recording_times(OLD.program_nr);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.program_nr IS DISTINCT FROM OLD.program_nr) THEN
+    PERFORM refresh_recording_times(NEW.program_nr);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION programs_timing_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_recording_times(NEW.program_nr);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER posts_recording_time
+  BEFORE INSERT OR UPDATE OF duration_sec, sort_order, program_nr, deleted_at ON posts
+  FOR EACH ROW EXECUTE FUNCTION set_post_recording_time();
+
+CREATE TRIGGER posts_timing
+  AFTER INSERT OR UPDATE OF duration_sec, sort_order, program_nr, deleted_at OR DELETE ON posts
+  FOR EACH ROW EXECUTE FUNCTION posts_timing_changed();
+
+CREATE TRIGGER programs_timing
+  AFTER UPDATE OF start_time ON programs
+  FOR EACH ROW WHEN (NEW.start_time IS DISTINCT FROM OLD.start_time)
+  EXECUTE FUNCTION programs_timing_changed();
+
+-- ============================================================================
+-- TRASH (permanent rensning)
+-- ============================================================================
+
+-- Tar bort poster som legat i papperskorgen sedan före p_cutoff, i en
+-- transaktion. Kandidaterna låses, så en post som återställs eller får en
+-- tagning under tiden rensas inte. Poster med tagningar behålls om inte
+-- p_include_recorded är satt; då tas deras tc_log-rader bort först.
+-- Returnerar { purged: [post_id …], kept: [post_id …] }.
+CREATE OR REPLACE FUNCTION purge_trash(
+  p_cutoff TIMESTAMPTZ,
+  p_program_nr INT DEFAULT NULL,
+  p_include_recorded BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_candidates TEXT[];
+  v_kept TEXT[];
+  v_purged TEXT[];
+BEGIN
+  SELECT COALESCE(array_agg(post_id), '{}') INTO v_candidates
+  FROM (
+    SELECT post_id FROM posts
+    WHERE deleted_at IS NOT NULL
+      AND deleted_at < p_cutoff
+      AND (p_program_nr IS NULL OR program_nr = p_program_nr)
+    ORDER BY post_id
+    FOR UPDATE
+  ) locked;
+
+  IF p_include_recorded THEN
+    v_kept := '{}';
+    DELETE FROM tc_log WHERE post_id = ANY(v_candidates);
+  ELSE
+    SELECT COALESCE(array_agg(DISTINCT post_id), '{}') INTO v_kept
+    FROM tc_log WHERE post_id = ANY(v_candidates);
+  END IF;
+
+  WITH deleted AS (
+    DELETE FROM posts
+    WHERE post_id = ANY(v_candidates)
+      AND NOT post_id = ANY(v_kept)
+      AND deleted_at IS NOT NULL
+      AND deleted_at < p_cutoff
+    RETURNING post_id
+  )
+  SELECT COALESCE(array_agg(post_id ORDER BY post_id), '{}') INTO v_purged FROM deleted;
+
+  RETURN jsonb_build_object('purged', to_jsonb(v_purged), 'kept', to_jsonb(v_kept));
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TAKES
+-- ============================================================================
+
+-- Ny tagning med nästa take_nr för posten. Postens rad låses, så samtidiga
+-- TC-IN för samma post får var sitt nummer istället för unique-fel.
+-- Offline-push skickar hela tagningar, därav tc_out, längd och bedömning.
+CREATE OR REPLACE FUNCTION insert_take(p_take JSONB)
+RETURNS tc_log AS $$
+DECLARE
+  v_take tc_log%ROWTYPE := jsonb_populate_record(NULL::tc_log, p_take);
+BEGIN
+  PERFORM 1 FROM posts WHERE post_id = v_take.post_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post % not found', v_take.post_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO tc_log (
+    post_id, take_nr, operator, tc_in, tc_out, clip_nr, frame_rate,
+    duration_frames, duration_sec, notes, verdict, created_at
+  )
+  SELECT
+    v_take.post_id,
+    COALESCE(MAX(take_nr), 0) + 1,
+    v_take.operator, v_take.tc_in, v_take.tc_out, v_take.clip_nr, v_take.frame_rate,
+    v_take.duration_frames, v_take.duration_sec, v_take.notes, v_take.verdict,
+    COALESCE(v_take.created_at, NOW())
+  FROM tc_log
+  WHERE post_id = v_take.post_id
+  RETURNING * INTO v_take;
+
+  RETURN v_take;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Markera en tagning som vald och avmarkera övriga för posten, atomiskt.
+-- p_take_nr NULL avmarkerar alla.
+CREATE OR REPLACE FUNCTION select_take(p_post_id TEXT, p_take_nr INT)
+RETURNS SETOF tc_log AS $$
+BEGIN
+  IF p_take_nr IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM tc_log WHERE post_id = p_post_id AND take_nr = p_take_nr
+  ) THEN
+    RAISE EXCEPTION 'Take % not found for post %', p_take_nr, p_post_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE tc_log SET selected = false
+  WHERE post_id = p_post_id AND selected AND take_nr IS DISTINCT FROM p_take_nr;
+
+  UPDATE tc_log SET selected = true
+  WHERE post_id = p_post_id AND take_nr = p_take_nr AND NOT selected;
+
+  RETURN QUERY SELECT * FROM tc_log WHERE post_id = p_post_id ORDER BY take_nr;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- WEBHOOK QUEUE
+-- ============================================================================
+
+-- Varje audit-rad blir en händelse per aktiv mottagare. Ändringar från
+-- Sheets skickas inte tillbaka dit de kom ifrån.
+CREATE OR REPLACE FUNCTION enqueue_webhook_deliveries()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entity TEXT;
+  v_source TEXT;
+  v_data JSONB;
+  v_action TEXT;
+  v_entity_id TEXT;
+BEGIN
+  v_entity := CASE NEW.table_name
+    WHEN 'posts' THEN 'post'
+    WHEN 'people' THEN 'person'
+    WHEN 'programs' THEN 'program'
+  END;
+
+  -- DELETE-rader har ingen källa, den står i den borttagna raden
+  v_source := CASE WHEN NEW.action = 'DELETE'
+    THEN NEW.old_data->>'last_modified_by'
+    ELSE NEW.source::TEXT
+  END;
+
+  IF v_entity IS NULL OR v_source = 'sheets' THEN
+    RETURN NEW;
+  END IF;
+
+  v_data := COALESCE(NEW.new_data, NEW.old_data);
+  v_entity_id := COALESCE(NEW.post_id, v_data->>'person_id', v_data->>'program_nr');
+
+  v_action := CASE
+    WHEN NEW.action = 'INSERT' THEN 'create'
+    WHEN NEW.action = 'DELETE' THEN 'delete'
+    -- Mjukradering är en UPDATE i databasen men en borttagning för mottagaren
+    WHEN NEW.action = 'UPDATE' AND 'deleted_at' = ANY(NEW.changed_fields)
+      AND NEW.new_data->>'deleted_at' IS NOT NULL THEN 'delete'
+    ELSE lower(NEW.action)
+  END;
+
+  INSERT INTO webhook_deliveries (target_name, entity_type, entity_id, event)
+  SELECT
+    name,
+    v_entity,
+    v_entity_id,
+    jsonb_build_object(
+      'event_id', NEW.id,
+      'action', v_action,
+      'entity_type', v_entity,
+      'entity_id', v_entity_id,
+      'source', v_source,
+      'client', NEW.client_name,
+      'changed_fields', to_jsonb(NEW.changed_fields),
+      'data', v_data,
+      'occurred_at', NEW.created_at
+    )
+  FROM webhook_targets
+  WHERE active AND v_entity = ANY(entity_types);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_webhooks
+  AFTER INSERT ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION enqueue_webhook_deliveries();
+
+-- Hämta förfallna leveranser och skjut fram next_attempt_at som ett lån,
+-- så att cron och en parallell request inte skickar samma rad. Kraschar
+-- workern görs ett nytt försök när lånet gått ut. En händelse väntar tills
+-- äldre händelser för samma entitet och mottagare är levererade.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INT, p_lease_seconds INT)
+RETURNS TABLE (id BIGINT, target_name TEXT, event JSONB, attempts INT, url TEXT, secret TEXT) AS $$
+  UPDATE webhook_deliveries d
+  SET next_attempt_at = NOW() + make_interval(secs => p_lease_seconds)
+  FROM webhook_targets t
+  WHERE t.name = d.target_name
+    AND d.id IN (
+      SELECT w.id
+      FROM webhook_deliveries w
+      JOIN webhook_targets wt ON wt.name = w.target_name AND wt.active
+      WHERE w.status = 'pending'
+        AND w.next_attempt_at <= NOW()
+        AND NOT EXISTS (
+          SELECT 1 FROM webhook_deliveries e
+          WHERE e.target_name = w.target_name
+            AND e.entity_type = w.entity_type
+            AND e.entity_id IS NOT DISTINCT FROM w.entity_id
+            AND e.status = 'pending'
+            AND e.id < w.id
+        )
+      ORDER BY w.id
+      LIMIT p_limit
+      FOR UPDATE OF w SKIP LOCKED
+    )
+  RETURNING d.id, d.target_name, d.event, d.attempts, t.url, t.secret;
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- PRODUCTION EVENTS
+-- ============================================================================
+
+-- Statusändringar och omsorteringar, från audit_log så att alla vägar in
+-- (Worker, Studio direkt mot Supabase, SQL) ger händelser.
+CREATE OR REPLACE FUNCTION record_post_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_program INT;
+  v_from TEXT;
+  v_to TEXT;
+  v_current JSONB;
+BEGIN
+  IF NEW.table_name <> 'posts' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.action = 'REORDER' THEN
+    v_program := (NEW.new_data->>'program_nr')::INT;
+    INSERT INTO production_events (type, program_nr, data)
+    VALUES ('reorder', v_program, jsonb_build_object(
+      'program_nr', v_program,
+      'order', NEW.new_data->'order',
+      'source', NEW.source,
+      'client', NEW.client_name
+    ));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.action <> 'UPDATE' OR NOT ('status' = ANY(NEW.changed_fields)) THEN
+    RETURN NEW;
+  END IF;
+
+  v_program := (NEW.new_data->>'program_nr')::INT;
+  v_from := NEW.old_data->>'status';
+  v_to := NEW.new_data->>'status';
+
+  INSERT INTO production_events (type, program_nr, data)
+  VALUES ('post_status', v_program, jsonb_build_object(
+    'post_id', NEW.post_id,
+    'program_nr', v_program,
+    'title', NEW.new_data->>'title',
+    'from', v_from,
+    'to', v_to,
+    'source', NEW.source,
+    'client', NEW.client_name
+  ));
+
+  -- Aktuell post är den som spelas in, samma urval som get_current
+  IF v_to = 'recording' OR v_from = 'recording' THEN
+    SELECT jsonb_build_object(
+      'post_id', post_id, 'program_nr', program_nr, 'sort_order', sort_order,
+      'type_key', type_key, 'title', title, 'duration_sec', duration_sec,
+      'recording_day', recording_day, 'status', status
+    ) INTO v_current
+    FROM posts
+    WHERE status = 'recording' AND deleted_at IS NULL
+    ORDER BY program_nr, sort_order
+    LIMIT 1;
+
+    INSERT INTO production_events (type, program_nr, data)
+    VALUES (
+      'current_post',
+      COALESCE((v_current->>'program_nr')::INT, v_program),
+      jsonb_build_object('post', v_current)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_events
+  AFTER INSERT ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION record_post_events();
+
+-- TC-IN startar en tagning, TC-OUT stänger den. Körs som ägaren, så att
+-- operatörer som loggar tagningar direkt inte behöver skriva i production_events.
+CREATE OR REPLACE FUNCTION record_tc_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_program INT;
+BEGIN
+  SELECT program_nr INTO v_program FROM posts WHERE post_id = NEW.post_id;
+
+  IF TG_OP = 'INSERT' AND NEW.tc_in IS NOT NULL THEN
+    INSERT INTO production_events (type, program_nr, data)
+    VALUES ('tc_in', v_program, jsonb_build_object(
+      'post_id', NEW.post_id,
+      'program_nr', v_program,
+      'take_nr', NEW.take_nr,
+      'tc_in', NEW.tc_in,
+      'clip_nr', NEW.clip_nr,
+      'frame_rate', NEW.frame_rate,
+      'operator', NEW.operator
+    ));
+  ELSIF TG_OP = 'UPDATE' AND NEW.tc_out IS NOT NULL AND NEW.tc_out IS DISTINCT FROM OLD.tc_out THEN
+    INSERT INTO production_events (type, program_nr, data)
+    VALUES ('tc_out', v_program, jsonb_build_object(
+      'post_id', NEW.post_id,
+      'program_nr', v_program,
+      'take_nr', NEW.take_nr,
+      'tc_in', NEW.tc_in,
+      'tc_out', NEW.tc_out,
+      'duration_frames', NEW.duration_frames,
+      'duration_sec', NEW.duration_sec,
+      'clip_nr', NEW.clip_nr
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tc_log_events
+  AFTER INSERT OR UPDATE ON tc_log
+  FOR EACH ROW EXECUTE FUNCTION record_tc_events();
+
+-- ============================================================================
+-- SYNC STATUS
+-- ============================================================================
+
+-- Aktuell version för en entitet, NULL om den inte finns
+CREATE OR REPLACE FUNCTION entity_version(p_entity_type TEXT, p_entity_id TEXT)
+RETURNS INT AS $$
+  SELECT CASE p_entity_type
+    WHEN 'post' THEN (SELECT version FROM posts WHERE post_id = p_entity_id)
+    WHEN 'person' THEN (SELECT version FROM people WHERE person_id = p_entity_id)
+    WHEN 'program' THEN (SELECT version FROM programs WHERE program_nr::TEXT = p_entity_id)
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Bokför en skrivning. db_version läses från entiteten. Från Sheets (eller
+-- levererad till Sheets) har Sheets också den versionen, vilket löser en
+-- eventuell konflikt; p_sheets_version anger vilken version som levererats.
+CREATE OR REPLACE FUNCTION record_sync_status(
+  p_entity_type TEXT,
+  p_entity_id TEXT,
+  p_source TEXT,
+  p_sheets_version INT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_version INT := COALESCE(entity_version(p_entity_type, p_entity_id), 0);
+  v_sheets BOOLEAN := p_source = 'sheets';
+BEGIN
+  INSERT INTO sync_status (entity_type, entity_id, db_version, last_db_sync, sheets_version, last_sheets_sync)
+  VALUES (
+    p_entity_type,
+    p_entity_id,
+    v_version,
+    NOW(),
+    CASE WHEN v_sheets THEN COALESCE(p_sheets_version, v_version) ELSE 0 END,
+    CASE WHEN v_sheets THEN NOW() END
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    db_version = EXCLUDED.db_version,
+    last_db_sync = EXCLUDED.last_db_sync,
+    sheets_version = CASE WHEN v_sheets
+      THEN GREATEST(sync_status.sheets_version, EXCLUDED.sheets_version)
+      ELSE sync_status.sheets_version END,
+    last_sheets_sync = COALESCE(EXCLUDED.last_sheets_sync, sync_status.last_sheets_sync),
+    conflict = CASE WHEN v_sheets THEN false ELSE sync_status.conflict END,
+    conflict_data = CASE WHEN v_sheets THEN NULL ELSE sync_status.conflict_data END,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Sheets rapporterar vilka rader det har och när de senast ändrades:
+-- p_rows = [{ "id": "P1:5", "modified_at": "2026-03-14T10:12:03Z" }, …]
+CREATE OR REPLACE FUNCTION report_sheets_state(p_entity_type TEXT, p_rows JSONB)
+RETURNS INT AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  INSERT INTO sync_status (entity_type, entity_id, sheets_modified_at, sheets_reported_at)
+  SELECT p_entity_type, r->>'id', NULLIF(r->>'modified_at', '')::TIMESTAMPTZ, NOW()
+  FROM jsonb_array_elements(p_rows) r
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    sheets_modified_at = EXCLUDED.sheets_modified_at,
+    sheets_reported_at = EXCLUDED.sheets_reported_at,
+    updated_at = NOW();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Stäm av sync_status mot tabellerna, körs av workerns cron:
+-- 1. Entiteter som saknas i ledgern läggs till
+-- 2. db_version hämtas från tabellerna (fångar skrivningar förbi Worker)
+-- 3. Konflikter flaggas med conflict_data, lösta konflikter avflaggas
+-- 4. Rader för entiteter som inte längre finns någonstans tas bort
+CREATE OR REPLACE FUNCTION reconcile_sync_status()
+RETURNS JSONB AS $$
+DECLARE
+  v_flagged INT;
+  v_cleared INT;
+  v_removed INT;
+BEGIN
+  CREATE TEMP TABLE entity_versions ON COMMIT DROP AS
+    SELECT 'post'::TEXT AS entity_type, post_id AS entity_id, version, updated_at FROM posts
+    UNION ALL
+    SELECT 'person', person_id, version, updated_at FROM people
+    UNION ALL
+    SELECT 'program', program_nr::TEXT, version, updated_at FROM programs;
+
+  INSERT INTO sync_status (entity_type, entity_id, db_version, last_db_sync)
+  SELECT entity_type, entity_id, version, updated_at FROM entity_versions
+  ON CONFLICT (entity_type, entity_id) DO NOTHING;
+
+  UPDATE sync_status s
+  SET db_version = e.version,
+      last_db_sync = GREATEST(s.last_db_sync, e.updated_at),
+      updated_at = NOW()
+  FROM entity_versions e
+  WHERE s.entity_type = e.entity_type
+    AND s.entity_id = e.entity_id
+    AND s.db_version IS DISTINCT FROM e.version;
+
+  -- Sheets-rader som inte finns i databasen och inte rapporterats på ett dygn
+  DELETE FROM sync_status s
+  WHERE NOT EXISTS (
+      SELECT 1 FROM entity_versions e
+      WHERE e.entity_type = s.entity_type AND e.entity_id = s.entity_id
+    )
+    AND (s.sheets_reported_at IS NULL OR s.sheets_reported_at < NOW() - INTERVAL '1 day');
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  CREATE TEMP TABLE sync_conflicts ON COMMIT DROP AS
+    SELECT s.entity_type, s.entity_id,
+      CASE
+        WHEN e.entity_id IS NULL THEN 'missing_in_db'
+        WHEN s.sheets_version > s.db_version THEN 'sheets_ahead'
+        -- Båda sidor ändrade sedan senaste gemensamma version
+        WHEN s.sheets_version < s.db_version
+          AND s.sheets_modified_at > s.last_sheets_sync + INTERVAL '5 seconds'
+          THEN 'both_changed'
+      END AS reason
+    FROM sync_status s
+    LEFT JOIN entity_versions e ON e.entity_type = s.entity_type AND e.entity_id = s.entity_id;
+
+  UPDATE sync_status s
+  SET conflict = true,
+      conflict_data = jsonb_build_object(
+        'reason', c.reason,
+        'db_version', s.db_version,
+        'sheets_version', s.sheets_version,
+        'last_db_sync', s.last_db_sync,
+        'last_sheets_sync', s.last_sheets_sync,
+        'sheets_modified_at', s.sheets_modified_at,
+        'detected_at', NOW()
+      ),
+      updated_at = NOW()
+  FROM sync_conflicts c
+  WHERE c.entity_type = s.entity_type AND c.entity_id = s.entity_id
+    AND c.reason IS NOT NULL
+    AND (NOT s.conflict OR s.conflict_data->>'reason' IS DISTINCT FROM c.reason);
+  GET DIAGNOSTICS v_flagged = ROW_COUNT;
+
+  UPDATE sync_status s
+  SET conflict = false, conflict_data = NULL, updated_at = NOW()
+  FROM sync_conflicts c
+  WHERE c.entity_type = s.entity_type AND c.entity_id = s.entity_id
+    AND c.reason IS NULL
+    AND s.conflict;
+  GET DIAGNOSTICS v_cleared = ROW_COUNT;
+
+  RETURN jsonb_build_object('flagged', v_flagged, 'cleared', v_cleared, 'removed', v_removed);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- CLIP COUNTER
+-- ============================================================================
+
+-- Nästa klippnummer: ett efter det högsta av räknaren och loggade klipp.
+-- Läser bara, räknaren ändras inte.
+CREATE OR REPLACE FUNCTION next_clip_number()
+RETURNS INT AS $$
+  SELECT GREATEST(
+    (SELECT value FROM counters WHERE name = 'clip_counter'),
+    (SELECT MAX(clip_nr) FROM tc_log),
+    0
+  ) + 1;
+$$ LANGUAGE sql STABLE;
+
+-- Räkna upp och spara klippnumret. Radlåset gör att två samtidiga
+-- knapptryck får olika nummer.
+CREATE OR REPLACE FUNCTION increment_clip_counter()
+RETURNS INT AS $$
+DECLARE
+  v_next INT;
+BEGIN
+  INSERT INTO counters (name, value) VALUES ('clip_counter', 0)
+  ON CONFLICT (name) DO NOTHING;
+
+  PERFORM 1 FROM counters WHERE name = 'clip_counter' FOR UPDATE;
+  v_next := next_clip_number();
+
+  UPDATE counters SET value = v_next, updated_at = NOW()
+  WHERE name = 'clip_counter';
+
+  RETURN v_next;
+END;
+$$ LANGUAGE plpgsql;
+
 -- ============================================================================
 -- ROW LEVEL SECURITY (RLS)
 -- ============================================================================
@@ -309,28 +1740,97 @@ CREATE TRIGGER people_updated_at
 ALTER TABLE posts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE people ENABLE ROW LEVEL SECURITY;
 ALTER TABLE programs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recording_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE tc_log ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_clients ENABLE ROW LEVEL SECURITY;  -- Inga policies: bara service key
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_targets ENABLE ROW LEVEL SECURITY;  -- Hemligheter: bara service key
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE production_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
 
--- Policies (anon kan läsa allt, authenticated kan skriva)
+-- Policies (anon kan läsa allt, inloggade skriver enligt sin roll i
+-- user_roles). Workern använder service key och kontrollerar själv.
 CREATE POLICY "Public read access" ON posts FOR SELECT USING (true);
-CREATE POLICY "Authenticated write access" ON posts FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Producer write access" ON posts FOR ALL USING (request_role() = 'producer');
+-- Vilka kolumner och statusar begränsas av enforce_post_role()
+CREATE POLICY "Floor manager update access" ON posts FOR UPDATE USING (request_role() = 'floor_manager');
 
 CREATE POLICY "Public read access" ON people FOR SELECT USING (true);
-CREATE POLICY "Authenticated write access" ON people FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Producer write access" ON people FOR ALL USING (request_role() = 'producer');
 
 CREATE POLICY "Public read access" ON programs FOR SELECT USING (true);
-CREATE POLICY "Authenticated write access" ON programs FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Producer write access" ON programs FOR ALL USING (request_role() = 'producer');
+
+CREATE POLICY "Public read access" ON recording_sessions FOR SELECT USING (true);
+CREATE POLICY "Producer write access" ON recording_sessions FOR ALL USING (request_role() = 'producer');
 
 CREATE POLICY "Public read access" ON tc_log FOR SELECT USING (true);
-CREATE POLICY "Authenticated write access" ON tc_log FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Crew write access" ON tc_log FOR ALL
+  USING (request_role() IN ('producer', 'floor_manager', 'operator'));
+
+-- Studio läser sin egen roll; roller tilldelas med set_user_role()
+CREATE POLICY "Own role read access" ON user_roles FOR SELECT USING (user_id = auth.uid());
 
 CREATE POLICY "Public read access" ON audit_log FOR SELECT USING (true);
 
+CREATE POLICY "Public read access" ON counters FOR SELECT USING (true);
+
+CREATE POLICY "Public read access" ON production_events FOR SELECT USING (true);
+
+-- RPC:er som kringgår tillståndsmaskinen, delar ut roller, skriver om
+-- körordning, tagningar, räknare, synkstatus eller webhook-kön är bara för
+-- workern (service key), inte för inloggade klienter
+REVOKE EXECUTE ON FUNCTION override_post_status(TEXT, post_status, TEXT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_posts_batch(JSONB, BOOLEAN, change_source, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_entities_batch(TEXT, JSONB, BOOLEAN, change_source) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_trash(TIMESTAMPTZ, INT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_user_role(TEXT, user_role) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_running_order(INT, TEXT[], TEXT[], JSONB, change_source) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION insert_take(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION select_take(TEXT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_clip_counter() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_sync_status(TEXT, TEXT, TEXT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION report_sheets_state(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_sync_status() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION override_post_status(TEXT, post_status, TEXT, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION sync_posts_batch(JSONB, BOOLEAN, change_source, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sync_entities_batch(TEXT, JSONB, BOOLEAN, change_source) TO service_role;
+GRANT EXECUTE ON FUNCTION purge_trash(TIMESTAMPTZ, INT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION set_user_role(TEXT, user_role) TO service_role;
+GRANT EXECUTE ON FUNCTION apply_running_order(INT, TEXT[], TEXT[], JSONB, change_source) TO service_role;
+GRANT EXECUTE ON FUNCTION insert_take(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION select_take(TEXT, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION increment_clip_counter() TO service_role;
+GRANT EXECUTE ON FUNCTION record_sync_status(TEXT, TEXT, TEXT, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION report_sheets_state(TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION reconcile_sync_status() TO service_role;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(INT, INT) TO service_role;
+
 -- ============================================================================
 -- VIEWS (för enkel access)
 -- ============================================================================
 
+-- Beräknad klocktid per aktiv post: programmets start_time plus summan av
+-- föregående posters duration_sec i körordning. Samma beräkning som
+-- computeTiming() i worker/src/timing.ts. posts_active visar den som
+-- clock_time och refresh_recording_times() skriver den till recording_time.
+CREATE VIEW post_clock_times AS
+SELECT
+  p.post_id,
+  p.program_nr,
+  (pg.start_time + make_interval(secs => COALESCE(SUM(COALESCE(p.duration_sec, 0)) OVER (
+    PARTITION BY p.program_nr
+    ORDER BY p.sort_order, p.post_id
+    ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+  ), 0)))::TIME AS clock_time
+FROM posts p
+JOIN programs pg ON pg.program_nr = p.program_nr
+WHERE p.deleted_at IS NULL;
+
 -- Aktiva poster (ej raderade) med all info
 CREATE VIEW posts_active AS
 SELECT
@@ -338,15 +1838,19 @@ SELECT
   pt.display_name as type_display,
   pt.icon as type_icon,
   pt.bg_colour as type_bg_colour,
+  pt.category as type_category,
   pg.location as program_location,
-  pg.broadcast_date
+  pg.broadcast_date,
+  ct.clock_time
 FROM posts p
 LEFT JOIN post_types pt ON p.type_key = pt.type_key
 LEFT JOIN programs pg ON p.program_nr = pg.program_nr
+LEFT JOIN post_clock_times ct ON ct.post_id = p.post_id
 WHERE p.deleted_at IS NULL
 ORDER BY p.program_nr, p.sort_order;
 
--- Schema för dagens inspelning
+-- Inspelningsschema: passen i tidsordning, inom passet fasta tider först
+-- och sedan körordningen. Workern lägger ut tidsluckorna (GET /api/schedule).
 CREATE VIEW recording_schedule AS
 SELECT
   p.post_id,
@@ -356,17 +1860,19 @@ SELECT
   p.duration_sec,
   p.status,
   p.recording_day,
+  p.recording_slot,
+  p.people_ids,
   pt.display_name as type_name,
   pt.icon
 FROM posts p
 LEFT JOIN post_types pt ON p.type_key = pt.type_key
+LEFT JOIN recording_sessions s ON p.recording_day = s.session_key
 WHERE p.deleted_at IS NULL
 ORDER BY
-  CASE p.recording_day
-    WHEN 'dag1' THEN 1
-    WHEN 'dag2' THEN 2
-    WHEN 'dag3' THEN 3
-  END,
+  s.session_date NULLS LAST,
+  s.start_time,
+  p.recording_day,
+  p.recording_slot NULLS LAST,
   p.program_nr,
   p.sort_order;
 
@@ -386,6 +1892,33 @@ WHERE deleted_at IS NULL
 GROUP BY program_nr
 ORDER BY program_nr;
 
+-- Synkhälsa per entitet: conflict, stale (Sheets ligger efter eller före
+-- databasen längre än fem minuter) eller healthy
+CREATE VIEW sync_health AS
+SELECT
+  s.entity_type,
+  s.entity_id,
+  CASE s.entity_type
+    WHEN 'post' THEN p.program_nr
+    WHEN 'program' THEN s.entity_id::INT
+  END AS program_nr,
+  s.db_version,
+  s.sheets_version,
+  s.last_db_sync,
+  s.last_sheets_sync,
+  s.sheets_modified_at,
+  s.conflict_data,
+  CASE
+    WHEN s.conflict THEN 'conflict'
+    WHEN s.sheets_version < s.db_version
+      AND COALESCE(s.last_db_sync, '-infinity') < NOW() - INTERVAL '5 minutes' THEN 'stale'
+    WHEN s.sheets_modified_at > COALESCE(s.last_sheets_sync, '-infinity') + INTERVAL '5 seconds'
+      AND s.sheets_modified_at < NOW() - INTERVAL '5 minutes' THEN 'stale'
+    ELSE 'healthy'
+  END AS state
+FROM sync_status s
+LEFT JOIN posts p ON s.entity_type = 'post' AND p.post_id = s.entity_id;
+
 -- ============================================================================
 -- REALTIME SUBSCRIPTIONS
 -- ============================================================================
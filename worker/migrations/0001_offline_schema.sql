@@ -0,0 +1,206 @@
+-- ============================================================================
+-- Offline-lagring (D1 / SQLite) för STORAGE = "sqlite"
+-- ============================================================================
+-- Samma kolumner som supabase/schema.sql för de tabeller en inspelning
+-- behöver. Arrayer lagras som JSON-text, booleans som 0/1 och tider som
+-- ISO-text. Fylls från Supabase med POST /sync/pull-from-supabase.
+--
+-- Körs med: wrangler d1 migrations apply DB --local --env offline
+
+-- ============================================================================
+-- PROGRAMS
+-- ============================================================================
+
+CREATE TABLE programs (
+  id TEXT PRIMARY KEY,
+  program_nr INTEGER NOT NULL UNIQUE CHECK (program_nr BETWEEN 1 AND 4),
+  location TEXT,
+  start_date TEXT,
+  broadcast_date TEXT,
+  church_year TEXT,
+  prod_nr TEXT,
+  target_duration_sec INTEGER DEFAULT 2610,
+  start_time TEXT DEFAULT '09:00:00',
+  frame_rate TEXT DEFAULT '25',
+  notes TEXT,
+  created_at TEXT,
+  updated_at TEXT,
+  version INTEGER DEFAULT 1,
+  last_modified_by TEXT DEFAULT 'system',
+  last_modified_client TEXT
+);
+
+-- ============================================================================
+-- POST TYPES
+-- ============================================================================
+
+CREATE TABLE post_types (
+  id TEXT PRIMARY KEY,
+  type_key TEXT UNIQUE NOT NULL,
+  display_name TEXT NOT NULL,
+  default_duration_sec INTEGER DEFAULT 60,
+  icon TEXT,
+  requires_people INTEGER DEFAULT 0,
+  requires_text_author INTEGER DEFAULT 0,
+  requires_composer INTEGER DEFAULT 0,
+  category TEXT,
+  bg_colour TEXT,
+  row_height INTEGER DEFAULT 35,
+  description TEXT
+);
+
+-- ============================================================================
+-- POSTS
+-- ============================================================================
+
+CREATE TABLE posts (
+  id TEXT PRIMARY KEY,
+  post_id TEXT UNIQUE NOT NULL,
+  program_nr INTEGER NOT NULL,
+  type_key TEXT,
+  sort_order INTEGER NOT NULL,
+  title TEXT,
+  duration_sec INTEGER DEFAULT 60,
+  location TEXT,
+  people_ids TEXT,  -- JSON-array
+  text_author TEXT,
+  composer TEXT,
+  arranger TEXT,
+  recording_day TEXT DEFAULT 'dag1',
+  recording_time TEXT,
+  status TEXT DEFAULT 'planerad' CHECK (status IN ('planerad', 'recording', 'inspelad', 'godkand')),
+  info_pos TEXT,
+  graphics TEXT,
+  notes TEXT,
+  open_text INTEGER DEFAULT 0,
+  created_at TEXT,
+  updated_at TEXT,
+  version INTEGER DEFAULT 1,
+  last_modified_by TEXT DEFAULT 'system',
+  last_modified_client TEXT,
+  deleted_at TEXT,
+  deleted_by TEXT,
+
+  -- Versionen i Supabase vid senaste pull/push (NULL = skapad offline).
+  -- version > synced_version betyder att posten har ändringar att skicka.
+  synced_version INTEGER
+);
+
+CREATE INDEX idx_posts_program ON posts(program_nr);
+CREATE INDEX idx_posts_status ON posts(status);
+
+-- ============================================================================
+-- TIMECODE LOG
+-- ============================================================================
+
+CREATE TABLE tc_log (
+  id TEXT PRIMARY KEY,
+  post_id TEXT NOT NULL REFERENCES posts(post_id),
+  operator TEXT,
+  tc_in TEXT,
+  tc_out TEXT,
+  clip_nr INTEGER,
+  frame_rate TEXT,
+  duration_frames INTEGER,
+  duration_sec INTEGER,
+  notes TEXT,
+  take_nr INTEGER NOT NULL DEFAULT 1,
+  verdict TEXT CHECK (verdict IN ('good', 'ng', 'keep')),
+  selected INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT,
+
+  -- 0 = ändrad offline och inte skickad till Supabase
+  synced INTEGER NOT NULL DEFAULT 0,
+
+  UNIQUE(post_id, take_nr)
+);
+
+CREATE INDEX idx_tc_log_post ON tc_log(post_id);
+CREATE UNIQUE INDEX idx_tc_log_selected ON tc_log(post_id) WHERE selected = 1;
+
+-- ============================================================================
+-- COUNTERS, SYNC STATUS, API CLIENTS
+-- ============================================================================
+
+CREATE TABLE counters (
+  name TEXT PRIMARY KEY,
+  value INTEGER NOT NULL DEFAULT 0,
+  updated_at TEXT
+);
+
+INSERT INTO counters (name, value) VALUES ('clip_counter', 0);
+
+CREATE TABLE sync_status (
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  sheets_version INTEGER DEFAULT 0,
+  db_version INTEGER DEFAULT 0,
+  last_sheets_sync TEXT,
+  last_db_sync TEXT,
+  updated_at TEXT,
+
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE TABLE api_clients (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  key_hash TEXT NOT NULL UNIQUE,
+  key_prefix TEXT NOT NULL,
+  scopes TEXT NOT NULL DEFAULT '["read"]',  -- JSON-array
+  created_at TEXT,
+  revoked_at TEXT
+);
+
+-- Senaste pull/push mot Supabase
+CREATE TABLE offline_sync (
+  name TEXT PRIMARY KEY,  -- 'pull', 'push'
+  completed_at TEXT NOT NULL,
+  report TEXT  -- JSON
+);
+
+-- ============================================================================
+-- VIEWS (samma som i Supabase)
+-- ============================================================================
+
+CREATE VIEW posts_active AS
+SELECT
+  p.*,
+  pt.display_name AS type_display,
+  pt.icon AS type_icon,
+  pt.bg_colour AS type_bg_colour,
+  pg.location AS program_location,
+  pg.broadcast_date
+FROM posts p
+LEFT JOIN post_types pt ON p.type_key = pt.type_key
+LEFT JOIN programs pg ON p.program_nr = pg.program_nr
+WHERE p.deleted_at IS NULL;
+
+CREATE VIEW recording_schedule AS
+SELECT
+  p.post_id,
+  p.program_nr,
+  p.sort_order,
+  p.title,
+  p.duration_sec,
+  p.status,
+  p.recording_day,
+  pt.display_name AS type_name,
+  pt.icon
+FROM posts p
+LEFT JOIN post_types pt ON p.type_key = pt.type_key
+WHERE p.deleted_at IS NULL;
+
+CREATE VIEW program_stats AS
+SELECT
+  program_nr,
+  COUNT(*) AS total_posts,
+  SUM(status = 'planerad') AS planned,
+  SUM(status = 'recording') AS recording,
+  SUM(status = 'inspelad') AS recorded,
+  SUM(status = 'godkand') AS approved,
+  SUM(duration_sec) AS total_duration_sec,
+  ROUND(100.0 * SUM(status IN ('inspelad', 'godkand')) / COUNT(*), 1) AS progress_percent
+FROM posts
+WHERE deleted_at IS NULL
+GROUP BY program_nr;
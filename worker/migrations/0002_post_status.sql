@@ -0,0 +1,19 @@
+-- ============================================================================
+-- Poststatus (tillståndsmaskin) offline
+-- ============================================================================
+-- Samma övergångar som post_status_allowed() i supabase/schema.sql och
+-- POST_STATUS_TRANSITIONS i src/status.ts. Överstyrning finns bara online.
+--
+-- Körs med: wrangler d1 migrations apply DB --local --env offline
+
+CREATE TRIGGER posts_status
+BEFORE UPDATE OF status ON posts
+WHEN NEW.status <> OLD.status AND NOT (
+  (OLD.status = 'planerad' AND NEW.status = 'recording')
+  OR (OLD.status = 'recording' AND NEW.status IN ('inspelad', 'planerad'))
+  OR (OLD.status = 'inspelad' AND NEW.status IN ('godkand', 'recording', 'planerad'))
+  OR (OLD.status = 'godkand' AND NEW.status = 'inspelad')
+)
+BEGIN
+  SELECT RAISE(ABORT, 'illegal post status transition');
+END;
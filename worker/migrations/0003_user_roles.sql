@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Användarroller offline
+-- ============================================================================
+-- Kopia av user_roles i supabase/schema.sql, så att inloggade användare
+-- behåller sin roll mot den lokala workern. Fylls av pull-from-supabase.
+--
+-- Körs med: wrangler d1 migrations apply DB --local --env offline
+
+CREATE TABLE user_roles (
+  user_id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'guest' CHECK (role IN ('producer', 'floor_manager', 'operator', 'guest')),
+  created_at TEXT,
+  updated_at TEXT
+);
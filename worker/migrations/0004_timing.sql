@@ -0,0 +1,80 @@
+-- ============================================================================
+-- Beräknade klocktider offline
+-- ============================================================================
+-- posts_active får type_category som i supabase/schema.sql, och
+-- recording_time hålls ifylld som refresh_recording_times() gör där:
+-- programmets start_time plus föregående posters duration_sec.
+--
+-- Versionen räknas inte upp: klocktiden är härledd, en pull ska inte se
+-- ut som lokala ändringar och Supabase räknar om den själv vid push.
+--
+-- Körs med: wrangler d1 migrations apply DB --local --env offline
+
+DROP VIEW posts_active;
+
+CREATE VIEW posts_active AS
+SELECT
+  p.*,
+  pt.display_name AS type_display,
+  pt.icon AS type_icon,
+  pt.bg_colour AS type_bg_colour,
+  pt.category AS type_category,
+  pg.location AS program_location,
+  pg.broadcast_date
+FROM posts p
+LEFT JOIN post_types pt ON p.type_key = pt.type_key
+LEFT JOIN programs pg ON p.program_nr = pg.program_nr
+WHERE p.deleted_at IS NULL;
+
+CREATE VIEW post_clock_times AS
+SELECT
+  p.post_id,
+  p.program_nr,
+  time(pg.start_time, '+' || COALESCE(SUM(COALESCE(p.duration_sec, 0)) OVER (
+    PARTITION BY p.program_nr
+    ORDER BY p.sort_order, p.post_id
+    ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+  ), 0) || ' seconds') AS clock_time
+FROM posts p
+JOIN programs pg ON pg.program_nr = p.program_nr
+WHERE p.deleted_at IS NULL;
+
+CREATE TRIGGER posts_timing_insert
+AFTER INSERT ON posts
+BEGIN
+  UPDATE posts SET recording_time = t.clock_time
+  FROM post_clock_times t
+  WHERE posts.post_id = t.post_id
+    AND t.program_nr = NEW.program_nr
+    AND posts.recording_time IS NOT t.clock_time;
+END;
+
+CREATE TRIGGER posts_timing_update
+AFTER UPDATE OF duration_sec, sort_order, program_nr, deleted_at ON posts
+BEGIN
+  UPDATE posts SET recording_time = t.clock_time
+  FROM post_clock_times t
+  WHERE posts.post_id = t.post_id
+    AND t.program_nr IN (OLD.program_nr, NEW.program_nr)
+    AND posts.recording_time IS NOT t.clock_time;
+END;
+
+CREATE TRIGGER posts_timing_delete
+AFTER DELETE ON posts
+BEGIN
+  UPDATE posts SET recording_time = t.clock_time
+  FROM post_clock_times t
+  WHERE posts.post_id = t.post_id
+    AND t.program_nr = OLD.program_nr
+    AND posts.recording_time IS NOT t.clock_time;
+END;
+
+CREATE TRIGGER programs_timing
+AFTER UPDATE OF start_time ON programs
+BEGIN
+  UPDATE posts SET recording_time = t.clock_time
+  FROM post_clock_times t
+  WHERE posts.post_id = t.post_id
+    AND t.program_nr = NEW.program_nr
+    AND posts.recording_time IS NOT t.clock_time;
+END;
@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Inspelningspass offline
+-- ============================================================================
+-- Kopia av recording_sessions i supabase/schema.sql. Fylls av
+-- pull-from-supabase; passen ändras bara online. posts.recording_day
+-- innehåller passets session_key.
+--
+-- Körs med: wrangler d1 migrations apply DB --local --env offline
+
+CREATE TABLE recording_sessions (
+  id TEXT PRIMARY KEY,
+  session_key TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  session_date TEXT,
+  start_time TEXT NOT NULL DEFAULT '09:00:00',
+  end_time TEXT,
+  location TEXT,
+  notes TEXT,
+  created_at TEXT,
+  updated_at TEXT
+);
+
+ALTER TABLE posts ADD COLUMN recording_slot TEXT;
+
+DROP VIEW recording_schedule;
+
+CREATE VIEW recording_schedule AS
+SELECT
+  p.post_id,
+  p.program_nr,
+  p.sort_order,
+  p.title,
+  p.duration_sec,
+  p.status,
+  p.recording_day,
+  p.recording_slot,
+  pt.display_name AS type_name,
+  pt.icon
+FROM posts p
+LEFT JOIN post_types pt ON p.type_key = pt.type_key
+WHERE p.deleted_at IS NULL;
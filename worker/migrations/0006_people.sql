@@ -0,0 +1,43 @@
+-- ============================================================================
+-- Medverkande offline
+-- ============================================================================
+-- Kopia av people i supabase/schema.sql, så att krockkontrollen
+-- (dubbelbokning och tillgänglighet) fungerar mot den lokala workern.
+-- Fylls av pull-from-supabase; personerna ändras bara online.
+-- recording_schedule får people_ids som i Supabase.
+--
+-- Körs med: wrangler d1 migrations apply DB --local --env offline
+
+CREATE TABLE people (
+  id TEXT PRIMARY KEY,
+  person_id TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  roles TEXT,         -- JSON-array
+  contact TEXT,
+  type TEXT DEFAULT 'medverkande',
+  availability TEXT,  -- JSON-array med tidsfönster
+  created_at TEXT,
+  updated_at TEXT,
+  version INTEGER DEFAULT 1,
+  last_modified_by TEXT DEFAULT 'system',
+  last_modified_client TEXT
+);
+
+DROP VIEW recording_schedule;
+
+CREATE VIEW recording_schedule AS
+SELECT
+  p.post_id,
+  p.program_nr,
+  p.sort_order,
+  p.title,
+  p.duration_sec,
+  p.status,
+  p.recording_day,
+  p.recording_slot,
+  p.people_ids,
+  pt.display_name AS type_name,
+  pt.icon
+FROM posts p
+LEFT JOIN post_types pt ON p.type_key = pt.type_key
+WHERE p.deleted_at IS NULL;
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Klocktider vid läsning
+-- ============================================================================
+-- Som i supabase/schema.sql får posts_active clock_time från
+-- post_clock_times, så att klocktiden kan läsas utan att gå via
+-- posts.recording_time. Triggarna från 0004 håller recording_time
+-- ifylld som förut.
+--
+-- Körs med: wrangler d1 migrations apply DB --local --env offline
+
+DROP VIEW posts_active;
+
+CREATE VIEW posts_active AS
+SELECT
+  p.*,
+  pt.display_name AS type_display,
+  pt.icon AS type_icon,
+  pt.bg_colour AS type_bg_colour,
+  pt.category AS type_category,
+  pg.location AS program_location,
+  pg.broadcast_date,
+  ct.clock_time
+FROM posts p
+LEFT JOIN post_types pt ON p.type_key = pt.type_key
+LEFT JOIN programs pg ON p.program_nr = pg.program_nr
+LEFT JOIN post_clock_times ct ON ct.post_id = p.post_id
+WHERE p.deleted_at IS NULL;
@@ -0,0 +1,225 @@
+/**
+ * Duration Analytics
+ *
+ * Actual recorded duration per post against its planned duration_sec,
+ * accuracy per post type across all programmes, and a forecast of how
+ * long the remaining posts will take once the observed overrun ratios are
+ * applied. The actual duration is that of the take the EDL export would
+ * use: the selected take, else the latest closed one.
+ */
+
+import { jsonResponse, validationErrorResponse } from './http';
+import { PostRow, Repository, TcLogRow } from './repository';
+import { CorsHeaders } from './types';
+import { FieldError, isSessionKey } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PostDuration {
+  post_id: string;
+  program_nr: number;
+  sort_order: number;
+  title: string | null;
+  type_key: string | null;
+  recording_day: string | null;
+  status: string | null;
+  planned_sec: number;
+  actual_sec: number | null;      // Null tills en tagning är stängd
+  take_nr: number | null;
+  difference_sec: number | null;  // Positivt = längre än planerat
+  ratio: number | null;           // actual / planned
+  forecast_sec: number | null;    // Bara för poster som återstår
+}
+
+interface DurationAccuracy {
+  type_key: string | null;
+  posts: number;                  // Poster med både plan och tagning
+  planned_sec: number;
+  actual_sec: number;
+  ratio: number | null;
+  mean_abs_error_percent: number | null;
+}
+
+interface DurationForecast {
+  planned_total_sec: number;
+  recorded_posts: number;
+  recorded_sec: number;           // Faktisk tid där den finns, annars planerad
+  remaining_posts: number;
+  remaining_planned_sec: number;
+  remaining_forecast_sec: number;
+  projected_total_sec: number;
+  projected_overrun_sec: number;  // Positivt = dagen/programmet drar över
+}
+
+// En posttyp behöver några inspelade poster innan dess egen kvot används;
+// dessförinnan används kvoten för alla typer.
+const MIN_TYPE_SAMPLES = 3;
+
+// Poster som fortfarande ska spelas in
+const REMAINING_STATUSES = ['planerad', 'recording'];
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/analytics/durations?program=1&day=dag1
+ *
+ * Both filters are optional and narrow the post list and the forecast;
+ * the accuracy per post type always covers every programme.
+ */
+export async function handleDurationAnalytics(
+  request: Request,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const programParam = url.searchParams.get('program');
+  const day = url.searchParams.get('day');
+  const programNr = programParam === null ? null : parseInt(programParam);
+  const errors: FieldError[] = [];
+
+  if (programNr !== null && !(programNr >= 1 && programNr <= 4)) {
+    errors.push({ field: 'program', message: 'must be an integer between 1 and 4' });
+  }
+  if (day !== null) {
+    const dayError = isSessionKey(day);
+    if (dayError) errors.push({ field: 'day', message: dayError });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const posts = await repo.listPosts();
+  const takes = posts.length > 0
+    ? await repo.listTakes(posts.map((post) => post.post_id), { closed_only: true })
+    : [];
+
+  const durations = posts.map((post) => postDuration(post, takes));
+  const types = accuracyByType(durations);
+  const overall = accuracy(null, durations);
+
+  const scoped = durations
+    .filter((post) => programNr === null || post.program_nr === programNr)
+    .filter((post) => day === null || post.recording_day === day);
+
+  const forecast = forecastDurations(scoped, types, overall);
+
+  return jsonResponse(
+    {
+      success: true,
+      program_nr: programNr,
+      recording_day: day,
+      forecast,
+      overall,
+      types,
+      posts: scoped,
+    },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+function postDuration(post: PostRow, takes: TcLogRow[]): PostDuration {
+  const postTakes = takes.filter((take) => take.post_id === post.post_id && take.duration_sec !== null);
+  const take = postTakes.find((candidate) => candidate.selected) ?? postTakes[postTakes.length - 1];
+  const planned = post.duration_sec ?? 0;
+  const actual = take ? Math.round(take.duration_sec!) : null;
+
+  return {
+    post_id: post.post_id,
+    program_nr: post.program_nr,
+    sort_order: post.sort_order,
+    title: post.title ?? null,
+    type_key: post.type_key ?? null,
+    recording_day: post.recording_day ?? null,
+    status: post.status ?? null,
+    planned_sec: planned,
+    actual_sec: actual,
+    take_nr: take?.take_nr ?? null,
+    difference_sec: actual === null ? null : actual - planned,
+    ratio: actual === null || planned === 0 ? null : round(actual / planned, 3),
+    forecast_sec: null,
+  };
+}
+
+function accuracy(typeKey: string | null, durations: PostDuration[]): DurationAccuracy {
+  const measured = durations.filter((post) => post.actual_sec !== null && post.planned_sec > 0);
+  const planned = sum(measured.map((post) => post.planned_sec));
+  const actual = sum(measured.map((post) => post.actual_sec!));
+  const errorPercent = sum(measured.map((post) => (100 * Math.abs(post.actual_sec! - post.planned_sec)) / post.planned_sec));
+
+  return {
+    type_key: typeKey,
+    posts: measured.length,
+    planned_sec: planned,
+    actual_sec: actual,
+    ratio: measured.length > 0 ? round(actual / planned, 3) : null,
+    mean_abs_error_percent: measured.length > 0 ? round(errorPercent / measured.length, 1) : null,
+  };
+}
+
+function accuracyByType(durations: PostDuration[]): DurationAccuracy[] {
+  const typeKeys = [...new Set(durations.map((post) => post.type_key))];
+
+  return typeKeys
+    .map((typeKey) => accuracy(typeKey, durations.filter((post) => post.type_key === typeKey)))
+    .filter((entry) => entry.posts > 0)
+    .sort((a, b) => b.posts - a.posts);
+}
+
+/**
+ * Remaining posts are forecast with their type's ratio, or the overall
+ * ratio while the type has too few recordings (planned length when
+ * nothing has been recorded yet). Sets forecast_sec on those posts.
+ */
+function forecastDurations(
+  posts: PostDuration[],
+  types: DurationAccuracy[],
+  overall: DurationAccuracy
+): DurationForecast {
+  const typeRatios = new Map(
+    types.filter((entry) => entry.posts >= MIN_TYPE_SAMPLES).map((entry) => [entry.type_key, entry.ratio!])
+  );
+  const fallbackRatio = overall.ratio ?? 1;
+
+  const remaining = posts.filter((post) => REMAINING_STATUSES.includes(post.status ?? ''));
+  const recorded = posts.filter((post) => !remaining.includes(post));
+
+  for (const post of remaining) {
+    post.forecast_sec = Math.round(post.planned_sec * (typeRatios.get(post.type_key) ?? fallbackRatio));
+  }
+
+  const plannedTotal = sum(posts.map((post) => post.planned_sec));
+  const recordedSec = sum(recorded.map((post) => post.actual_sec ?? post.planned_sec));
+  const remainingForecast = sum(remaining.map((post) => post.forecast_sec!));
+
+  return {
+    planned_total_sec: plannedTotal,
+    recorded_posts: recorded.length,
+    recorded_sec: recordedSec,
+    remaining_posts: remaining.length,
+    remaining_planned_sec: sum(remaining.map((post) => post.planned_sec)),
+    remaining_forecast_sec: remainingForecast,
+    projected_total_sec: recordedSec + remainingForecast,
+    projected_overrun_sec: recordedSec + remainingForecast - plannedTotal,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
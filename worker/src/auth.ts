@@ -0,0 +1,267 @@
+/**
+ * API Client Authentication
+ *
+ * Named API clients ("companion-regi", "ipad-floor") authenticate with a
+ * key whose SHA-256 hash is stored in api_clients. Each client has scopes
+ * (read, timecode, status, approve, edit, override) that decide which
+ * routes and Companion actions it may call. Writes are attributed to the
+ * client through the X-Api-Client header, which the database stores in
+ * last_modified_client and audit_log.client_name.
+ *
+ * People sign in with Supabase Auth instead and send their access token.
+ * Their role in user_roles maps to the same scopes (ROLE_SCOPES), and
+ * their writes are attributed through X-User-Email to audit_log.user_email.
+ */
+
+import { jsonResponse } from './http';
+import { Repository } from './repository';
+import { CompanionPayload, CorsHeaders } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const API_SCOPES = ['read', 'timecode', 'status', 'approve', 'edit', 'override'] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+export const USER_ROLES = ['producer', 'floor_manager', 'operator', 'guest'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface SignedInUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface ApiClient {
+  name: string;         // Klientens namn, eller e-post för en inloggad användare
+  scopes: ApiScope[];
+  user?: SignedInUser;  // Satt när requesten bär en Supabase Auth-token
+}
+
+/**
+ * Scopes per user role. The RLS policies and enforce_post_role() in
+ * supabase/schema.sql apply the same rules when Studio writes directly.
+ */
+export const ROLE_SCOPES: Record<UserRole, ApiScope[]> = {
+  producer: ['read', 'timecode', 'status', 'approve', 'edit', 'override'],
+  floor_manager: ['read', 'timecode', 'status'],
+  operator: ['read', 'timecode'],
+  guest: ['read'],
+};
+
+/**
+ * Scope needed per route and method. `null` means the handler checks the
+ * scope itself (per Companion action). Methods not listed need `edit`;
+ * routes not listed need no API key.
+ */
+const ROUTE_SCOPES: Record<string, Record<string, ApiScope | null>> = {
+  '/sync/from-studio': { POST: 'status' },
+  '/sync/from-companion': { POST: null },
+  '/api/posts': { GET: 'read' },
+  '/api/post': { GET: 'read', PUT: 'edit' },
+  '/api/post/status': { POST: 'status' },
+  '/api/post/history': { GET: 'read' },
+  '/api/post/revert': { POST: 'edit' },
+  '/api/takes': { GET: 'read', POST: 'timecode' },
+  '/api/running-order': { GET: 'read', POST: 'edit' },
+  '/api/rundown/timing': { GET: 'read' },
+  '/api/analytics/durations': { GET: 'read' },
+  '/api/trash': { GET: 'read' },
+  '/api/trash/restore': { POST: 'edit' },
+  '/api/trash/purge': { POST: 'edit' },
+  '/api/export/edl': { GET: 'read' },
+  '/api/schedule': { GET: 'read' },
+  '/api/schedule/conflicts': { GET: 'read' },
+  '/api/sessions': { GET: 'read', POST: 'edit' },
+  '/api/call-sheet': { GET: 'read' },
+  '/api/stats': { GET: 'read' },
+  '/api/sync/status': { GET: 'read' },
+  '/events': { GET: 'read' },
+};
+
+export const COMPANION_ACTION_SCOPES: Record<CompanionPayload['action'], ApiScope> = {
+  tc_in: 'timecode',
+  tc_out: 'timecode',
+  select_take: 'timecode',
+  take_verdict: 'timecode',
+  increment_clip: 'timecode',
+  mark_approved: 'approve',
+  get_current: 'read',
+  get_next: 'read',
+  next_clip: 'read',
+  batch_get: 'read',
+  batch_update: 'edit',
+};
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+/**
+ * Whether a route needs an API key, and which scope. Returns undefined
+ * for routes that are public or use another secret (Sheets webhook).
+ */
+export function requiredScope(path: string, method: string): ApiScope | null | undefined {
+  const route = ROUTE_SCOPES[path];
+  if (!route) return undefined;
+  return method in route ? route[method] : 'edit';
+}
+
+/**
+ * Look up the client for the request's API key. The key is read from
+ * `Authorization: Bearer`, `X-Api-Key` or, for Companion buttons carried
+ * over from the Apps Script API, `api_key` in the JSON body. The event
+ * stream also accepts `?api_key=`, since EventSource cannot send headers.
+ *
+ * A Supabase Auth access token in the same places signs in a person;
+ * without `jwtSecret` tokens are rejected.
+ */
+export async function authenticateClient(
+  request: Request,
+  repo: Repository,
+  jwtSecret?: string
+): Promise<ApiClient | null> {
+  const key = await extractApiKey(request);
+  if (!key) return null;
+
+  // JWT:er har tre punktseparerade delar, API-nycklar inga punkter
+  if (key.split('.').length === 3) {
+    return jwtSecret ? authenticateUser(key, jwtSecret, repo) : null;
+  }
+
+  return repo.findApiClient(await hashApiKey(key));
+}
+
+/**
+ * 403 response when the client lacks `scope`, else null.
+ */
+export function checkScope(
+  client: ApiClient,
+  scope: ApiScope,
+  corsHeaders: CorsHeaders
+): Response | null {
+  if (client.scopes.includes(scope)) return null;
+
+  const message = client.user
+    ? `Role "${client.user.role}" of ${client.user.email} lacks scope "${scope}"`
+    : `API client "${client.name}" lacks scope "${scope}"`;
+
+  return jsonResponse({ error: 'Forbidden', message }, corsHeaders, 403);
+}
+
+// ============================================================================
+// USER TOKENS
+// ============================================================================
+
+/**
+ * Person behind a verified access token. Users without a row in
+ * user_roles are guests.
+ */
+async function authenticateUser(token: string, jwtSecret: string, repo: Repository): Promise<ApiClient | null> {
+  const claims = await verifyUserToken(token, jwtSecret);
+  if (!claims) return null;
+
+  const role = (await repo.findUserRole(claims.sub)) ?? 'guest';
+
+  return {
+    name: claims.email,
+    scopes: ROLE_SCOPES[role],
+    user: { id: claims.sub, email: claims.email, role },
+  };
+}
+
+/**
+ * Verify a Supabase Auth access token: HS256 signed with the project's
+ * JWT secret, unexpired, for the `authenticated` audience and with an
+ * email. Returns null for anything else.
+ */
+export async function verifyUserToken(
+  token: string,
+  jwtSecret: string
+): Promise<{ sub: string; email: string } | null> {
+  const [header, payload, signature] = token.split('.');
+
+  try {
+    if (JSON.parse(base64UrlDecode(header)).alg !== 'HS256') return null;
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(jwtSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const signatureBytes = Uint8Array.from(base64UrlDecode(signature), (c) => c.charCodeAt(0));
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      signatureBytes,
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(
+      Uint8Array.from(base64UrlDecode(payload), (c) => c.charCodeAt(0))
+    ));
+
+    const expired = typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now();
+    if (expired || claims.aud !== 'authenticated') return null;
+    if (typeof claims.sub !== 'string' || typeof claims.email !== 'string' || !claims.email) return null;
+
+    return { sub: claims.sub, email: claims.email };
+  } catch {
+    // Trasig base64 eller JSON
+    return null;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Base64url to a binary string (one char per byte).
+ */
+function base64UrlDecode(text: string): string {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+}
+
+export function hashApiKey(key: string): Promise<string> {
+  return sha256Hex(key);
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function extractApiKey(request: Request): Promise<string | null> {
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const header = request.headers.get('X-Api-Key');
+  if (header) return header;
+
+  const url = new URL(request.url);
+  if (url.pathname === '/events') {
+    return url.searchParams.get('api_key');
+  }
+
+  // Läs en kopia så att handlern fortfarande kan läsa bodyn
+  if (request.method === 'POST') {
+    try {
+      const body = (await request.clone().json()) as Record<string, unknown>;
+      if (typeof body?.api_key === 'string' && body.api_key) return body.api_key;
+    } catch {
+      // Ogiltig JSON rapporteras av handlerns validering
+    }
+  }
+
+  return null;
+}
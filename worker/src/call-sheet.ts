@@ -0,0 +1,347 @@
+/**
+ * Call Sheets
+ *
+ * "When am I on?" per person: every post that lists them in people_ids,
+ * with programme, session, estimated clock time, location, duration and
+ * notes, and a call time a lead before their first post of each day.
+ * Clock times come from the session schedule (sessions.ts); posts not yet
+ * assigned to a session fall back to the programme's estimated clock
+ * time (posts_active.clock_time) and get no call time.
+ */
+
+import { htmlResponse, jsonResponse, validationErrorResponse } from './http';
+import { PostRow, Repository } from './repository';
+import { buildSessionPlan, ScheduleSlot } from './sessions';
+import { clockToSeconds, secondsToClock } from './timing';
+import { CorsHeaders, Env, Person, RecordingSession } from './types';
+import { DATE_PATTERN, FieldError, PERSON_ID_PATTERN } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const CALL_SHEET_FORMATS = ['json', 'html'] as const;
+type CallSheetFormat = (typeof CALL_SHEET_FORMATS)[number];
+
+interface CallSheetPost {
+  post_id: string;
+  program_nr: number;
+  title: string | null;
+  type_name: string | null;
+  session_key: string | null;
+  session_name: string | null;
+  start: string | null;     // Beräknad klocktid (HH:MM:SS)
+  end: string | null;
+  duration_sec: number;
+  location: string | null;  // Postens, annars passets eller programmets
+  notes: string | null;
+}
+
+interface CallSheetDay {
+  date: string | null;      // Null för pass utan datum
+  sessions: string[];
+  call_time: string;        // Första postens start minus lead
+  first_start: string;
+  last_end: string;
+  posts: CallSheetPost[];
+}
+
+interface CallSheet {
+  person_id: string;
+  name: string;
+  roles: string[];
+  contact: string | null;
+  type: string | null;
+  days: CallSheetDay[];
+  unscheduled: CallSheetPost[];  // Poster utan pass
+}
+
+interface ScheduledPost extends CallSheetPost {
+  date: string | null;
+  start_sec: number;        // Från passets datum 00:00 (kan passera midnatt)
+  end_sec: number;
+}
+
+const DEFAULT_LEAD_MINUTES = 30;
+const MAX_LEAD_MINUTES = 240;
+
+const SECONDS_PER_DAY = 24 * 3600;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/call-sheet — everyone who appears in a post
+ * GET /api/call-sheet?person=P001&date=2026-03-14&lead=45&format=html
+ *
+ * `date` keeps that day's posts only. `lead` is minutes before the first
+ * post (CALL_LEAD_MINUTES, else 30). `format=html` returns a printable
+ * page with one sheet per person.
+ */
+export async function handleCallSheet(
+  request: Request,
+  repo: Repository,
+  env: Env,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const personId = url.searchParams.get('person');
+  const date = url.searchParams.get('date');
+  const leadParam = url.searchParams.get('lead') ?? env.CALL_LEAD_MINUTES ?? String(DEFAULT_LEAD_MINUTES);
+  const lead = Number(leadParam);
+  const format = url.searchParams.get('format') ?? 'json';
+  const errors: FieldError[] = [];
+
+  if (personId !== null && !PERSON_ID_PATTERN.test(personId)) {
+    errors.push({ field: 'person', message: 'must match format P<id>' });
+  }
+  if (date !== null && !DATE_PATTERN.test(date)) {
+    errors.push({ field: 'date', message: 'must match format YYYY-MM-DD' });
+  }
+  if (!Number.isInteger(lead) || lead < 0 || lead > MAX_LEAD_MINUTES) {
+    errors.push({ field: 'lead', message: `must be an integer between 0 and ${MAX_LEAD_MINUTES} (minutes)` });
+  }
+  if (!CALL_SHEET_FORMATS.includes(format as CallSheetFormat)) {
+    errors.push({ field: 'format', message: `must be one of: ${CALL_SHEET_FORMATS.join(', ')}` });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const [people, posts, sessions] = await Promise.all([
+    repo.listPeople(personId !== null ? [personId] : undefined),
+    repo.listPosts(),
+    repo.listSessions(),
+  ]);
+
+  if (personId !== null && people.length === 0) {
+    return jsonResponse({ error: 'Person not found', person: personId }, corsHeaders, 404);
+  }
+
+  const plans = await Promise.all(
+    sessions.map(async (session) => buildSessionPlan(session, await repo.schedule(session.session_key)))
+  );
+  const slots = new Map(
+    plans.flatMap((plan, i) => plan.slots.map((slot) => [slot.post_id, { session: sessions[i], slot }] as const))
+  );
+
+  const sheets = people
+    .map((person) => buildCallSheet(person, posts, slots, date, lead * 60))
+    .filter((sheet) => personId !== null || sheet.days.length > 0 || sheet.unscheduled.length > 0);
+
+  if (format === 'html') {
+    return htmlResponse(renderHtml(sheets, date, lead), corsHeaders);
+  }
+
+  return jsonResponse({ success: true, date, lead_minutes: lead, people: sheets }, corsHeaders);
+}
+
+// ============================================================================
+// CALL SHEET
+// ============================================================================
+
+function buildCallSheet(
+  person: Person,
+  posts: PostRow[],
+  slots: Map<string, { session: RecordingSession; slot: ScheduleSlot }>,
+  date: string | null,
+  leadSec: number
+): CallSheet {
+  const scheduled: ScheduledPost[] = [];
+  const unscheduled: CallSheetPost[] = [];
+
+  for (const post of posts.filter((candidate) => candidate.people_ids?.includes(person.person_id))) {
+    const scheduledIn = slots.get(post.post_id);
+
+    if (!scheduledIn) {
+      // Utan pass finns ingen dag att filtrera på
+      if (date !== null) continue;
+      const clock = (post.clock_time as string | null | undefined) ?? null;
+      unscheduled.push(callSheetPost(post, null, clock === null ? null : clockToSeconds(clock)));
+      continue;
+    }
+
+    const { session, slot } = scheduledIn;
+    if (date !== null && session.session_date !== date) continue;
+
+    let start = clockToSeconds(slot.start);
+    // Ett kvällspass kan passera midnatt
+    if (start < clockToSeconds(session.start_time)) start += SECONDS_PER_DAY;
+
+    scheduled.push({
+      ...callSheetPost(post, session, start),
+      date: session.session_date,
+      start_sec: start,
+      end_sec: start + slot.duration_sec,
+    });
+  }
+
+  return {
+    person_id: person.person_id,
+    name: person.name,
+    roles: person.roles ?? [],
+    contact: person.contact ?? null,
+    type: person.type ?? null,
+    days: groupByDay(scheduled, leadSec),
+    unscheduled: unscheduled.sort((a, b) => a.program_nr - b.program_nr || (a.start ?? '').localeCompare(b.start ?? '')),
+  };
+}
+
+function callSheetPost(
+  post: PostRow,
+  session: RecordingSession | null,
+  start: number | null
+): CallSheetPost {
+  const duration = post.duration_sec ?? 0;
+
+  return {
+    post_id: post.post_id,
+    program_nr: post.program_nr,
+    title: post.title ?? null,
+    type_name: (post.type_display as string | null | undefined) ?? null,
+    session_key: session?.session_key ?? null,
+    session_name: session?.name ?? null,
+    start: start === null ? null : secondsToClock(start),
+    end: start === null ? null : secondsToClock(start + duration),
+    duration_sec: duration,
+    location: post.location ?? session?.location ?? (post.program_location as string | null | undefined) ?? null,
+    notes: (post.notes as string | null | undefined) ?? null,
+  };
+}
+
+/**
+ * One entry per date (or per session without a date), posts in clock
+ * order, called a lead before the first of them.
+ */
+function groupByDay(posts: ScheduledPost[], leadSec: number): CallSheetDay[] {
+  const days = new Map<string, ScheduledPost[]>();
+
+  for (const post of posts) {
+    const key = post.date ?? `session:${post.session_key}`;
+    days.set(key, [...(days.get(key) ?? []), post]);
+  }
+
+  return [...days.values()]
+    .map((dayPosts): CallSheetDay => {
+      dayPosts.sort((a, b) => a.start_sec - b.start_sec || a.program_nr - b.program_nr);
+      const first = Math.min(...dayPosts.map((post) => post.start_sec));
+      const last = Math.max(...dayPosts.map((post) => post.end_sec));
+
+      return {
+        date: dayPosts[0].date,
+        sessions: [...new Set(dayPosts.map((post) => post.session_key!))],
+        call_time: secondsToClock(first - leadSec),
+        first_start: secondsToClock(first),
+        last_end: secondsToClock(last),
+        posts: dayPosts.map(({ date: _date, start_sec: _start, end_sec: _end, ...post }) => post),
+      };
+    })
+    // Pass utan datum sist
+    .sort((a, b) => Number(a.date === null) - Number(b.date === null) || (a.date ?? '').localeCompare(b.date ?? ''));
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+/**
+ * Printable page, one call sheet per person and page.
+ */
+function renderHtml(sheets: CallSheet[], date: string | null, lead: number): string {
+  const title = `Inställelselista${date ? ` ${date}` : ''}`;
+  const body = sheets.length > 0
+    ? sheets.map((sheet) => renderSheet(sheet, lead)).join('\n')
+    : '<p class="empty">Inga medverkande med inplanerade poster.</p>';
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="sv">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${htmlEscape(title)}</title>`,
+    '<style>',
+    '  body { font-family: -apple-system, "Helvetica Neue", Arial, sans-serif; font-size: 11pt; margin: 2em; color: #000; }',
+    '  h1 { font-size: 18pt; margin: 0 0 0.2em; }',
+    '  h2 { font-size: 13pt; margin: 1.2em 0 0.4em; border-bottom: 1px solid #000; }',
+    '  .meta { color: #444; margin: 0 0 1em; }',
+    '  .call { font-size: 13pt; font-weight: bold; }',
+    '  table { width: 100%; border-collapse: collapse; }',
+    '  th, td { text-align: left; vertical-align: top; padding: 4px 6px; border-bottom: 1px solid #ccc; }',
+    '  th { font-size: 9pt; text-transform: uppercase; color: #444; }',
+    '  td.time { white-space: nowrap; font-variant-numeric: tabular-nums; }',
+    '  section { page-break-after: always; }',
+    '  section:last-child { page-break-after: auto; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function renderSheet(sheet: CallSheet, lead: number): string {
+  const meta = [sheet.roles.join(', '), sheet.contact].filter(Boolean).join(' · ');
+  const days = sheet.days.map((day) => [
+    `<h2>${htmlEscape(day.date ?? day.sessions.join(', '))}</h2>`,
+    `<p class="call">Inställelse ${shortClock(day.call_time)} <small>(${lead} min före första posten)</small></p>`,
+    `<p class="meta">Första post ${shortClock(day.first_start)}, sista klar ${shortClock(day.last_end)}</p>`,
+    renderTable(day.posts),
+  ].join('\n'));
+
+  if (sheet.unscheduled.length > 0) {
+    days.push(['<h2>Ej schemalagda</h2>', renderTable(sheet.unscheduled)].join('\n'));
+  }
+
+  return [
+    '<section>',
+    `<h1>${htmlEscape(sheet.name)}</h1>`,
+    meta ? `<p class="meta">${htmlEscape(meta)}</p>` : '',
+    days.length > 0 ? days.join('\n') : '<p class="empty">Inga poster.</p>',
+    '</section>',
+  ].filter((line) => line !== '').join('\n');
+}
+
+function renderTable(posts: CallSheetPost[]): string {
+  const rows = posts.map((post) => [
+    '<tr>',
+    `<td class="time">${post.start ? `${shortClock(post.start)}–${shortClock(post.end!)}` : '–'}</td>`,
+    `<td>P${post.program_nr}</td>`,
+    `<td>${htmlEscape(post.session_name ?? '')}</td>`,
+    `<td>${htmlEscape([post.title, post.type_name].filter(Boolean).join(' · '))}</td>`,
+    `<td class="time">${formatMinutes(post.duration_sec)}</td>`,
+    `<td>${htmlEscape(post.location ?? '')}</td>`,
+    `<td>${htmlEscape(post.notes ?? '')}</td>`,
+    '</tr>',
+  ].join(''));
+
+  return [
+    '<table>',
+    '<tr><th>Tid</th><th>Program</th><th>Pass</th><th>Post</th><th>Längd</th><th>Plats</th><th>Anteckningar</th></tr>',
+    ...rows,
+    '</table>',
+  ].join('\n');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** 'HH:MM:SS' to 'HH:MM'. */
+function shortClock(clock: string): string {
+  return clock.slice(0, 5);
+}
+
+function formatMinutes(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function htmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
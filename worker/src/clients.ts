@@ -0,0 +1,144 @@
+/**
+ * API Client Administration
+ *
+ * Create, rotate, list and revoke API clients — the worker counterpart
+ * of generateClientApiKey / revokeClientApiKey in Sync.gs. The router
+ * guards these routes with the Sheets webhook secret, since only the
+ * production office manages keys.
+ * The plain key is returned once at creation and never stored.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { API_SCOPES, ApiScope, hashApiKey } from './auth';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { CorsHeaders } from './types';
+import { FieldError } from './validation';
+
+const CLIENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+// Prefix som gör nycklarna lätta att känna igen (och hitta i läckta loggar)
+const KEY_PREFIX = 'csk_';
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET  /api/clients — all clients, without key hashes
+ * POST /api/clients — create a client, or rotate its key if it exists
+ * Body: { name, scopes }
+ */
+export async function handleClients(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method === 'GET') {
+    const { data, error } = await supabase
+      .from('api_clients')
+      .select('name, key_prefix, scopes, created_at, revoked_at')
+      .order('name');
+
+    if (error) {
+      return jsonResponse({ error: error.message }, corsHeaders, 500);
+    }
+
+    return jsonResponse({ success: true, clients: data }, corsHeaders);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+  const errors: FieldError[] = [];
+
+  if (typeof body?.name !== 'string' || !CLIENT_NAME_PATTERN.test(body.name)) {
+    errors.push({ field: 'name', message: 'must be lowercase letters, digits, "-" or "_"' });
+  }
+  if (
+    !Array.isArray(body?.scopes) ||
+    body.scopes.length === 0 ||
+    !body.scopes.every((scope) => API_SCOPES.includes(scope as ApiScope))
+  ) {
+    errors.push({ field: 'scopes', message: `must be a non-empty array of: ${API_SCOPES.join(', ')}` });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const apiKey = generateApiKey();
+
+  // Samma namn igen roterar nyckeln och återaktiverar klienten
+  const { data, error } = await supabase
+    .from('api_clients')
+    .upsert(
+      {
+        name: body!.name,
+        key_hash: await hashApiKey(apiKey),
+        key_prefix: apiKey.slice(0, KEY_PREFIX.length + 4),
+        scopes: [...new Set(body!.scopes as ApiScope[])],
+        created_at: new Date().toISOString(),
+        revoked_at: null,
+      },
+      { onConflict: 'name' }
+    )
+    .select('name, key_prefix, scopes, created_at')
+    .single();
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse({ success: true, client: data, api_key: apiKey }, corsHeaders, 201);
+}
+
+/**
+ * POST /api/clients/revoke
+ * Body: { name }
+ */
+export async function handleRevokeClient(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+
+  if (typeof body?.name !== 'string' || !CLIENT_NAME_PATTERN.test(body.name)) {
+    return validationErrorResponse(
+      [{ field: 'name', message: 'must be lowercase letters, digits, "-" or "_"' }],
+      corsHeaders
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('api_clients')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('name', body.name)
+    .is('revoked_at', null)
+    .select('name, revoked_at')
+    .maybeSingle();
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  if (!data) {
+    return jsonResponse({ error: 'No active client with that name' }, corsHeaders, 404);
+  }
+
+  return jsonResponse({ success: true, client: data }, corsHeaders);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return KEY_PREFIX + [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
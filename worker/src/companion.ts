@@ -0,0 +1,311 @@
+/**
+ * Companion Actions
+ *
+ * The non-timecode actions of the Apps Script doPost API (Triggers.gs),
+ * served from the repository with the same response shapes so Companion,
+ * vMix and HyperDeck buttons can point at the worker unchanged. The clip
+ * counter lives in the counters table instead of the Sheets settings tab.
+ */
+
+import { ApiClient } from './auth';
+import { jsonResponse } from './http';
+import { PostRow, Repository } from './repository';
+import { checkApproval, statusTransitionError } from './status';
+import { CompanionPayload, CorsHeaders } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface BatchUpdateResult {
+  index: number;
+  post_id: string;
+  success: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Handle a validated Companion action other than tc_in / tc_out and the
+ * take actions.
+ */
+export async function handleCompanionAction(
+  payload: CompanionPayload,
+  repo: Repository,
+  client: ApiClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  switch (payload.action) {
+    case 'mark_approved':
+      return markApproved(payload.post_id, repo, corsHeaders);
+    case 'get_current':
+      return getCurrent(repo, corsHeaders);
+    case 'get_next':
+      return getNext(payload, repo, corsHeaders);
+    case 'next_clip':
+      return clipNumber(false, repo, corsHeaders);
+    case 'increment_clip':
+      return clipNumber(true, repo, corsHeaders);
+    case 'batch_update':
+      return batchUpdate(payload.updates!, repo, client, corsHeaders);
+    case 'batch_get':
+      return batchGet(payload.post_ids!, repo, corsHeaders);
+    default:
+      return jsonResponse({ error: `Unknown action: ${payload.action}` }, corsHeaders, 400);
+  }
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+async function markApproved(
+  postId: string,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const current = await repo.getPost(postId);
+
+  if (!current) {
+    return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
+  }
+
+  const transitionError = statusTransitionError(current.status, 'godkand');
+  if (transitionError) {
+    return jsonResponse({ error: `Cannot approve ${postId}: ${transitionError.message}` }, corsHeaders, 422);
+  }
+
+  const post = await repo.updatePost(
+    postId,
+    { status: 'godkand', last_modified_by: 'companion' },
+    { from_status: [current.status!], active_only: true }
+  );
+
+  if (!post) {
+    return jsonResponse({ error: 'Conflict', message: 'Post changed during update, retry' }, corsHeaders, 409);
+  }
+
+  await repo.recordSyncStatus('post', postId, 'companion');
+
+  return jsonResponse(
+    {
+      success: true,
+      message: `${postId} marked as approved`,
+      post_id: postId,
+      status: 'godkand',
+    },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// DATA RETRIEVAL
+// ============================================================================
+
+async function getCurrent(repo: Repository, corsHeaders: CorsHeaders): Promise<Response> {
+  const [post] = await repo.listPosts({ status: 'recording', limit: 1 });
+
+  if (!post) {
+    return jsonResponse(
+      { success: true, recording: false, post: null, message: 'No post currently recording' },
+      corsHeaders
+    );
+  }
+
+  return jsonResponse({ success: true, recording: true, post: formatPostForApi(post) }, corsHeaders);
+}
+
+/**
+ * First planned post, by programme then running order.
+ */
+async function getNext(
+  payload: CompanionPayload,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const filter = {
+    status: 'planerad',
+    program_nr: payload.program_nr,
+    recording_day: payload.recording_day,
+  };
+
+  const [post] = await repo.listPosts({ ...filter, limit: 1 });
+
+  if (!post) {
+    return jsonResponse(
+      { success: true, has_next: false, post: null, message: 'No more posts to record' },
+      corsHeaders
+    );
+  }
+
+  return jsonResponse(
+    {
+      success: true,
+      has_next: true,
+      post: formatPostForApi(post),
+      remaining: (await repo.countPosts(filter)) - 1,
+    },
+    corsHeaders
+  );
+}
+
+async function batchGet(
+  postIds: string[],
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const rows = await repo.listPosts({ post_ids: postIds });
+
+  // Svaret följer ordningen i förfrågan
+  const byId = new Map(rows.map((row) => [row.post_id, row]));
+  const posts = postIds.filter((id) => byId.has(id)).map((id) => formatPostForApi(byId.get(id)!));
+  const missing = postIds.filter((id) => !byId.has(id));
+
+  return jsonResponse(
+    {
+      success: true,
+      found: posts.length,
+      not_found: missing.length,
+      posts,
+      missing,
+    },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// BATCH UPDATE
+// ============================================================================
+
+/**
+ * Apply up to MAX_BATCH_UPDATE partial post updates. Rows carrying a
+ * `version` are optimistic-locked like PUT /api/post, and status changes
+ * must be legal transitions (approving needs the `approve` scope); each
+ * row succeeds or fails on its own.
+ */
+async function batchUpdate(
+  updates: Record<string, unknown>[],
+  repo: Repository,
+  client: ApiClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const results: BatchUpdateResult[] = [];
+
+  for (const [index, update] of updates.entries()) {
+    const { post_id, version, ...fields } = update as { post_id: string; version?: number; status?: string };
+
+    let post: PostRow | null;
+    try {
+      // Statusbyten följer tillståndsmaskinen även i batch
+      let fromStatus: string[] | undefined;
+      if (fields.status) {
+        const current = await repo.getPost(post_id);
+        const transitionError = current && statusTransitionError(current.status, fields.status);
+        if (transitionError) {
+          results.push({ index, post_id, success: false, error: transitionError.message });
+          continue;
+        }
+        if (current && checkApproval(client, current.status, fields.status, corsHeaders)) {
+          results.push({ index, post_id, success: false, error: 'Approving needs the approve scope' });
+          continue;
+        }
+        fromStatus = current ? [current.status!] : undefined;
+      }
+
+      post = await repo.updatePost(
+        post_id,
+        { ...fields, last_modified_by: 'companion' },
+        { version, from_status: fromStatus, active_only: true }
+      );
+    } catch (error) {
+      results.push({ index, post_id, success: false, error: (error as Error).message });
+      continue;
+    }
+
+    if (!post) {
+      results.push({
+        index,
+        post_id,
+        success: false,
+        error: version !== undefined ? 'Post not found or modified since your last read' : 'Post not found',
+      });
+    } else {
+      await repo.recordSyncStatus('post', post_id, 'companion');
+      results.push({ index, post_id, success: true });
+    }
+  }
+
+  const successCount = results.filter((result) => result.success).length;
+  const errorCount = results.length - successCount;
+
+  return jsonResponse(
+    {
+      success: errorCount === 0,
+      message: `Batch complete: ${successCount} succeeded, ${errorCount} failed`,
+      total: updates.length,
+      success_count: successCount,
+      error_count: errorCount,
+      results,
+    },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// CLIP COUNTER
+// ============================================================================
+
+/**
+ * next_clip peeks at the next clip number, increment_clip claims it.
+ */
+async function clipNumber(
+  increment: boolean,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (increment) {
+    const clipNr = await repo.incrementClipCounter();
+    return jsonResponse(
+      { success: true, clip_nr: clipNr, message: `Clip counter incremented to ${clipNr}` },
+      corsHeaders
+    );
+  }
+
+  return jsonResponse({ success: true, clip_nr: await repo.nextClipNumber() }, corsHeaders);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Post as returned by the Apps Script API: `type` instead of type_key,
+ * people_ids comma-separated and a formatted duration.
+ */
+function formatPostForApi(row: PostRow): Record<string, unknown> {
+  const duration = (row.duration_sec as number | null) ?? 0;
+
+  return {
+    post_id: row.post_id,
+    program_nr: row.program_nr,
+    sort_order: row.sort_order,
+    type: row.type_key,
+    title: row.title,
+    duration_sec: row.duration_sec,
+    duration_formatted: formatDuration(duration),
+    people_ids: ((row.people_ids as string[] | null) ?? []).join(','),
+    location: row.location,
+    recording_day: row.recording_day,
+    recording_time: row.recording_time,
+    status: row.status,
+    notes: row.notes,
+  };
+}
+
+function formatDuration(seconds: number): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+}
@@ -0,0 +1,255 @@
+/**
+ * Booking Conflicts
+ *
+ * People on posts (people_ids) booked twice at the same time, or outside
+ * the availability windows on their people row. Checked against the
+ * computed schedule (sessions.ts), so a longer post further up moves every
+ * slot below it. Posts in one session follow each other; double bookings
+ * come from parallel sessions on the same date, across programmes.
+ *
+ * Nothing is blocked: GET /api/schedule/conflicts reports every clash for
+ * the producer, and post creates/updates return the clashes in the
+ * sessions they touch as `booking_conflicts`.
+ */
+
+import { jsonResponse, validationErrorResponse } from './http';
+import { Repository } from './repository';
+import { buildSessionPlan, SessionPlan } from './sessions';
+import { clockToSeconds } from './timing';
+import { AvailabilityWindow, CorsHeaders, Person, Post } from './types';
+import { DATE_PATTERN, FieldError, isSessionKey } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ConflictPost {
+  post_id: string;
+  program_nr: number;
+  title: string | null;
+  session_key: string;
+  start: string;   // HH:MM:SS
+  end: string;
+}
+
+export interface BookingConflict {
+  type: 'double_booking' | 'unavailable';
+  person_id: string;
+  person_name: string | null;      // Null om personen saknas i people
+  date: string | null;             // Passets datum
+  posts: ConflictPost[];           // Två vid dubbelbokning, annars en
+  overlap_sec: number | null;      // Dubbelbokning
+  availability: AvailabilityWindow[] | null;  // Utanför tillgänglighet
+}
+
+interface Assignment {
+  person_id: string;
+  date: string | null;
+  start_sec: number;   // Från passets datum 00:00 (kan passera midnatt)
+  end_sec: number;
+  post: ConflictPost;
+}
+
+const SECONDS_PER_DAY = 24 * 3600;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/schedule/conflicts — every clash in the production
+ * GET /api/schedule/conflicts?session=dag1&date=2026-03-14&program=2
+ *
+ * The filters are optional and keep clashes with at least one post in the
+ * given session or programme, or on the given date.
+ */
+export async function handleBookingConflicts(
+  request: Request,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const sessionKey = url.searchParams.get('session');
+  const date = url.searchParams.get('date');
+  const programParam = url.searchParams.get('program');
+  const programNr = programParam === null ? null : parseInt(programParam);
+  const errors: FieldError[] = [];
+
+  if (sessionKey !== null) {
+    const keyError = isSessionKey(sessionKey);
+    if (keyError) errors.push({ field: 'session', message: keyError });
+  }
+  if (date !== null && !DATE_PATTERN.test(date)) {
+    errors.push({ field: 'date', message: 'must match format YYYY-MM-DD' });
+  }
+  if (programNr !== null && !(programNr >= 1 && programNr <= 4)) {
+    errors.push({ field: 'program', message: 'must be an integer between 1 and 4' });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const conflicts = (await findBookingConflicts(repo))
+    .filter((conflict) => sessionKey === null || conflict.posts.some((post) => post.session_key === sessionKey))
+    .filter((conflict) => date === null || conflict.date === date)
+    .filter((conflict) => programNr === null || conflict.posts.some((post) => post.program_nr === programNr));
+
+  return jsonResponse(
+    {
+      success: true,
+      summary: {
+        total: conflicts.length,
+        double_bookings: conflicts.filter((conflict) => conflict.type === 'double_booking').length,
+        unavailable: conflicts.filter((conflict) => conflict.type === 'unavailable').length,
+        people: new Set(conflicts.map((conflict) => conflict.person_id)).size,
+      },
+      conflicts,
+    },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+/**
+ * Clashes in the sessions the given posts are scheduled in; run after a
+ * post is created or updated. Posts without a session have no time slot
+ * and are not checked.
+ */
+export async function bookingConflictsFor(
+  repo: Repository,
+  posts: Pick<Post, 'recording_day'>[]
+): Promise<BookingConflict[]> {
+  const sessionKeys = new Set(posts.map((post) => post.recording_day).filter((key): key is string => !!key));
+  if (sessionKeys.size === 0) return [];
+
+  const conflicts = await findBookingConflicts(repo);
+  return conflicts.filter((conflict) => conflict.posts.some((post) => sessionKeys.has(post.session_key)));
+}
+
+/**
+ * Every clash across all sessions, ordered by date, start and person.
+ */
+export async function findBookingConflicts(repo: Repository): Promise<BookingConflict[]> {
+  const sessions = await repo.listSessions();
+  const plans = await Promise.all(
+    sessions.map(async (session) => buildSessionPlan(session, await repo.schedule(session.session_key)))
+  );
+
+  const assignments = plans.flatMap(sessionAssignments);
+  if (assignments.length === 0) return [];
+
+  const people = new Map(
+    (await repo.listPeople([...new Set(assignments.map((a) => a.person_id))])).map((person) => [person.person_id, person])
+  );
+
+  const conflicts = [...doubleBookings(assignments, people), ...unavailable(assignments, people)];
+
+  // Pass utan datum sist
+  return conflicts.sort((a, b) =>
+    Number(a.date === null) - Number(b.date === null)
+    || (a.date ?? '').localeCompare(b.date ?? '')
+    || a.posts[0].start.localeCompare(b.posts[0].start)
+    || a.person_id.localeCompare(b.person_id)
+  );
+}
+
+function sessionAssignments(plan: SessionPlan): Assignment[] {
+  const sessionStart = clockToSeconds(plan.start_time);
+
+  return plan.slots.flatMap((slot) => {
+    let start = clockToSeconds(slot.start);
+    // Ett kvällspass kan passera midnatt
+    if (start < sessionStart) start += SECONDS_PER_DAY;
+
+    const post: ConflictPost = {
+      post_id: slot.post_id,
+      program_nr: slot.program_nr,
+      title: slot.title,
+      session_key: plan.session_key,
+      start: slot.start,
+      end: slot.end,
+    };
+
+    return [...new Set(slot.people_ids)].map((personId) => ({
+      person_id: personId,
+      date: plan.session_date,
+      start_sec: start,
+      end_sec: start + slot.duration_sec,
+      post,
+    }));
+  });
+}
+
+/**
+ * Pairs of posts for the same person that overlap in time. Sessions
+ * without a date can only be compared with themselves.
+ */
+function doubleBookings(assignments: Assignment[], people: Map<string, Person>): BookingConflict[] {
+  const conflicts: BookingConflict[] = [];
+  const groups = new Map<string, Assignment[]>();
+
+  for (const assignment of assignments) {
+    const key = `${assignment.person_id}|${assignment.date ?? `session:${assignment.post.session_key}`}`;
+    groups.set(key, [...(groups.get(key) ?? []), assignment]);
+  }
+
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.start_sec - b.start_sec);
+
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length && group[j].start_sec < group[i].end_sec; j++) {
+        const overlap = Math.min(group[i].end_sec, group[j].end_sec) - group[j].start_sec;
+        if (overlap <= 0) continue;
+
+        conflicts.push({
+          type: 'double_booking',
+          person_id: group[i].person_id,
+          person_name: people.get(group[i].person_id)?.name ?? null,
+          date: group[i].date,
+          posts: [group[i].post, group[j].post],
+          overlap_sec: overlap,
+          availability: null,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Posts outside the person's availability. A person without windows is
+ * always available; in a session without a date only the windows that
+ * apply every day can be checked.
+ */
+function unavailable(assignments: Assignment[], people: Map<string, Person>): BookingConflict[] {
+  return assignments.flatMap((assignment): BookingConflict[] => {
+    const person = people.get(assignment.person_id);
+    const windows = person?.availability ?? [];
+    if (!person || windows.length === 0) return [];
+
+    const applicable = windows.filter((window) => !window.date || window.date === assignment.date);
+    if (assignment.date === null && applicable.length === 0) return [];
+
+    const fits = applicable.some((window) => {
+      const start = clockToSeconds(window.start);
+      let end = clockToSeconds(window.end);
+      if (end < start) end += SECONDS_PER_DAY;
+      return assignment.start_sec >= start && assignment.end_sec <= end;
+    });
+    if (fits) return [];
+
+    return [{
+      type: 'unavailable',
+      person_id: person.person_id,
+      person_name: person.name,
+      date: assignment.date,
+      posts: [assignment.post],
+      overlap_sec: null,
+      availability: applicable,
+    }];
+  });
+}
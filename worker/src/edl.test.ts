@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { handleExportEdl } from './edl';
+import { Repository } from './repository';
+
+const POSTS = [
+  { post_id: 'P1:1', title: 'Intro' },
+  { post_id: 'P1:2', title: 'Psalm' },
+  { post_id: 'P1:3', title: null },
+];
+
+const TAKES = [
+  { post_id: 'P1:1', take_nr: 1, tc_in: '10:00:00:00', tc_out: '10:00:10:00', clip_nr: 3, selected: false },
+  { post_id: 'P1:1', take_nr: 2, tc_in: '10:01:00:00', tc_out: '10:01:05:00', clip_nr: 4, selected: true },
+  { post_id: 'P1:2', take_nr: 1, tc_in: '11:00:00:00', tc_out: '11:00:20:00', clip_nr: null, selected: false },
+];
+
+// Bara de repository-metoder som exporten använder
+function fakeRepo(frameRate = '25', takes: Record<string, unknown>[] = TAKES) {
+  const repo = {
+    getProgram: vi.fn(async () => ({ program_nr: 1, church_year: 'Advent', frame_rate: frameRate })),
+    listPosts: vi.fn(async () => POSTS),
+    listTakes: vi.fn(async () => takes),
+  };
+  return repo as typeof repo & Repository;
+}
+
+async function exportEdl(query: string, repo = fakeRepo()): Promise<Response> {
+  return handleExportEdl(new Request(`https://worker.test/api/export/edl?${query}`), repo, {});
+}
+
+describe('handleExportEdl', () => {
+  it('writes one CMX3600 event per post from the selected or latest take', async () => {
+    const repo = fakeRepo();
+    const response = await exportEdl('program=1', repo);
+
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="P1.edl"');
+    expect(repo.listTakes).toHaveBeenCalledWith(['P1:1', 'P1:2', 'P1:3'], { closed_only: true });
+    expect((await response.text()).split('\r\n')).toEqual([
+      'TITLE: P1 ADVENT',
+      'FCM: NON-DROP FRAME',
+      '',
+      '001  CLIP004  AA/V  C        10:01:00:00 10:01:05:00 01:00:00:00 01:00:05:00',
+      '* FROM CLIP NAME: Intro',
+      '* COMMENT: P1:1 TAKE 2',
+      '',
+      '002  AX       AA/V  C        11:00:00:00 11:00:20:00 01:00:05:00 01:00:25:00',
+      '* FROM CLIP NAME: Psalm',
+      '* COMMENT: P1:2 TAKE 1',
+      '',
+    ]);
+  });
+
+  it('exports every take with take numbers in the clip names', async () => {
+    const lines = (await (await exportEdl('program=1&takes=all')).text()).split('\r\n');
+
+    expect(lines.filter((line) => line.startsWith('* FROM CLIP NAME'))).toEqual([
+      '* FROM CLIP NAME: Intro (T1)',
+      '* FROM CLIP NAME: Intro (T2)',
+      '* FROM CLIP NAME: Psalm (T1)',
+    ]);
+    expect(lines[3]).toBe('001  CLIP003  AA/V  C        10:00:00:00 10:00:10:00 01:00:00:00 01:00:10:00');
+  });
+
+  it('uses drop-frame timecode at the programme rate', async () => {
+    const takes = [{ post_id: 'P1:1', take_nr: 1, tc_in: '10:00:00;00', tc_out: '10:01:00;02', clip_nr: 1, selected: false }];
+    const lines = (await (await exportEdl('program=1', fakeRepo('29.97df', takes))).text()).split('\r\n');
+
+    expect(lines[1]).toBe('FCM: DROP FRAME');
+    expect(lines[3]).toBe('001  CLIP001  AA/V  C        10:00:00;00 10:01:00;02 01:00:00;00 01:01:00;02');
+  });
+
+  it('lists takes with timecodes invalid at the export rate as skipped', async () => {
+    const takes = [...TAKES, { post_id: 'P1:3', take_nr: 1, tc_in: '12:00:00:28', tc_out: '12:00:10:00', clip_nr: 5, selected: false }];
+    const text = await (await exportEdl('program=1', fakeRepo('25', takes))).text();
+
+    expect(text).toContain('* SKIPPED: P1:3 TAKE 1 - timecode frames must be 00-24 at 25 fps');
+    expect(text).not.toContain('CLIP005');
+  });
+
+  it('writes an FCPXML timeline starting at 01:00:00:00', async () => {
+    const response = await exportEdl('program=1&format=fcpxml');
+    const xml = await response.text();
+
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="P1.fcpxml"');
+    expect(xml).toContain('<format id="r1" frameDuration="1/25s" width="1920" height="1080"/>');
+    expect(xml).toContain('<sequence format="r1" tcStart="90000/25s" tcFormat="NDF" duration="625/25s">');
+    expect(xml).toContain('<asset-clip ref="a2" name="Psalm" offset="90125/25s" start="990000/25s" duration="500/25s" tcFormat="NDF">');
+  });
+
+  it('rejects bad query parameters with 422', async () => {
+    const response = await exportEdl('program=5&format=aaf&fps=60&takes=best');
+    const body = (await response.json()) as { details: { field: string }[] };
+
+    expect(response.status).toBe(422);
+    expect(body.details.map((error) => error.field)).toEqual([
+      'program', 'format', 'fps', 'takes',
+    ]);
+  });
+});
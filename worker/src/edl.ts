@@ -0,0 +1,307 @@
+/**
+ * Edit Decision List Export
+ *
+ * Builds a CMX3600 EDL or an FCPXML timeline from a programme's recorded
+ * takes in running order, so editors can import the day's log straight
+ * into the NLE instead of retyping timecodes.
+ */
+
+import { fileResponse, validationErrorResponse } from './http';
+import { Repository } from './repository';
+import {
+  DEFAULT_FRAME_RATE,
+  durationFrames,
+  FrameRate,
+  FRAME_RATES,
+  framesToRational,
+  framesToTimecode,
+  isDropFrame,
+  isFrameRate,
+  timecodeToFrames,
+  validateTimecode,
+} from './timecode';
+import { CorsHeaders } from './types';
+import { FieldError } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const EXPORT_FORMATS = ['cmx3600', 'fcpxml'] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+interface TakeRow {
+  post_id: string;
+  take_nr: number;
+  tc_in: string;
+  tc_out: string;
+  clip_nr: number | null;
+  selected: boolean;
+}
+
+interface EdlEvent {
+  post_id: string;
+  title: string;
+  take_nr: number;
+  reel: string;
+  srcIn: number;     // Frames sedan 00:00:00:00
+  duration: number;  // Frames
+}
+
+interface SkippedTake {
+  post_id: string;
+  take_nr: number;
+  reason: string;
+}
+
+// Inspelningstidslinjen börjar på 01:00:00:00 enligt broadcast-praxis
+const RECORD_START_TC = '01:00:00:00';
+
+// FCPXML kräver en upplösning på formatet, vi spelar in i 1080
+const FCPXML_WIDTH = 1920;
+const FCPXML_HEIGHT = 1080;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/export/edl?program=1&format=cmx3600|fcpxml&fps=25&takes=all
+ *
+ * By default each post contributes one take: the selected one, else the
+ * latest closed one. `takes=all` exports every closed take. `fps` defaults
+ * to the programme's frame rate (25 unless changed).
+ */
+export async function handleExportEdl(
+  request: Request,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const programNr = parseInt(url.searchParams.get('program') || '');
+  const format = url.searchParams.get('format') ?? 'cmx3600';
+  const fps = url.searchParams.get('fps');
+  const takesParam = url.searchParams.get('takes') ?? 'latest';
+  const errors: FieldError[] = [];
+
+  if (!(programNr >= 1 && programNr <= 4)) {
+    errors.push({ field: 'program', message: 'must be an integer between 1 and 4' });
+  }
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    errors.push({ field: 'format', message: `must be one of: ${EXPORT_FORMATS.join(', ')}` });
+  }
+  if (fps !== null && !isFrameRate(fps)) {
+    errors.push({ field: 'fps', message: `must be one of: ${FRAME_RATES.join(', ')}` });
+  }
+  if (takesParam !== 'latest' && takesParam !== 'all') {
+    errors.push({ field: 'takes', message: 'must be one of: latest, all' });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const program = await repo.getProgram(programNr);
+
+  const rate: FrameRate = isFrameRate(fps)
+    ? fps
+    : isFrameRate(program?.frame_rate) ? program.frame_rate : DEFAULT_FRAME_RATE;
+
+  const posts = await repo.listPosts({ program_nr: programNr });
+  const postIds = posts.map((post) => post.post_id);
+  const takes = postIds.length > 0
+    ? ((await repo.listTakes(postIds, { closed_only: true })) as TakeRow[])
+    : [];
+
+  const { events, skipped } = buildEvents(
+    posts.map((post) => ({ post_id: post.post_id, title: post.title ?? null })),
+    takes,
+    takesParam === 'all',
+    rate
+  );
+
+  const title = `P${programNr}${program?.church_year ? ` ${program.church_year}` : ''}`;
+
+  if (format === 'fcpxml') {
+    return fileResponse(
+      toFcpxml(title, events, skipped, rate),
+      `P${programNr}.fcpxml`,
+      'application/xml',
+      corsHeaders
+    );
+  }
+
+  return fileResponse(
+    toCmx3600(title, events, skipped, rate),
+    `P${programNr}.edl`,
+    'text/plain',
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// EVENT SELECTION
+// ============================================================================
+
+/**
+ * One event per exported take, in running order. Takes whose timecodes
+ * are not valid at the export rate are skipped and reported.
+ */
+function buildEvents(
+  posts: { post_id: string; title: string | null }[],
+  takes: TakeRow[],
+  includeAll: boolean,
+  rate: FrameRate
+): { events: EdlEvent[]; skipped: SkippedTake[] } {
+  const events: EdlEvent[] = [];
+  const skipped: SkippedTake[] = [];
+
+  for (const post of posts) {
+    const postTakes = takes.filter((take) => take.post_id === post.post_id);
+    if (postTakes.length === 0) continue;
+
+    const chosen = includeAll
+      ? postTakes
+      : [postTakes.find((take) => take.selected) ?? postTakes[postTakes.length - 1]];
+
+    for (const take of chosen) {
+      const tcError = validateTimecode(take.tc_in, rate) ?? validateTimecode(take.tc_out, rate);
+      if (tcError) {
+        skipped.push({ post_id: take.post_id, take_nr: take.take_nr, reason: `timecode ${tcError}` });
+        continue;
+      }
+
+      events.push({
+        post_id: post.post_id,
+        title: post.title || post.post_id,
+        take_nr: take.take_nr,
+        reel: reelName(take.clip_nr),
+        srcIn: timecodeToFrames(take.tc_in, rate),
+        duration: durationFrames(take.tc_in, take.tc_out, rate),
+      });
+    }
+  }
+
+  return { events, skipped };
+}
+
+/**
+ * CMX3600 reel names are at most 8 characters, A–Z, 0–9 and underscore.
+ * Takes without clip number get the conventional "AX" (auxiliary source).
+ */
+function reelName(clipNr: number | null): string {
+  return clipNr === null ? 'AX' : `CLIP${String(clipNr).padStart(3, '0')}`.slice(0, 8);
+}
+
+function clipName(event: EdlEvent, includeTake: boolean): string {
+  return includeTake ? `${event.title} (T${event.take_nr})` : event.title;
+}
+
+function hasMultipleTakes(events: EdlEvent[]): boolean {
+  return new Set(events.map((event) => event.post_id)).size < events.length;
+}
+
+// ============================================================================
+// CMX3600
+// ============================================================================
+
+function toCmx3600(title: string, events: EdlEvent[], skipped: SkippedTake[], rate: FrameRate): string {
+  const multiTake = hasMultipleTakes(events);
+  const tc = (frames: number) => framesToTimecode(frames, rate);
+  const lines = [
+    `TITLE: ${title.toUpperCase()}`,
+    `FCM: ${isDropFrame(rate) ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+    '',
+  ];
+
+  let recIn = timecodeToFrames(RECORD_START_TC, rate);
+
+  events.forEach((event, index) => {
+    const srcOut = event.srcIn + event.duration;
+    const recOut = recIn + event.duration;
+
+    lines.push(
+      `${String(index + 1).padStart(3, '0')}  ${event.reel.padEnd(8)} AA/V  C        ` +
+        `${tc(event.srcIn)} ${tc(srcOut)} ${tc(recIn)} ${tc(recOut)}`,
+      `* FROM CLIP NAME: ${clipName(event, multiTake)}`,
+      `* COMMENT: ${event.post_id} TAKE ${event.take_nr}`,
+      ''
+    );
+
+    recIn = recOut;
+  });
+
+  for (const take of skipped) {
+    lines.push(`* SKIPPED: ${take.post_id} TAKE ${take.take_nr} - ${take.reason}`);
+  }
+
+  return lines.join('\r\n');
+}
+
+// ============================================================================
+// FCPXML
+// ============================================================================
+
+function toFcpxml(title: string, events: EdlEvent[], skipped: SkippedTake[], rate: FrameRate): string {
+  const multiTake = hasMultipleTakes(events);
+  const t = (frames: number) => framesToRational(frames, rate);
+  const start = timecodeToFrames(RECORD_START_TC, rate);
+  const total = events.reduce((sum, event) => sum + event.duration, 0);
+
+  // En asset per tagning, klippen läggs efter varandra på huvudspåret
+  const assets = events.map((event, index) =>
+    `    <asset id="a${index + 1}" name="${xmlEscape(event.reel)}" start="${t(event.srcIn)}" ` +
+      `duration="${t(event.duration)}" hasVideo="1" hasAudio="1" format="r1"/>`
+  );
+
+  let offset = start;
+  const clips = events.map((event, index) => {
+    const name = xmlEscape(clipName(event, multiTake));
+    const clip =
+      `            <asset-clip ref="a${index + 1}" name="${name}" offset="${t(offset)}" ` +
+      `start="${t(event.srcIn)}" duration="${t(event.duration)}" tcFormat="${tcFormat(rate)}">\n` +
+      `              <marker start="${t(event.srcIn)}" duration="${t(1)}" value="${xmlEscape(`${event.post_id} ${event.title}`)}"/>\n` +
+      `            </asset-clip>`;
+    offset += event.duration;
+    return clip;
+  });
+
+  const comments = skipped.map(
+    (take) => `  <!-- Skipped ${take.post_id} take ${take.take_nr}: ${xmlEscape(take.reason)} -->`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    ...comments,
+    '  <resources>',
+    `    <format id="r1" frameDuration="${t(1)}" width="${FCPXML_WIDTH}" height="${FCPXML_HEIGHT}"/>`,
+    ...assets,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${xmlEscape(title)}">`,
+    `      <project name="${xmlEscape(title)}">`,
+    `        <sequence format="r1" tcStart="${t(start)}" tcFormat="${tcFormat(rate)}" duration="${t(total)}">`,
+    '          <spine>',
+    ...clips,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+}
+
+function tcFormat(rate: FrameRate): string {
+  return isDropFrame(rate) ? 'DF' : 'NDF';
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
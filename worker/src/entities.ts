@@ -0,0 +1,319 @@
+/**
+ * Person & Programme Sync
+ *
+ * Handles `entity_type: 'person' | 'program'` payloads on /sync/from-sheets,
+ * keeping the people and programs tables in step with _DB_Personer and
+ * _DB_Program. Conflict detection uses the same optimistic `version`
+ * semantics as posts.
+ */
+
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { jsonResponse } from './http';
+import { updateSyncStatus } from './sync-status';
+import { CorsHeaders, EntityBatchConflict, Env, Person, Program, SyncPayload } from './types';
+
+// ============================================================================
+// ENTITY CONFIGURATION
+// ============================================================================
+
+interface EntityConfig {
+  type: 'person' | 'program';
+  table: string;
+  idColumn: 'person_id' | 'program_nr';
+}
+
+const PERSON_ENTITY: EntityConfig = {
+  type: 'person',
+  table: 'people',
+  idColumn: 'person_id',
+};
+
+const PROGRAM_ENTITY: EntityConfig = {
+  type: 'program',
+  table: 'programs',
+  idColumn: 'program_nr',
+};
+
+// Programmen 1–4 är seedade och refereras av posts, så "delete" från Sheets
+// återställer metadata istället för att ta bort raden. Platsen återställs
+// till DEFAULT_LOCATION (samma som i Config.gs), annars behålls den.
+const PROGRAM_RESET: Omit<Program, 'program_nr' | 'version' | 'location'> = {
+  start_date: undefined,
+  broadcast_date: undefined,
+  church_year: undefined,
+  prod_nr: undefined,
+  target_duration_sec: 2610,
+  start_time: '09:00:00',
+  notes: undefined,
+};
+
+type EntityRow = (Person | Program) & { version?: number };
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Route a validated person/program payload to the matching operation.
+ */
+export async function handleEntitySync(
+  payload: SyncPayload,
+  supabase: SupabaseClient,
+  env: Env,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const entity = payload.entity_type === 'person' ? PERSON_ENTITY : PROGRAM_ENTITY;
+
+  switch (payload.action) {
+    case 'create':
+      return syncCreateEntity(entity, payload.data as EntityRow, supabase, corsHeaders);
+
+    case 'update':
+      return syncUpdateEntity(entity, payload.data as EntityRow, payload.version, supabase, corsHeaders);
+
+    case 'delete':
+      return syncDeleteEntity(entity, payload.data as EntityRow, payload.version, env.DEFAULT_LOCATION, supabase, corsHeaders);
+
+    case 'batch_sync':
+      return syncBatchEntities(entity, payload.data as EntityRow[], payload.atomic === true, supabase, corsHeaders);
+
+    default:
+      return jsonResponse({ error: 'Unknown action' }, corsHeaders, 400);
+  }
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+async function syncCreateEntity(
+  entity: EntityConfig,
+  data: EntityRow,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const { version: _version, ...row } = data;
+
+  // Programmen finns redan (seed), så create blir en upsert på program_nr
+  const query =
+    entity.type === 'program'
+      ? supabase.from(entity.table).upsert({ ...row, last_modified_by: 'sheets' }, { onConflict: 'program_nr' })
+      : supabase.from(entity.table).insert({ ...row, last_modified_by: 'sheets' });
+
+  const { data: created, error } = await query.select().single();
+
+  if (error) {
+    return writeErrorResponse(entity, error, corsHeaders);
+  }
+
+  await updateSyncStatus(supabase, entity.type, String(idOf(entity, data)), 'sheets');
+
+  return jsonResponse({ success: true, data: created }, corsHeaders);
+}
+
+async function syncUpdateEntity(
+  entity: EntityConfig,
+  data: EntityRow,
+  payloadVersion: number | undefined,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const { version: rowVersion, ...updates } = data;
+  const version = rowVersion ?? payloadVersion;
+  const id = idOf(entity, data);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from(entity.table)
+    .select('version, last_modified_by, updated_at')
+    .eq(entity.idColumn, id)
+    .single();
+
+  if (fetchError) {
+    return jsonResponse({ error: `${capitalise(entity.type)} not found` }, corsHeaders, 404);
+  }
+
+  if (version !== undefined && version < existing.version) {
+    return versionConflictResponse(entity, existing, version, corsHeaders);
+  }
+
+  // Skrivningen kräver versionen som just lästes, så en samtidig ändring ger 409
+  const { data: updated, error: updateError } = await supabase
+    .from(entity.table)
+    .update({ ...updates, last_modified_by: 'sheets' })
+    .eq(entity.idColumn, id)
+    .eq('version', existing.version)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    return writeErrorResponse(entity, updateError, corsHeaders);
+  }
+
+  if (!updated) {
+    return jsonResponse(
+      { error: 'Conflict', message: `${capitalise(entity.type)} changed during update, retry` },
+      corsHeaders,
+      409
+    );
+  }
+
+  await updateSyncStatus(supabase, entity.type, String(id), 'sheets');
+
+  return jsonResponse({ success: true, data: updated }, corsHeaders);
+}
+
+async function syncDeleteEntity(
+  entity: EntityConfig,
+  data: EntityRow,
+  payloadVersion: number | undefined,
+  defaultLocation: string | undefined,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const version = data.version ?? payloadVersion;
+  const id = idOf(entity, data);
+  const reset = defaultLocation ? { ...nullify(PROGRAM_RESET), location: defaultLocation } : nullify(PROGRAM_RESET);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from(entity.table)
+    .select('version, last_modified_by, updated_at')
+    .eq(entity.idColumn, id)
+    .maybeSingle();
+
+  if (fetchError) {
+    return jsonResponse({ error: fetchError.message }, corsHeaders, 500);
+  }
+
+  if (!existing) {
+    return jsonResponse({ error: `${capitalise(entity.type)} not found` }, corsHeaders, 404);
+  }
+
+  if (version !== undefined && version < existing.version) {
+    return versionConflictResponse(entity, existing, version, corsHeaders);
+  }
+
+  // Som vid update: en samtidig ändring mellan läsning och skrivning ger 409
+  const query =
+    entity.type === 'program'
+      ? supabase.from(entity.table).update({ ...reset, last_modified_by: 'sheets' })
+      : supabase.from(entity.table).delete();
+
+  const { data: deleted, error } = await query
+    .eq(entity.idColumn, id)
+    .eq('version', existing.version)
+    .select(entity.idColumn);
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  if (deleted.length === 0) {
+    return jsonResponse(
+      { error: 'Conflict', message: `${capitalise(entity.type)} changed during delete, retry` },
+      corsHeaders,
+      409
+    );
+  }
+
+  await updateSyncStatus(supabase, entity.type, String(id), 'sheets');
+
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+/**
+ * Upsert a whole batch in one round trip via sync_entities_batch().
+ * With `atomic` nothing is written if any row conflicts or fails.
+ */
+async function syncBatchEntities(
+  entity: EntityConfig,
+  rows: EntityRow[],
+  atomic: boolean,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const { data: report, error } = await supabase.rpc('sync_entities_batch', {
+    p_entity_type: entity.type,
+    p_rows: rows,
+    p_atomic: atomic,
+    p_source: 'sheets',
+  });
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  const results = {
+    applied: report.applied as boolean,
+    created: (report.created as string[]).length,
+    updated: (report.updated as string[]).length,
+    created_ids: report.created as string[],
+    updated_ids: report.updated as string[],
+    conflicts: report.conflicts as EntityBatchConflict[],
+    errors: report.errors as { entity_id: string; message: string }[],
+    versions: report.versions as Record<string, number>,  // Sparas av Sheets och skickas med nästa synk
+  };
+
+  // Atomiskt läge som inte gick igenom: inget skrevs
+  if (atomic && !results.applied) {
+    return jsonResponse({ success: false, error: 'Batch rejected', results }, corsHeaders, 409);
+  }
+
+  return jsonResponse({ success: true, results }, corsHeaders);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function idOf(entity: EntityConfig, row: EntityRow): string | number {
+  return (row as unknown as Record<string, string | number>)[entity.idColumn];
+}
+
+/**
+ * 409 for a write based on a version older than the stored one.
+ */
+function versionConflictResponse(
+  entity: EntityConfig,
+  existing: { version: number; last_modified_by: string; updated_at: string },
+  version: number,
+  corsHeaders: CorsHeaders
+): Response {
+  return jsonResponse(
+    {
+      error: 'Conflict',
+      message: `${capitalise(entity.type)} has been modified since your last read`,
+      server_version: existing.version,
+      your_version: version,
+      last_modified_by: existing.last_modified_by,
+      last_modified_at: existing.updated_at,
+    },
+    corsHeaders,
+    409
+  );
+}
+
+/**
+ * 409 for a duplicate id (unique_violation), else 500.
+ */
+function writeErrorResponse(entity: EntityConfig, error: PostgrestError, corsHeaders: CorsHeaders): Response {
+  if (error.code === '23505') {
+    return jsonResponse(
+      { error: 'Conflict', message: `${capitalise(entity.type)} already exists`, details: error.details },
+      corsHeaders,
+      409
+    );
+  }
+
+  return jsonResponse({ error: error.message }, corsHeaders, 500);
+}
+
+function capitalise(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * JSON drops undefined, so explicit resets must be sent as null.
+ */
+function nullify<T extends object>(row: T): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).map(([k, v]) => [k, v ?? null]));
+}
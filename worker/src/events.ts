@@ -0,0 +1,224 @@
+/**
+ * Event Stream
+ *
+ * GET /events — Server-Sent Events for clients that cannot use Supabase
+ * Realtime (Companion, vMix scripts, tally displays). Database triggers
+ * write production_events; the stream polls the table and sends each row
+ * with its id, so EventSource resumes from Last-Event-ID after a dropped
+ * connection. The worker closes a stream after a few minutes to stay
+ * within the subrequest limit; clients reconnect and continue seamlessly.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { jsonResponse, validationErrorResponse } from './http';
+import { CorsHeaders } from './types';
+import { FieldError } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const EVENT_TYPES = ['post_status', 'current_post', 'tc_in', 'tc_out', 'reorder'] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
+
+interface EventFilter {
+  programNr: number | null;
+  types: EventType[];
+}
+
+interface ProductionEvent {
+  id: number;
+  type: EventType;
+  program_nr: number | null;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const RECONNECT_DELAY_MS = 3000;
+const PAGE_SIZE = 100;
+
+// Två frågor per sekund ryms inte i subrequest-gränsen; klienten kopplar upp igen
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// Strömmen går att återuppta ett dygn bakåt
+const EVENT_RETENTION_HOURS = 24;
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+/**
+ * GET /events?program=1&types=tc_in,tc_out
+ *
+ * Resumes after `Last-Event-ID` (or `?last_event_id=`); without one the
+ * stream starts with the current post and then only new events.
+ */
+export async function handleEvents(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const errors: FieldError[] = [];
+
+  const program = url.searchParams.get('program');
+  const programNr = program === null ? null : Number(program);
+  if (programNr !== null && (!Number.isInteger(programNr) || programNr < 1)) {
+    errors.push({ field: 'program', message: 'must be a positive integer' });
+  }
+
+  const types = url.searchParams.get('types')?.split(',').map((type) => type.trim()).filter(Boolean)
+    ?? [...EVENT_TYPES];
+  if (types.length === 0 || !types.every((type) => EVENT_TYPES.includes(type as EventType))) {
+    errors.push({ field: 'types', message: `must be a comma-separated list of: ${EVENT_TYPES.join(', ')}` });
+  }
+
+  const lastEventId = request.headers.get('Last-Event-ID') ?? url.searchParams.get('last_event_id');
+  if (lastEventId !== null && !/^\d+$/.test(lastEventId)) {
+    errors.push({ field: 'last_event_id', message: 'must be an event id' });
+  }
+
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const filter: EventFilter = { programNr, types: types as EventType[] };
+
+  // Ny anslutning börjar vid senaste händelsen, inte från början
+  let cursor: number;
+  if (lastEventId !== null) {
+    cursor = parseInt(lastEventId);
+  } else {
+    const { data, error } = await supabase
+      .from('production_events')
+      .select('id')
+      .order('id', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      return jsonResponse({ error: error.message }, corsHeaders, 500);
+    }
+    cursor = data?.id ?? 0;
+  }
+
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+
+  // Körs vidare efter return så länge klienten läser strömmen
+  void streamEvents(writer, supabase, filter, cursor, lastEventId === null);
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * Remove events past the resume window.
+ */
+export async function purgeOldEvents(supabase: SupabaseClient): Promise<void> {
+  const cutoff = new Date(Date.now() - EVENT_RETENTION_HOURS * 60 * 60 * 1000);
+  await supabase.from('production_events').delete().lt('created_at', cutoff.toISOString());
+}
+
+// ============================================================================
+// STREAM
+// ============================================================================
+
+async function streamEvents(
+  writer: WritableStreamDefaultWriter<Uint8Array>,
+  supabase: SupabaseClient,
+  filter: EventFilter,
+  cursor: number,
+  sendSnapshot: boolean
+): Promise<void> {
+  const encoder = new TextEncoder();
+  const send = (text: string) => writer.write(encoder.encode(text));
+
+  const started = Date.now();
+  let lastSent = started;
+
+  try {
+    await send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    if (sendSnapshot && filter.types.includes('current_post')) {
+      await send(formatEvent(null, 'current_post', { post: await currentPost(supabase, filter.programNr) }));
+    }
+
+    while (Date.now() - started < MAX_STREAM_MS) {
+      let query = supabase
+        .from('production_events')
+        .select('id, type, program_nr, data, created_at')
+        .gt('id', cursor)
+        .in('type', filter.types)
+        .order('id')
+        .limit(PAGE_SIZE);
+
+      if (filter.programNr !== null) {
+        query = query.eq('program_nr', filter.programNr);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Event stream query failed:', error.message);
+      }
+
+      const events = (data ?? []) as ProductionEvent[];
+      for (const event of events) {
+        await send(formatEvent(event.id, event.type, { ...event.data, created_at: event.created_at }));
+        cursor = event.id;
+        lastSent = Date.now();
+      }
+
+      // Kommentarsrader håller proxyer och EventSource vid liv
+      if (Date.now() - lastSent >= HEARTBEAT_INTERVAL_MS) {
+        await send(`: heartbeat ${new Date().toISOString()}\n\n`);
+        lastSent = Date.now();
+      }
+
+      if (events.length < PAGE_SIZE) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    }
+  } catch {
+    // Klienten har kopplat ner
+  } finally {
+    await writer.close().catch(() => {});
+  }
+}
+
+/**
+ * The post being recorded, in the shape of current_post events.
+ */
+async function currentPost(
+  supabase: SupabaseClient,
+  programNr: number | null
+): Promise<Record<string, unknown> | null> {
+  let query = supabase
+    .from('posts_active')
+    .select('post_id, program_nr, sort_order, type_key, title, duration_sec, recording_day, status')
+    .eq('status', 'recording')
+    .order('program_nr')
+    .order('sort_order')
+    .limit(1);
+
+  if (programNr !== null) {
+    query = query.eq('program_nr', programNr);
+  }
+
+  const { data } = await query.maybeSingle();
+  return data;
+}
+
+function formatEvent(id: number | null, type: EventType, data: object): string {
+  const idLine = id === null ? '' : `id: ${id}\n`;
+  return `${idLine}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,293 @@
+/**
+ * Post History & Revert
+ *
+ * Readable timeline of a post built from audit_log, and restoring a post to
+ * any earlier version through the normal optimistic-lock path.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { ApiClient } from './auth';
+import { checkApproval, statusTransitionError } from './status';
+import { updateSyncStatus } from './sync-status';
+import { CorsHeaders } from './types';
+import { FieldError, POST_ID_PATTERN } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AuditRow {
+  id: string;
+  action: 'INSERT' | 'UPDATE' | 'DELETE';
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  changed_fields: string[] | null;
+  source: string | null;
+  user_email: string | null;
+  batch_id: string | null;
+  client_name: string | null;
+  created_at: string;
+}
+
+interface FieldDiff {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+interface HistoryEntry {
+  audit_id: string;
+  version: number | null;
+  action: string;
+  source: string | null;
+  user: string | null;
+  client: string | null;    // API-klient, om ändringen kom via Workern
+  at: string;
+  batch_id: string | null;  // delad med övriga rader i samma omsortering
+  changes: FieldDiff[];
+}
+
+// Bokföringskolumner som ändras vid varje skrivning och bara skapar brus
+const BOOKKEEPING_FIELDS = [
+  'id', 'post_id', 'version', 'last_modified_by', 'last_modified_client', 'created_at', 'updated_at',
+];
+
+// Kolumner som en revert återställer (soft delete hanteras separat)
+const RESTORABLE_FIELDS = [
+  'program_nr', 'type_key', 'sort_order', 'title', 'duration_sec', 'location',
+  'people_ids', 'text_author', 'composer', 'arranger', 'recording_day',
+  'recording_slot', 'recording_time', 'status', 'info_pos', 'graphics', 'notes', 'open_text',
+];
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/post/history?id=P1:5
+ */
+export async function handleGetPostHistory(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const postId = url.searchParams.get('id');
+
+  if (!postId || !POST_ID_PATTERN.test(postId)) {
+    return validationErrorResponse(
+      [{ field: 'id', message: 'must match format P<program>:<n>' }],
+      corsHeaders
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('id, action, old_data, new_data, changed_fields, source, user_email, batch_id, client_name, created_at')
+    .eq('table_name', 'posts')
+    .eq('post_id', postId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  if (!data || data.length === 0) {
+    return jsonResponse({ error: 'No history for post' }, corsHeaders, 404);
+  }
+
+  const history = (data as AuditRow[]).map(toHistoryEntry);
+
+  return jsonResponse({ success: true, post_id: postId, history }, corsHeaders);
+}
+
+/**
+ * POST /api/post/revert
+ * Body: { post_id, to_version, version? } — `version` is the version the
+ * client last read and is checked like any other update.
+ */
+export async function handlePostRevert(
+  request: Request,
+  supabase: SupabaseClient,
+  client: ApiClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+  const errors: FieldError[] = [];
+
+  if (typeof body?.post_id !== 'string' || !POST_ID_PATTERN.test(body.post_id)) {
+    errors.push({ field: 'post_id', message: 'must match format P<program>:<n>' });
+  }
+  if (typeof body?.to_version !== 'number' || !Number.isInteger(body.to_version) || body.to_version < 1) {
+    errors.push({ field: 'to_version', message: 'must be an integer >= 1' });
+  }
+  if (body?.version !== undefined && (typeof body.version !== 'number' || !Number.isInteger(body.version))) {
+    errors.push({ field: 'version', message: 'must be an integer' });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const postId = body!.post_id as string;
+  const toVersion = body!.to_version as number;
+  const version = body!.version as number | undefined;
+
+  const { data: current, error: fetchError } = await supabase
+    .from('posts')
+    .select('*')
+    .eq('post_id', postId)
+    .single();
+
+  if (fetchError) {
+    return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
+  }
+
+  if (version !== undefined && version < current.version) {
+    return jsonResponse(
+      {
+        error: 'Conflict',
+        message: 'Post has been modified since your last read',
+        server_version: current.version,
+        your_version: version,
+        last_modified_by: current.last_modified_by,
+        last_modified_at: current.updated_at,
+      },
+      corsHeaders,
+      409
+    );
+  }
+
+  if (toVersion >= current.version) {
+    return validationErrorResponse(
+      [{ field: 'to_version', message: `must be older than current version ${current.version}` }],
+      corsHeaders
+    );
+  }
+
+  const snapshot = await fetchPostAtVersion(postId, toVersion, supabase);
+
+  if (!snapshot) {
+    return jsonResponse({ error: `No history for version ${toVersion}` }, corsHeaders, 404);
+  }
+
+  const restore: Record<string, unknown> = {};
+  for (const field of RESTORABLE_FIELDS) {
+    if (field in snapshot && !valuesEqual(snapshot[field], current[field])) {
+      restore[field] = snapshot[field];
+    }
+  }
+
+  if (Object.keys(restore).length === 0) {
+    return jsonResponse({ success: true, data: current, restored_fields: [] }, corsHeaders);
+  }
+
+  // En gammal status återställs bara om övergången är tillåten
+  if ('status' in restore) {
+    const transitionError = statusTransitionError(current.status, restore.status as string, 'to_version');
+    if (transitionError) {
+      return validationErrorResponse([transitionError], corsHeaders);
+    }
+
+    const denied = checkApproval(client, current.status, restore.status as string, corsHeaders);
+    if (denied) return denied;
+  }
+
+  // Skrivningen villkoras på versionen vi läste, så en samtidig ändring ger 409
+  const { data: updated, error: updateError } = await supabase
+    .from('posts')
+    .update({ ...restore, last_modified_by: 'api' })
+    .eq('post_id', postId)
+    .eq('version', current.version)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    return jsonResponse({ error: updateError.message }, corsHeaders, 500);
+  }
+
+  if (!updated) {
+    return jsonResponse(
+      { error: 'Conflict', message: 'Post changed during revert, retry' },
+      corsHeaders,
+      409
+    );
+  }
+
+  await updateSyncStatus(supabase, 'post', postId, 'api');
+
+  return jsonResponse(
+    {
+      success: true,
+      data: updated,
+      reverted_to: toVersion,
+      restored_fields: Object.keys(restore),
+    },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Post state as it was at `version`, taken from the audit_log row
+ * whose new_data carries that version.
+ */
+export async function fetchPostAtVersion(
+  postId: string,
+  version: number,
+  supabase: SupabaseClient
+): Promise<Record<string, unknown> | null> {
+  const { data } = await supabase
+    .from('audit_log')
+    .select('new_data')
+    .eq('table_name', 'posts')
+    .eq('post_id', postId)
+    .eq('new_data->>version', String(version))
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.new_data ?? null;
+}
+
+function toHistoryEntry(row: AuditRow): HistoryEntry {
+  const snapshot = row.new_data ?? row.old_data ?? {};
+  let changes: FieldDiff[] = [];
+
+  if (row.action === 'UPDATE') {
+    changes = (row.changed_fields ?? [])
+      .filter((field) => !BOOKKEEPING_FIELDS.includes(field))
+      .map((field) => ({
+        field,
+        from: row.old_data?.[field] ?? null,
+        to: row.new_data?.[field] ?? null,
+      }));
+  } else if (row.action === 'INSERT') {
+    changes = Object.entries(snapshot)
+      .filter(([field, value]) => !BOOKKEEPING_FIELDS.includes(field) && value !== null)
+      .map(([field, value]) => ({ field, from: null, to: value }));
+  }
+
+  return {
+    audit_id: row.id,
+    version: typeof snapshot.version === 'number' ? snapshot.version : null,
+    action: row.action,
+    source: row.source,
+    user: row.user_email,
+    client: row.client_name,
+    at: row.created_at,
+    batch_id: row.batch_id,
+    changes,
+  };
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
@@ -0,0 +1,79 @@
+/**
+ * HTTP Helpers
+ *
+ * Response builders and body parsing shared by all route handlers.
+ */
+
+import { CorsHeaders } from './types';
+import { FieldError } from './validation';
+
+export function jsonResponse(
+  data: object,
+  corsHeaders: CorsHeaders,
+  status = 200
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * Non-JSON body served as a file download.
+ */
+export function fileResponse(
+  body: string,
+  filename: string,
+  contentType: string,
+  corsHeaders: CorsHeaders
+): Response {
+  return new Response(body, {
+    headers: {
+      'Content-Type': `${contentType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * HTML page opened in the browser, e.g. to print it.
+ */
+export function htmlResponse(body: string, corsHeaders: CorsHeaders): Response {
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * 422 response listing every invalid field, so operators can fix the
+ * offending row or button without digging through worker logs.
+ */
+export function validationErrorResponse(
+  errors: FieldError[],
+  corsHeaders: CorsHeaders
+): Response {
+  return jsonResponse(
+    { error: 'Validation failed', details: errors },
+    corsHeaders,
+    422
+  );
+}
+
+/**
+ * Parse a JSON body, returning undefined for malformed JSON so the
+ * validators can report it like any other invalid payload.
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
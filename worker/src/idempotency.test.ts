@@ -0,0 +1,143 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { withIdempotency } from './idempotency';
+
+type Row = Record<string, unknown>;
+
+// idempotency_keys i minnet, med de PostgREST-anrop som middleware gör
+function fakeSupabase(rows: Row[]) {
+  const matching = (filters: [string, string, unknown][]) =>
+    rows.filter((row) => filters.every(([op, column, value]) =>
+      op === 'eq' ? row[column] === value : String(row[column]) < String(value)
+    ));
+
+  const query = (run: (filters: [string, string, unknown][]) => unknown) => {
+    const filters: [string, string, unknown][] = [];
+    const builder = {
+      eq: (column: string, value: unknown) => (filters.push(['eq', column, value]), builder),
+      lt: (column: string, value: unknown) => (filters.push(['lt', column, value]), builder),
+      maybeSingle: async () => ({ data: matching(filters)[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => resolve(run(filters)),
+    };
+    return builder;
+  };
+
+  const table = {
+    insert: async (row: Row) => {
+      if (rows.some((existing) => existing.caller === row.caller && existing.key === row.key)) {
+        return { error: { code: '23505', message: 'duplicate key value' } };
+      }
+      rows.push({ ...row, response_status: null, response_body: null, content_type: null });
+      return { error: null };
+    },
+    select: () => query(() => ({ data: null, error: null })),
+    update: (fields: Row) => query((filters) => {
+      matching(filters).forEach((row) => Object.assign(row, fields));
+      return { error: null };
+    }),
+    delete: () => query((filters) => {
+      for (const row of matching(filters)) rows.splice(rows.indexOf(row), 1);
+      return { error: null };
+    }),
+  };
+
+  return { from: () => table } as unknown as SupabaseClient;
+}
+
+function post(body: unknown, key?: string): Request {
+  return new Request('https://worker.test/sync/from-companion', {
+    method: 'POST',
+    headers: key ? { 'Idempotency-Key': key } : {},
+    body: JSON.stringify(body),
+  });
+}
+
+let rows: Row[];
+let supabase: SupabaseClient;
+
+beforeEach(() => {
+  rows = [];
+  supabase = fakeSupabase(rows);
+});
+
+describe('withIdempotency', () => {
+  it('replays the stored response for a repeated key', async () => {
+    let clip = 0;
+    const handle = vi.fn(async () => Response.json({ clip_nr: ++clip }, { status: 201 }));
+    const body = { action: 'tc_in', post_id: 'P1:5', tc_in: '10:00:00:00' };
+
+    const first = await withIdempotency(post(body, 'knapp-1'), supabase, 'companion', {}, handle);
+    const second = await withIdempotency(post(body, 'knapp-1'), supabase, 'companion', {}, handle);
+
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(second.status).toBe(201);
+    expect(second.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await second.json()).toEqual(await first.json());
+  });
+
+  it('rejects a key reused with a different body', async () => {
+    const handle = vi.fn(async () => Response.json({ success: true }));
+
+    await withIdempotency(post({ action: 'tc_in', post_id: 'P1:5' }, 'knapp-1'), supabase, 'companion', {}, handle);
+    const reused = await withIdempotency(post({ action: 'tc_in', post_id: 'P1:6' }, 'knapp-1'), supabase, 'companion', {}, handle);
+
+    expect(reused.status).toBe(422);
+    expect(await reused.json()).toMatchObject({ error: 'Idempotency key reused' });
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    const body = { action: 'tc_out', post_id: 'P1:5' };
+    let duplicate: Response | undefined;
+
+    await withIdempotency(post(body, 'knapp-2'), supabase, 'companion', {}, async () => {
+      duplicate = await withIdempotency(post(body, 'knapp-2'), supabase, 'companion', {}, async () => Response.json({}));
+      return Response.json({ success: true });
+    });
+
+    expect(duplicate?.status).toBe(409);
+    expect(duplicate?.headers.get('Retry-After')).toBe('1');
+  });
+
+  it('releases the key after a server error so the client can retry', async () => {
+    const handle = vi.fn()
+      .mockResolvedValueOnce(Response.json({ error: 'boom' }, { status: 500 }))
+      .mockResolvedValueOnce(Response.json({ success: true }));
+
+    await withIdempotency(post({ action: 'tc_in' }, 'knapp-3'), supabase, 'companion', {}, handle);
+    const retry = await withIdempotency(post({ action: 'tc_in' }, 'knapp-3'), supabase, 'companion', {}, handle);
+
+    expect(handle).toHaveBeenCalledTimes(2);
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull();
+  });
+
+  it('keys identical bodies without a key, except for lookups', async () => {
+    const handle = vi.fn(async () => Response.json({ success: true }));
+
+    await withIdempotency(post({ action: 'tc_in', post_id: 'P1:5' }), supabase, 'companion', {}, handle);
+    await withIdempotency(post({ action: 'tc_in', post_id: 'P1:5' }), supabase, 'companion', {}, handle);
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(rows[0].key).toMatch(/^auto:/);
+
+    await withIdempotency(post({ action: 'increment_clip' }), supabase, 'companion', {}, handle);
+    await withIdempotency(post({ action: 'increment_clip' }), supabase, 'companion', {}, handle);
+    expect(handle).toHaveBeenCalledTimes(3);
+  });
+
+  it('scopes keys per caller and ignores reads', async () => {
+    const handle = vi.fn(async () => Response.json({ success: true }));
+
+    await withIdempotency(post({ action: 'tc_in' }, 'knapp-4'), supabase, 'companion-regi', {}, handle);
+    await withIdempotency(post({ action: 'tc_in' }, 'knapp-4'), supabase, 'companion-ljud', {}, handle);
+    await withIdempotency(new Request('https://worker.test/api/posts'), supabase, 'studio', {}, handle);
+
+    expect(handle).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects an over-long key', async () => {
+    const response = await withIdempotency(post({}, 'x'.repeat(256)), supabase, 'companion', {}, async () => Response.json({}));
+
+    expect(response.status).toBe(422);
+  });
+});
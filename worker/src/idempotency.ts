@@ -0,0 +1,230 @@
+/**
+ * Idempotency
+ *
+ * Makes retries of mutating requests safe. The first response for a key
+ * is stored in idempotency_keys and replayed for duplicates; reusing a key
+ * with a different body is rejected. The key comes from the
+ * `Idempotency-Key` header or an `idempotency_key` body field. Requests
+ * without one are keyed on their body for a short window, which catches a
+ * double-pressed Stream Deck button or a retried UrlFetchApp call.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sha256Hex } from './auth';
+import { jsonResponse } from './http';
+import { CorsHeaders } from './types';
+
+// Hur länge ett svar spelas upp igen
+const EXPLICIT_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const IMPLICIT_KEY_TTL_MS = 10 * 1000;
+
+const MAX_KEY_LENGTH = 255;
+
+// Companion-actions som ska köras varje gång även med identisk body:
+// uppslag ska vara färska och varje increment_clip ska ge ett nytt nummer
+const ALWAYS_RUN_ACTIONS = ['get_current', 'get_next', 'next_clip', 'batch_get', 'increment_clip'];
+
+interface StoredResponse {
+  request_hash: string;
+  response_status: number | null;
+  response_body: string | null;
+  content_type: string | null;
+  expires_at: string;
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Run `handle` at most once per idempotency key and caller. Non-mutating
+ * requests pass straight through.
+ */
+export async function withIdempotency(
+  request: Request,
+  supabase: SupabaseClient,
+  caller: string,
+  corsHeaders: CorsHeaders,
+  handle: () => Promise<Response>
+): Promise<Response> {
+  if (!['POST', 'PUT', 'DELETE'].includes(request.method)) {
+    return handle();
+  }
+
+  const route = new URL(request.url).pathname;
+  const body = await request.clone().text();
+  const parsed = parseBody(body);
+
+  const requestHash = await sha256Hex(`${request.method} ${route}\n${body}`);
+  const supplied = request.headers.get('Idempotency-Key') ?? parsed?.idempotency_key;
+  let key: string;
+  let ttl: number;
+
+  if (supplied === undefined || supplied === null) {
+    if (ALWAYS_RUN_ACTIONS.includes(parsed?.action as string)) {
+      return handle();
+    }
+    key = `auto:${requestHash}`;
+    ttl = IMPLICIT_KEY_TTL_MS;
+  } else if (typeof supplied !== 'string' || supplied.length === 0 || supplied.length > MAX_KEY_LENGTH) {
+    return jsonResponse(
+      { error: 'Validation failed', details: [{ field: 'Idempotency-Key', message: `must be 1-${MAX_KEY_LENGTH} characters` }] },
+      corsHeaders,
+      422
+    );
+  } else {
+    key = supplied;
+    ttl = EXPLICIT_KEY_TTL_MS;
+  }
+
+  const claimed = await claimKey(supabase, caller, key, route, requestHash, ttl);
+
+  if (claimed === 'error') {
+    // Utan idempotenstabell är det bättre att köra än att stoppa inspelningen
+    return handle();
+  }
+
+  if (claimed !== 'claimed') {
+    return replay(claimed, requestHash, corsHeaders);
+  }
+
+  let response: Response;
+  try {
+    response = await handle();
+  } catch (error) {
+    await releaseKey(supabase, caller, key);
+    throw error;
+  }
+
+  // Serverfel sparas inte, så att klienten kan försöka igen
+  if (response.status >= 500) {
+    await releaseKey(supabase, caller, key);
+    return response;
+  }
+
+  await supabase
+    .from('idempotency_keys')
+    .update({
+      response_status: response.status,
+      response_body: await response.clone().text(),
+      content_type: response.headers.get('Content-Type'),
+    })
+    .eq('caller', caller)
+    .eq('key', key);
+
+  return response;
+}
+
+// ============================================================================
+// KEY STORAGE
+// ============================================================================
+
+/**
+ * Insert a pending row for the key. Returns 'claimed' when this request
+ * owns the key, the stored row when it was already used, or 'error'.
+ */
+async function claimKey(
+  supabase: SupabaseClient,
+  caller: string,
+  key: string,
+  route: string,
+  requestHash: string,
+  ttl: number
+): Promise<'claimed' | 'error' | StoredResponse> {
+  const row = {
+    caller,
+    key,
+    route,
+    request_hash: requestHash,
+    expires_at: new Date(Date.now() + ttl).toISOString(),
+  };
+
+  // Andra försöket körs efter att en utgången rad tagits bort
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { error } = await supabase.from('idempotency_keys').insert(row);
+    if (!error) return 'claimed';
+
+    if (error.code !== '23505') {
+      console.error('Idempotency key insert failed:', error.message);
+      return 'error';
+    }
+
+    const { data: existing } = await supabase
+      .from('idempotency_keys')
+      .select('request_hash, response_status, response_body, content_type, expires_at')
+      .eq('caller', caller)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (!existing) continue;
+
+    if (new Date(existing.expires_at).getTime() > Date.now()) {
+      return existing as StoredResponse;
+    }
+
+    await supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('caller', caller)
+      .eq('key', key)
+      .lt('expires_at', new Date().toISOString());
+  }
+
+  return 'error';
+}
+
+async function releaseKey(supabase: SupabaseClient, caller: string, key: string): Promise<void> {
+  await supabase.from('idempotency_keys').delete().eq('caller', caller).eq('key', key);
+}
+
+/**
+ * Remove expired keys.
+ */
+export async function purgeExpiredIdempotencyKeys(supabase: SupabaseClient): Promise<void> {
+  await supabase.from('idempotency_keys').delete().lt('expires_at', new Date().toISOString());
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+function replay(stored: StoredResponse, requestHash: string, corsHeaders: CorsHeaders): Response {
+  if (stored.request_hash !== requestHash) {
+    return jsonResponse(
+      {
+        error: 'Idempotency key reused',
+        message: 'This Idempotency-Key was already used with a different request body',
+      },
+      corsHeaders,
+      422
+    );
+  }
+
+  if (stored.response_status === null) {
+    const response = jsonResponse(
+      { error: 'Conflict', message: 'A request with this Idempotency-Key is still in progress' },
+      corsHeaders,
+      409
+    );
+    response.headers.set('Retry-After', '1');
+    return response;
+  }
+
+  return new Response(stored.response_body, {
+    status: stored.response_status,
+    headers: {
+      'Content-Type': stored.content_type ?? 'application/json',
+      'Idempotent-Replayed': 'true',
+      ...corsHeaders,
+    },
+  });
+}
+
+function parseBody(body: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -6,48 +6,73 @@
  * - Supabase (source of truth)
  * - Studio PWA (iPad)
  * - Companion/vMix (timecode control)
+ *
+ * Data access goes through a Repository (src/repository.ts); with
+ * STORAGE = "sqlite" the worker runs offline against a local database.
  */
 
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-
-interface Env {
-  SUPABASE_URL: string;
-  SUPABASE_SERVICE_KEY: string;
-  SHEETS_WEBHOOK_SECRET: string;
-  ENVIRONMENT: string;
-}
-
-interface SyncPayload {
-  source: 'sheets' | 'studio' | 'companion';
-  action: 'create' | 'update' | 'delete' | 'batch_sync';
-  entity_type: 'post' | 'person' | 'program';
-  data: any;
-  version?: number;
-  timestamp?: string;
-}
-
-interface Post {
-  post_id: string;
-  program_nr: number;
-  sort_order: number;
-  type_key?: string;
-  title?: string;
-  duration_sec?: number;
-  people_ids?: string[];
-  location?: string;
-  recording_day?: string;
-  status?: string;
-  notes?: string;
-  version: number;
-  last_modified_by: string;
-}
+import { createClient } from '@supabase/supabase-js';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { BatchConflict, CompanionPayload, Env, Post, SyncPayload } from './types';
+import {
+  DEFAULT_FRAME_RATE,
+  durationFrames,
+  FrameRate,
+  framesToSeconds,
+  isFrameRate,
+  validateTimecode,
+} from './timecode';
+import {
+  POST_ID_PATTERN,
+  validateCompanionPayload,
+  validatePost,
+  validateSheetsPayload,
+  validateStudioPayload,
+} from './validation';
+import { handleSheetsState, handleSyncStatus, reconcileSyncStatus } from './sync-status';
+import { handleEntitySync } from './entities';
+import { mergeUpdatePost } from './merge';
+import { handleGetPostHistory, handlePostRevert } from './history';
+import { handleGetTrash, handlePurgeTrash, handleRestorePost } from './trash';
+import { handleCompanionAction } from './companion';
+import { ApiClient, authenticateClient, checkScope, COMPANION_ACTION_SCOPES, requiredScope } from './auth';
+import { handleClients, handleRevokeClient } from './clients';
+import { enforceRateLimit, routeClass } from './rate-limit';
+import { purgeExpiredIdempotencyKeys, withIdempotency } from './idempotency';
+import { handleExportEdl } from './edl';
+import { handleDurationAnalytics } from './analytics';
+import { handleEvents, purgeOldEvents } from './events';
+import { handleRunningOrder } from './running-order';
+import { handleRundownTiming } from './timing';
+import { handleSchedule, handleSessions } from './sessions';
+import { handleCallSheet } from './call-sheet';
+import { bookingConflictsFor, handleBookingConflicts } from './conflicts';
+import { handleTakes, TakeUpdate, updateTake, validateTakeUpdate } from './takes';
+import { createRepository, Repository } from './repository';
+import { SupabaseRepository } from './repository-supabase';
+import { handlePullFromSupabase, handlePushToSupabase, offlineUnavailableResponse } from './offline';
+import { checkApproval, handlePostStatus, statusTransitionError } from './status';
+import { handleUsers } from './users';
+import {
+  deliverPendingWebhooks,
+  handleWebhookDeliveries,
+  handleWebhookReplay,
+  handleWebhookTargets,
+  purgeDeliveredWebhooks,
+} from './webhooks';
+
+// Durable Objects måste exporteras från huvudmodulen
+export { RateLimiter } from './rate-limit';
+
+// Måste stämma med crons i wrangler.toml
+const RECONCILE_CRON = '*/5 * * * *';
 
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
 
@@ -55,7 +80,7 @@ export default {
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Webhook-Secret',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Api-Key, X-Webhook-Secret, Idempotency-Key',
     };
 
     // Handle CORS preflight
@@ -64,37 +89,70 @@ export default {
     }
 
     try {
-      const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+      let repo = createRepository(env);
+
+      // Sheets, offlinesynk och administration av klienter, användare och webhooks använder webhook-hemligheten
+      const isAdminRoute = path.startsWith('/api/clients') || path.startsWith('/api/webhooks') || path === '/api/users'
+        || path === '/sync/pull-from-supabase' || path === '/sync/push-to-supabase';
+      // Sheets hämtar alla poster (pullAllFromSupabase i Sync.gs) med hemligheten istället för en API-nyckel
+      const isSheetsPull = path === '/api/posts' && request.method === 'GET' && request.headers.has('X-Webhook-Secret');
+      const usesWebhookSecret = path === '/sync/from-sheets' || path === '/sync/sheets-state' || isAdminRoute || isSheetsPull;
+      if (usesWebhookSecret && request.headers.get('X-Webhook-Secret') !== env.SHEETS_WEBHOOK_SECRET) {
+        return jsonResponse({ error: 'Unauthorized' }, corsHeaders, 401);
+      }
 
-      // Route handling
-      switch (path) {
-        case '/health':
-          return jsonResponse({ status: 'ok', environment: env.ENVIRONMENT }, corsHeaders);
+      // API-nyckel eller inloggad användare för Companion-, Studio- och API-routes
+      let client: ApiClient | null = null;
+      const scope = isSheetsPull ? undefined : requiredScope(path, request.method);
+
+      if (scope !== undefined) {
+        client = await authenticateClient(request, repo, env.SUPABASE_JWT_SECRET);
+        if (!client) {
+          return jsonResponse(
+            { error: 'Unauthorized', message: 'Missing, unknown or revoked API key, or invalid access token' },
+            corsHeaders,
+            401
+          );
+        }
 
-        case '/sync/from-sheets':
-          return handleSheetsSync(request, supabase, env, corsHeaders);
+        if (scope) {
+          const denied = checkScope(client, scope, corsHeaders);
+          if (denied) return denied;
+        }
 
-        case '/sync/from-studio':
-          return handleStudioSync(request, supabase, corsHeaders);
+        repo = createRepository(env, client);
+      }
 
-        case '/sync/from-companion':
-          return handleCompanionSync(request, supabase, corsHeaders);
+      const caller = client?.name
+        ?? (usesWebhookSecret ? 'sheets' : request.headers.get('CF-Connecting-IP') ?? 'anonymous');
 
-        case '/api/posts':
-          return handleGetPosts(request, supabase, corsHeaders);
+      // Token bucket per klient (eller IP för routes utan API-nyckel)
+      const limitClass = routeClass(path, request.method);
+      if (limitClass) {
+        const limited = await enforceRateLimit(env, limitClass, caller, corsHeaders);
+        if (limited) return limited;
+      }
 
-        case '/api/post':
-          return handlePostOperation(request, supabase, corsHeaders);
+      // Offline finns varken idempotensnycklar eller webhooks
+      if (!(repo instanceof SupabaseRepository)) {
+        return await routeRequest(request, path, repo, env, client, corsHeaders);
+      }
 
-        case '/api/schedule':
-          return handleGetSchedule(request, supabase, corsHeaders);
+      const supabase = repo.client;
 
-        case '/api/stats':
-          return handleGetStats(supabase, corsHeaders);
+      // Administration sparas inte: svaren innehåller nycklar i klartext
+      const response = isAdminRoute
+        ? await routeRequest(request, path, repo, env, client, corsHeaders)
+        : await withIdempotency(request, supabase, caller, corsHeaders, () =>
+            routeRequest(request, path, repo, env, client, corsHeaders)
+          );
 
-        default:
-          return jsonResponse({ error: 'Not found' }, corsHeaders, 404);
+      // Skicka köade webhooks efter skrivningar utan att fördröja svaret
+      if (request.method !== 'GET') {
+        ctx.waitUntil(deliverPendingWebhooks(supabase));
       }
+
+      return response;
     } catch (error) {
       console.error('Worker error:', error);
       return jsonResponse(
@@ -104,38 +162,204 @@ export default {
       );
     }
   },
+
+  /**
+   * Cron triggers: every minute retry due webhook deliveries; every five
+   * minutes reconcile sync status and prune expired rows. Nothing to do
+   * offline.
+   */
+  async scheduled(controller: ScheduledController, env: Env): Promise<void> {
+    if (env.STORAGE === 'sqlite') return;
+
+    const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+    if (controller.cron !== RECONCILE_CRON) {
+      await deliverPendingWebhooks(supabase);
+      return;
+    }
+
+    await reconcileSyncStatus(supabase);
+    await purgeExpiredIdempotencyKeys(supabase);
+    await purgeDeliveredWebhooks(supabase);
+    await purgeOldEvents(supabase);
+  },
 };
 
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+async function routeRequest(
+  request: Request,
+  path: string,
+  repo: Repository,
+  env: Env,
+  client: ApiClient | null,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  switch (path) {
+    case '/health':
+      return jsonResponse({ status: 'ok', environment: env.ENVIRONMENT, storage: repo.backend }, corsHeaders);
+
+    case '/sync/from-studio':
+      return handleStudioSync(request, repo, client!, corsHeaders);
+
+    case '/sync/from-companion':
+      return handleCompanionSync(request, repo, client!, corsHeaders);
+
+    case '/sync/pull-from-supabase':
+      return handlePullFromSupabase(request, repo, env, corsHeaders);
+
+    case '/sync/push-to-supabase':
+      return handlePushToSupabase(request, repo, env, corsHeaders);
+
+    case '/api/posts':
+      return handleGetPosts(request, repo, corsHeaders);
+
+    case '/api/post':
+      return handlePostOperation(request, repo, client!, corsHeaders);
+
+    case '/api/post/status':
+      return handlePostStatus(request, repo, client!, corsHeaders);
+
+    case '/api/takes':
+      return handleTakes(request, repo, corsHeaders);
+
+    case '/api/export/edl':
+      return handleExportEdl(request, repo, corsHeaders);
+
+    case '/api/schedule':
+      return handleSchedule(request, repo, corsHeaders);
+
+    case '/api/schedule/conflicts':
+      return handleBookingConflicts(request, repo, corsHeaders);
+
+    case '/api/sessions':
+      return handleSessions(request, repo, corsHeaders);
+
+    case '/api/call-sheet':
+      return handleCallSheet(request, repo, env, corsHeaders);
+
+    case '/api/stats':
+      return handleGetStats(repo, corsHeaders);
+
+    case '/api/rundown/timing':
+      return handleRundownTiming(request, repo, corsHeaders);
+
+    case '/api/analytics/durations':
+      return handleDurationAnalytics(request, repo, corsHeaders);
+  }
+
+  if (!(repo instanceof SupabaseRepository)) {
+    return offlineUnavailableResponse(path, corsHeaders);
+  }
+
+  return routeSupabaseRequest(request, path, repo, env, client, corsHeaders);
+}
+
+/**
+ * Routes built on Supabase triggers, RPCs and the audit log.
+ */
+async function routeSupabaseRequest(
+  request: Request,
+  path: string,
+  repo: SupabaseRepository,
+  env: Env,
+  client: ApiClient | null,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const supabase = repo.client;
+
+  switch (path) {
+    case '/sync/from-sheets':
+      return handleSheetsSync(request, repo, env, corsHeaders);
+
+    case '/sync/sheets-state':
+      return handleSheetsState(request, supabase, corsHeaders);
+
+    case '/api/clients':
+      return handleClients(request, supabase, corsHeaders);
+
+    case '/api/clients/revoke':
+      return handleRevokeClient(request, supabase, corsHeaders);
+
+    case '/api/users':
+      return handleUsers(request, supabase, corsHeaders);
+
+    case '/api/webhooks':
+      return handleWebhookTargets(request, supabase, corsHeaders);
+
+    case '/api/webhooks/deliveries':
+      return handleWebhookDeliveries(request, supabase, corsHeaders);
+
+    case '/api/webhooks/replay':
+      return handleWebhookReplay(request, supabase, corsHeaders);
+
+    case '/api/post/history':
+      return handleGetPostHistory(request, supabase, corsHeaders);
+
+    case '/api/post/revert':
+      return handlePostRevert(request, supabase, client!, corsHeaders);
+
+    case '/api/running-order':
+      return handleRunningOrder(request, supabase, corsHeaders);
+
+    case '/api/trash':
+      return handleGetTrash(request, supabase, corsHeaders);
+
+    case '/api/trash/restore':
+      return handleRestorePost(request, supabase, corsHeaders);
+
+    case '/api/trash/purge':
+      return handlePurgeTrash(request, supabase, corsHeaders);
+
+    case '/events':
+      return handleEvents(request, supabase, corsHeaders);
+
+    case '/api/sync/status':
+      return handleSyncStatus(request, supabase, corsHeaders);
+
+    default:
+      return jsonResponse({ error: 'Not found' }, corsHeaders, 404);
+  }
+}
+
 // ============================================================================
 // SYNC HANDLERS
 // ============================================================================
 
 async function handleSheetsSync(
   request: Request,
-  supabase: SupabaseClient,
+  repo: SupabaseRepository,
   env: Env,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
-  // Verify webhook secret
-  const secret = request.headers.get('X-Webhook-Secret');
-  if (secret !== env.SHEETS_WEBHOOK_SECRET) {
-    return jsonResponse({ error: 'Unauthorized' }, corsHeaders, 401);
+  const body = await readJsonBody(request);
+  const errors = validateSheetsPayload(body);
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
   }
 
-  const payload: SyncPayload = await request.json();
+  const payload = body as SyncPayload;
+
+  if (payload.entity_type === 'person' || payload.entity_type === 'program') {
+    return handleEntitySync(payload, repo.client, env, corsHeaders);
+  }
 
   switch (payload.action) {
     case 'create':
-      return syncCreatePost(payload.data, supabase, corsHeaders);
+      return syncCreatePost(payload.data as Post, repo, corsHeaders);
 
     case 'update':
-      return syncUpdatePost(payload.data, supabase, corsHeaders);
+      return syncUpdatePost(payload.data as Partial<Post> & { post_id: string }, repo, corsHeaders, {
+        merge: payload.merge === true,
+      });
 
     case 'delete':
-      return syncDeletePost(payload.data.post_id, supabase, corsHeaders);
+      return syncDeletePost((payload.data as { post_id: string }).post_id, repo, corsHeaders);
 
     case 'batch_sync':
-      return syncBatchFromSheets(payload.data, supabase, corsHeaders);
+      return syncBatchFromSheets(payload.data as Post[], payload.atomic === true, repo, corsHeaders);
 
     default:
       return jsonResponse({ error: 'Unknown action' }, corsHeaders, 400);
@@ -144,27 +368,37 @@ async function handleSheetsSync(
 
 async function handleStudioSync(
   request: Request,
-  supabase: SupabaseClient,
+  repo: Repository,
+  client: ApiClient,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
-  const payload: SyncPayload = await request.json();
+  const body = await readJsonBody(request);
+  const errors = validateStudioPayload(body);
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const payload = body as SyncPayload;
 
   // Studio kan bara uppdatera status och notes
   if (payload.action === 'update') {
-    const { post_id, status, notes } = payload.data;
+    const { post_id, status, notes } = payload.data as Pick<Post, 'post_id' | 'status' | 'notes'>;
 
-    const { data: existing, error: fetchError } = await supabase
-      .from('posts')
-      .select('version')
-      .eq('post_id', post_id)
-      .single();
+    const existing = await repo.getPost(post_id, { include_deleted: true });
 
-    if (fetchError) {
+    if (!existing) {
       return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
     }
 
-    // Optimistic locking check
+    const denied = checkApproval(client, existing.status, status, corsHeaders);
+    if (denied) return denied;
+
+    // Optimistic locking check (merge kräver audit_log och finns bara i Supabase)
     if (payload.version && payload.version < existing.version) {
+      if (payload.merge && repo instanceof SupabaseRepository) {
+        return mergeUpdatePost(post_id, payload.version, { status, notes }, 'studio', repo.client, corsHeaders);
+      }
+
       return jsonResponse(
         {
           error: 'Conflict',
@@ -177,19 +411,20 @@ async function handleStudioSync(
       );
     }
 
-    const { data, error } = await supabase
-      .from('posts')
-      .update({
-        status,
-        notes,
-        last_modified_by: 'studio',
-      })
-      .eq('post_id', post_id)
-      .select()
-      .single();
-
-    if (error) {
-      return jsonResponse({ error: error.message }, corsHeaders, 500);
+    const transitionError = status && statusTransitionError(existing.status, status, 'data.status');
+    if (transitionError) {
+      return validationErrorResponse([transitionError], corsHeaders);
+    }
+
+    // Versions- och statusvakten fångar en annan klient som hann ändra posten
+    const data = await repo.updatePost(
+      post_id,
+      { status, notes, last_modified_by: 'studio' },
+      { version: existing.version, from_status: [existing.status!] }
+    );
+
+    if (!data) {
+      return jsonResponse({ error: 'Conflict', message: 'Post changed during update, retry' }, corsHeaders, 409);
     }
 
     return jsonResponse({ success: true, data }, corsHeaders);
@@ -200,58 +435,133 @@ async function handleStudioSync(
 
 async function handleCompanionSync(
   request: Request,
-  supabase: SupabaseClient,
+  repo: Repository,
+  client: ApiClient,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
-  const payload = await request.json();
-  const { action, post_id, tc_in, tc_out, clip_nr, operator } = payload;
+  const payload = await readJsonBody(request);
+  const errors = validateCompanionPayload(payload);
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const { action, post_id, tc_in, tc_out, clip_nr, operator } = payload as CompanionPayload;
+
+  const denied = checkScope(client, COMPANION_ACTION_SCOPES[action], corsHeaders);
+  if (denied) return denied;
+
+  if (action === 'select_take' || action === 'take_verdict') {
+    const { take_nr, verdict, notes } = payload as CompanionPayload;
+    const update: TakeUpdate = { post_id, take_nr, verdict, notes };
+    if (action === 'select_take') update.selected = true;
+
+    const takeErrors = validateTakeUpdate(update);
+    if (takeErrors.length > 0) {
+      return validationErrorResponse(takeErrors, corsHeaders);
+    }
+
+    return updateTake(update, repo, corsHeaders);
+  }
+
+  if (action !== 'tc_in' && action !== 'tc_out') {
+    return handleCompanionAction(payload as CompanionPayload, repo, client, corsHeaders);
+  }
 
   if (action === 'tc_in') {
-    // Logga TC-IN
-    await supabase.from('tc_log').insert({
+    if (!(await repo.getPost(post_id))) {
+      return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
+    }
+
+    const frameRate = await getProgramFrameRate(post_id, repo);
+
+    const tcError = validateTimecode(tc_in, frameRate);
+    if (tcError) {
+      return validationErrorResponse([{ field: 'tc_in', message: tcError }], corsHeaders);
+    }
+
+    // Logga TC-IN som ny tagning (numret sätts av databasen)
+    const take = await repo.insertTake({
       post_id,
-      operator,
-      tc_in,
-      clip_nr,
+      operator: operator ?? client.name,
+      tc_in: tc_in ?? null,
+      clip_nr: clip_nr === undefined ? null : Number(clip_nr),
+      frame_rate: frameRate,
     });
 
-    // Uppdatera post status
-    await supabase
-      .from('posts')
-      .update({ status: 'recording', last_modified_by: 'companion' })
-      .eq('post_id', post_id);
+    // Uppdatera post status (en godkänd post förblir godkänd vid extratagning)
+    await repo.updatePost(
+      post_id,
+      { status: 'recording', last_modified_by: 'companion' },
+      { from_status: ['planerad', 'inspelad'] }
+    );
 
-    return jsonResponse({ success: true, action: 'tc_in' }, corsHeaders);
+    return jsonResponse(
+      { success: true, action: 'tc_in', take_nr: take.take_nr, frame_rate: frameRate },
+      corsHeaders
+    );
   }
 
   if (action === 'tc_out') {
     // Uppdatera senaste TC-log entry
-    const { data: lastEntry } = await supabase
-      .from('tc_log')
-      .select('id, tc_in')
-      .eq('post_id', post_id)
-      .is('tc_out', null)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
+    const lastEntry = await repo.latestTake(post_id, { open_only: true });
 
-    if (lastEntry) {
-      // Beräkna duration
-      const durationSec = calculateTcDuration(lastEntry.tc_in, tc_out);
+    // Takens egen bildfrekvens gäller, även om programmet ändrats sedan TC-IN
+    const frameRate = isFrameRate(lastEntry?.frame_rate)
+      ? lastEntry.frame_rate
+      : await getProgramFrameRate(post_id, repo);
 
-      await supabase
-        .from('tc_log')
-        .update({ tc_out, duration_sec: durationSec })
-        .eq('id', lastEntry.id);
+    const tcError = validateTimecode(tc_out, frameRate);
+    if (tcError) {
+      return validationErrorResponse([{ field: 'tc_out', message: tcError }], corsHeaders);
+    }
+
+    let duration: { duration_frames: number | null; duration_sec: number | null } | null = null;
+    const tcInError = lastEntry ? validateTimecode(lastEntry.tc_in, frameRate) : null;
+
+    if (lastEntry) {
+      // Går TC-IN inte att läsa stängs tagningen ändå, utan längd
+      const frames = tcInError === null
+        ? durationFrames(lastEntry.tc_in as string, tc_out as string, frameRate)
+        : null;
+      duration = {
+        duration_frames: frames,
+        duration_sec: frames === null ? null : Math.round(framesToSeconds(frames, frameRate)),
+      };
+
+      await repo.updateTake(post_id, lastEntry.take_nr, { tc_out, frame_rate: frameRate, ...duration });
     }
 
-    // Uppdatera post status
-    await supabase
-      .from('posts')
-      .update({ status: 'inspelad', last_modified_by: 'companion' })
-      .eq('post_id', post_id);
+    // Uppdatera post status (bara en pågående inspelning blir inspelad)
+    await repo.updatePost(
+      post_id,
+      { status: 'inspelad', last_modified_by: 'companion' },
+      { from_status: ['recording'] }
+    );
 
-    return jsonResponse({ success: true, action: 'tc_out' }, corsHeaders);
+    if (tcInError) {
+      return jsonResponse(
+        {
+          error: 'Take closed without duration',
+          message: `Stored tc_in ${lastEntry?.tc_in} is not valid at ${frameRate}: ${tcInError}`,
+          take_nr: lastEntry?.take_nr ?? null,
+          frame_rate: frameRate,
+          ...duration,
+        },
+        corsHeaders,
+        422
+      );
+    }
+
+    return jsonResponse(
+      {
+        success: true,
+        action: 'tc_out',
+        take_nr: lastEntry?.take_nr ?? null,
+        frame_rate: frameRate,
+        ...duration,
+      },
+      corsHeaders
+    );
   }
 
   return jsonResponse({ error: 'Invalid action' }, corsHeaders, 400);
@@ -263,48 +573,51 @@ async function handleCompanionSync(
 
 async function syncCreatePost(
   data: Post,
-  supabase: SupabaseClient,
+  repo: Repository,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
-  const { data: newPost, error } = await supabase
-    .from('posts')
-    .insert({
-      ...data,
-      last_modified_by: 'sheets',
-    })
-    .select()
-    .single();
-
-  if (error) {
-    return jsonResponse({ error: error.message }, corsHeaders, 500);
-  }
+  const newPost = await repo.insertPost({
+    ...data,
+    last_modified_by: 'sheets',
+  });
 
   // Update sync status
-  await updateSyncStatus(supabase, 'post', data.post_id, 'sheets');
+  await repo.recordSyncStatus('post', data.post_id, 'sheets');
 
-  return jsonResponse({ success: true, data: newPost }, corsHeaders);
+  return jsonResponse(
+    { success: true, data: newPost, booking_conflicts: await bookingConflictsFor(repo, [newPost]) },
+    corsHeaders
+  );
 }
 
 async function syncUpdatePost(
   data: Partial<Post> & { post_id: string; version?: number },
-  supabase: SupabaseClient,
-  corsHeaders: Record<string, string>
+  repo: Repository,
+  corsHeaders: Record<string, string>,
+  options: { merge?: boolean; client?: ApiClient } = {}
 ): Promise<Response> {
   const { post_id, version, ...updates } = data;
 
+  // PUT /api/post skrivs som 'api' (klientens namn sätts av repositoryt), Sheets som 'sheets'
+  const source = options.client ? 'api' : 'sheets';
+
   // Fetch current version for conflict detection
-  const { data: existing, error: fetchError } = await supabase
-    .from('posts')
-    .select('version, last_modified_by, updated_at')
-    .eq('post_id', post_id)
-    .single();
+  const existing = await repo.getPost(post_id, { include_deleted: true });
 
-  if (fetchError) {
+  if (!existing) {
     return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
   }
 
-  // Conflict detection: if incoming version is older, reject
+  // Sheets skickar ingen klient; PUT /api/post gör det
+  const denied = checkApproval(options.client ?? null, existing.status, updates.status, corsHeaders);
+  if (denied) return denied;
+
+  // Conflict detection: if incoming version is older, merge (online only) or reject
   if (version !== undefined && version < existing.version) {
+    if (options.merge && repo instanceof SupabaseRepository) {
+      return mergeUpdatePost(post_id, version, updates, source, repo.client, corsHeaders);
+    }
+
     return jsonResponse(
       {
         error: 'Conflict',
@@ -319,93 +632,99 @@ async function syncUpdatePost(
     );
   }
 
-  // Apply update
-  const { data: updated, error: updateError } = await supabase
-    .from('posts')
-    .update({
-      ...updates,
-      last_modified_by: 'sheets',
-    })
-    .eq('post_id', post_id)
-    .select()
-    .single();
+  if (updates.status) {
+    const transitionError = statusTransitionError(existing.status, updates.status);
+    if (transitionError) {
+      return validationErrorResponse([transitionError], corsHeaders);
+    }
+  }
+
+  // Apply update, guarded on the version and status just read so a
+  // concurrent edit yields a 409 instead of a lost update
+  const updated = await repo.updatePost(
+    post_id,
+    { ...updates, last_modified_by: source },
+    { version: existing.version, from_status: [existing.status!] }
+  );
 
-  if (updateError) {
-    return jsonResponse({ error: updateError.message }, corsHeaders, 500);
+  if (!updated) {
+    return jsonResponse({ error: 'Conflict', message: 'Post changed during update, retry' }, corsHeaders, 409);
   }
 
-  await updateSyncStatus(supabase, 'post', post_id, 'sheets');
+  await repo.recordSyncStatus('post', post_id, source);
 
-  return jsonResponse({ success: true, data: updated }, corsHeaders);
+  return jsonResponse(
+    { success: true, data: updated, booking_conflicts: await bookingConflictsFor(repo, [updated]) },
+    corsHeaders
+  );
 }
 
 async function syncDeletePost(
   postId: string,
-  supabase: SupabaseClient,
+  repo: Repository,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
   // Soft delete
-  const { error } = await supabase
-    .from('posts')
-    .update({
+  const deleted = await repo.updatePost(
+    postId,
+    {
       deleted_at: new Date().toISOString(),
       deleted_by: 'sheets',
       last_modified_by: 'sheets',
-    })
-    .eq('post_id', postId);
+    },
+    { active_only: true }
+  );
 
-  if (error) {
-    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  if (!deleted) {
+    return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
   }
 
   return jsonResponse({ success: true }, corsHeaders);
 }
 
+/**
+ * Upsert a whole batch in one round trip via sync_posts_batch().
+ * With `atomic` nothing is written if any row conflicts or fails.
+ */
 async function syncBatchFromSheets(
   posts: Post[],
-  supabase: SupabaseClient,
+  atomic: boolean,
+  repo: SupabaseRepository,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
-  const results = {
-    created: 0,
-    updated: 0,
-    conflicts: [] as string[],
-    errors: [] as string[],
-  };
+  const { data: report, error } = await repo.client.rpc('sync_posts_batch', {
+    p_posts: posts,
+    p_atomic: atomic,
+    p_source: 'sheets',
+  });
 
-  for (const post of posts) {
-    try {
-      // Check if exists
-      const { data: existing } = await supabase
-        .from('posts')
-        .select('id, version')
-        .eq('post_id', post.post_id)
-        .single();
-
-      if (existing) {
-        // Update with conflict check
-        if (post.version && post.version < existing.version) {
-          results.conflicts.push(post.post_id);
-          continue;
-        }
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
 
-        await supabase
-          .from('posts')
-          .update({ ...post, last_modified_by: 'sheets' })
-          .eq('post_id', post.post_id);
+  const results = {
+    applied: report.applied as boolean,
+    created: (report.created as string[]).length,
+    updated: (report.updated as string[]).length,
+    created_ids: report.created as string[],
+    updated_ids: report.updated as string[],
+    conflicts: report.conflicts as BatchConflict[],
+    errors: report.errors as { post_id: string; message: string; code: string }[],
+  };
 
-        results.updated++;
-      } else {
-        // Create new
-        await supabase.from('posts').insert({ ...post, last_modified_by: 'sheets' });
-        results.created++;
-      }
-    } catch (err) {
-      results.errors.push(`${post.post_id}: ${(err as Error).message}`);
-    }
+  // Atomiskt läge som inte gick igenom: inget skrevs. Konflikter ger 409,
+  // ogiltiga rader (SQLSTATE 22, 23 och RAISE) 422 och övriga databasfel 500
+  if (atomic && !results.applied) {
+    const status = results.conflicts.length > 0 ? 409
+      : results.errors.every((rowError) => /^(22|23|P0)/.test(rowError.code)) ? 422
+      : 500;
+    return jsonResponse({ success: false, error: 'Batch rejected', results }, corsHeaders, status);
   }
 
-  return jsonResponse({ success: true, results }, corsHeaders);
+  const applied = new Set([...results.created_ids, ...results.updated_ids]);
+  const bookingConflicts = await bookingConflictsFor(repo, posts.filter((post) => applied.has(post.post_id)));
+
+  return jsonResponse({ success: true, results, booking_conflicts: bookingConflicts }, corsHeaders);
 }
 
 // ============================================================================
@@ -414,38 +733,25 @@ async function syncBatchFromSheets(
 
 async function handleGetPosts(
   request: Request,
-  supabase: SupabaseClient,
+  repo: Repository,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
   const url = new URL(request.url);
   const programNr = url.searchParams.get('program');
   const status = url.searchParams.get('status');
 
-  let query = supabase
-    .from('posts_active')
-    .select('*')
-    .order('sort_order');
-
-  if (programNr) {
-    query = query.eq('program_nr', parseInt(programNr));
-  }
-
-  if (status) {
-    query = query.eq('status', status);
-  }
-
-  const { data, error } = await query;
-
-  if (error) {
-    return jsonResponse({ error: error.message }, corsHeaders, 500);
-  }
+  const posts = await repo.listPosts({
+    program_nr: programNr ? parseInt(programNr) : null,
+    status,
+  });
 
-  return jsonResponse({ success: true, posts: data }, corsHeaders);
+  return jsonResponse({ success: true, posts }, corsHeaders);
 }
 
 async function handlePostOperation(
   request: Request,
-  supabase: SupabaseClient,
+  repo: Repository,
+  client: ApiClient,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
   if (request.method === 'GET') {
@@ -456,107 +762,51 @@ async function handlePostOperation(
       return jsonResponse({ error: 'Missing post id' }, corsHeaders, 400);
     }
 
-    const { data, error } = await supabase
-      .from('posts_active')
-      .select('*')
-      .eq('post_id', postId)
-      .single();
+    const post = await repo.getPost(postId);
 
-    if (error) {
+    if (!post) {
       return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
     }
 
-    return jsonResponse({ success: true, post: data }, corsHeaders);
+    return jsonResponse({ success: true, post }, corsHeaders);
   }
 
   if (request.method === 'PUT') {
-    const payload = await request.json();
-    return syncUpdatePost(payload, supabase, corsHeaders);
-  }
-
-  return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
-}
-
-async function handleGetSchedule(
-  request: Request,
-  supabase: SupabaseClient,
-  corsHeaders: Record<string, string>
-): Promise<Response> {
-  const url = new URL(request.url);
-  const day = url.searchParams.get('day') || 'dag1';
-
-  const { data, error } = await supabase
-    .from('recording_schedule')
-    .select('*')
-    .eq('recording_day', day);
+    const payload = await readJsonBody(request);
+    const errors = validatePost(payload, { partial: true });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors, corsHeaders);
+    }
 
-  if (error) {
-    return jsonResponse({ error: error.message }, corsHeaders, 500);
+    const url = new URL(request.url);
+    return syncUpdatePost(payload as Partial<Post> & { post_id: string }, repo, corsHeaders, {
+      merge: url.searchParams.get('merge') === 'true',
+      client,
+    });
   }
 
-  return jsonResponse({ success: true, schedule: data }, corsHeaders);
+  return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
 }
 
 async function handleGetStats(
-  supabase: SupabaseClient,
+  repo: Repository,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
-  const { data, error } = await supabase
-    .from('program_stats')
-    .select('*');
+  const stats = await repo.programStats();
 
-  if (error) {
-    return jsonResponse({ error: error.message }, corsHeaders, 500);
-  }
-
-  return jsonResponse({ success: true, stats: data }, corsHeaders);
+  return jsonResponse({ success: true, stats }, corsHeaders);
 }
 
 // ============================================================================
 // HELPERS
 // ============================================================================
 
-function jsonResponse(
-  data: object,
-  corsHeaders: Record<string, string>,
-  status = 200
-): Response {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: {
-      'Content-Type': 'application/json',
-      ...corsHeaders,
-    },
-  });
-}
-
-async function updateSyncStatus(
-  supabase: SupabaseClient,
-  entityType: string,
-  entityId: string,
-  source: string
-): Promise<void> {
-  const now = new Date().toISOString();
-
-  await supabase.from('sync_status').upsert(
-    {
-      entity_type: entityType,
-      entity_id: entityId,
-      [`last_${source}_sync`]: now,
-      [`${source}_version`]: supabase.rpc('increment', { row_id: entityId }),
-      updated_at: now,
-    },
-    { onConflict: 'entity_type,entity_id' }
-  );
-}
-
-function calculateTcDuration(tcIn: string, tcOut: string): number {
-  // Parse HH:MM:SS:FF format
-  const parseTC = (tc: string) => {
-    const parts = tc.split(':').map(Number);
-    return parts[0] * 3600 + parts[1] * 60 + parts[2] + parts[3] / 25; // 25 fps
-  };
+/**
+ * Frame rate configured for the programme a post belongs to.
+ */
+async function getProgramFrameRate(postId: string, repo: Repository): Promise<FrameRate> {
+  const programNr = Number(POST_ID_PATTERN.exec(postId)?.[1]);
+  const program = await repo.getProgram(programNr);
 
-  const duration = parseTC(tcOut) - parseTC(tcIn);
-  return Math.max(0, Math.round(duration));
+  return isFrameRate(program?.frame_rate) ? program.frame_rate : DEFAULT_FRAME_RATE;
 }
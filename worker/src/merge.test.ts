@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { threeWayMerge } from './merge';
+
+const BASE = { post_id: 'P1:5', version: 3, title: 'Psalm', notes: null, people_ids: ['P001'], duration_sec: 120 };
+
+describe('threeWayMerge', () => {
+  it('takes our change when the server left the field alone', () => {
+    const theirs = { ...BASE, version: 4, notes: 'Kör två verser' };
+
+    expect(threeWayMerge(BASE, { title: 'Psalm 2' }, theirs)).toEqual({
+      changes: { title: 'Psalm 2' },
+      collisions: [],
+    });
+  });
+
+  it('skips fields we did not change or that already match the server', () => {
+    const theirs = { ...BASE, version: 4, title: 'Psalm 2' };
+
+    expect(threeWayMerge(BASE, { title: 'Psalm 2', duration_sec: 120 }, theirs)).toEqual({
+      changes: {},
+      collisions: [],
+    });
+  });
+
+  it('reports a collision when both sides changed the same field', () => {
+    const theirs = { ...BASE, version: 4, duration_sec: 90 };
+
+    expect(threeWayMerge(BASE, { duration_sec: 150, notes: 'Ny' }, theirs)).toEqual({
+      changes: { notes: 'Ny' },
+      collisions: [{ field: 'duration_sec', base: 120, mine: 150, theirs: 90 }],
+    });
+  });
+
+  it('compares arrays by value and treats missing fields as null', () => {
+    const theirs = { ...BASE, version: 4, people_ids: ['P001', 'P002'] };
+
+    expect(threeWayMerge(BASE, { people_ids: ['P001'], location: 'Kyrkan' }, theirs)).toEqual({
+      changes: { location: 'Kyrkan' },
+      collisions: [],
+    });
+    expect(threeWayMerge(BASE, { people_ids: ['P003'] }, theirs).collisions).toEqual([
+      { field: 'people_ids', base: ['P001'], mine: ['P003'], theirs: ['P001', 'P002'] },
+    ]);
+  });
+
+  it('never merges metadata columns', () => {
+    const theirs = { ...BASE, version: 4 };
+    const mine = { post_id: 'P1:6', version: 9, last_modified_by: 'sheets', updated_at: '2026-01-01', title: undefined };
+
+    expect(threeWayMerge(BASE, mine, theirs)).toEqual({ changes: {}, collisions: [] });
+  });
+});
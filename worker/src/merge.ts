@@ -0,0 +1,179 @@
+/**
+ * Three-Way Merge
+ *
+ * Field-level merge for 409 conflicts. The audit_log row written when the
+ * post reached the client's base version is the common ancestor; fields
+ * changed on only one side merge automatically, and only true same-field
+ * collisions are returned to the client.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { bookingConflictsFor } from './conflicts';
+import { jsonResponse, validationErrorResponse } from './http';
+import { fetchPostAtVersion, valuesEqual } from './history';
+import { SupabaseRepository } from './repository-supabase';
+import { statusTransitionError } from './status';
+import { updateSyncStatus } from './sync-status';
+import { CorsHeaders } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FieldCollision {
+  field: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface MergeResult {
+  changes: Record<string, unknown>;
+  collisions: FieldCollision[];
+}
+
+// Metadata som aldrig ska mergas
+const IGNORED_FIELDS = [
+  'id', 'post_id', 'version', 'last_modified_by', 'last_modified_client', 'created_at', 'updated_at',
+];
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * Merge `mine` into `theirs` using `base` as common ancestor.
+ * Only fields present in `mine` are considered; `changes` holds the
+ * fields that should be written on top of the server row.
+ */
+export function threeWayMerge(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): MergeResult {
+  const changes: Record<string, unknown> = {};
+  const collisions: FieldCollision[] = [];
+
+  for (const [field, mineValue] of Object.entries(mine)) {
+    if (IGNORED_FIELDS.includes(field) || mineValue === undefined) continue;
+
+    const baseValue = base[field] ?? null;
+    const theirValue = theirs[field] ?? null;
+
+    // Oförändrat hos oss, eller redan samma värde som servern
+    if (valuesEqual(mineValue, baseValue) || valuesEqual(mineValue, theirValue)) continue;
+
+    if (valuesEqual(theirValue, baseValue)) {
+      changes[field] = mineValue;
+    } else {
+      collisions.push({ field, base: baseValue, mine: mineValue, theirs: theirValue });
+    }
+  }
+
+  return { changes, collisions };
+}
+
+/**
+ * Resolve a stale update by merging against the current row and writing
+ * the non-overlapping changes. The write is guarded on the server version
+ * it merged against, so a concurrent edit yields a fresh 409 rather than
+ * a lost update.
+ */
+export async function mergeUpdatePost(
+  postId: string,
+  baseVersion: number,
+  mine: Record<string, unknown>,
+  source: string,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const { data: theirs, error: fetchError } = await supabase
+    .from('posts')
+    .select('*')
+    .eq('post_id', postId)
+    .single();
+
+  if (fetchError) {
+    return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
+  }
+
+  const base = await fetchPostAtVersion(postId, baseVersion, supabase);
+
+  if (!base) {
+    return jsonResponse(
+      {
+        error: 'Conflict',
+        message: `No history for version ${baseVersion}, cannot merge`,
+        server_version: theirs.version,
+        your_version: baseVersion,
+      },
+      corsHeaders,
+      409
+    );
+  }
+
+  const { changes, collisions } = threeWayMerge(base, mine, theirs);
+
+  if (collisions.length > 0) {
+    return jsonResponse(
+      {
+        error: 'Conflict',
+        message: 'Same fields were changed on both sides',
+        server_version: theirs.version,
+        your_version: baseVersion,
+        collisions,
+      },
+      corsHeaders,
+      409
+    );
+  }
+
+  if ('status' in changes) {
+    const transitionError = statusTransitionError(theirs.status, changes.status as string);
+    if (transitionError) {
+      return validationErrorResponse([transitionError], corsHeaders);
+    }
+  }
+
+  const mergedFields = Object.keys(changes);
+
+  if (mergedFields.length === 0) {
+    return jsonResponse({ success: true, data: theirs, merged_fields: [] }, corsHeaders);
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('posts')
+    .update({ ...changes, last_modified_by: source })
+    .eq('post_id', postId)
+    .eq('version', theirs.version)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    return jsonResponse({ error: updateError.message }, corsHeaders, 500);
+  }
+
+  if (!updated) {
+    return jsonResponse(
+      {
+        error: 'Conflict',
+        message: 'Post changed again during merge, retry',
+        your_version: baseVersion,
+      },
+      corsHeaders,
+      409
+    );
+  }
+
+  await updateSyncStatus(supabase, 'post', postId, source);
+
+  return jsonResponse(
+    {
+      success: true,
+      data: updated,
+      merged_fields: mergedFields,
+      booking_conflicts: await bookingConflictsFor(new SupabaseRepository(supabase), [updated]),
+    },
+    corsHeaders
+  );
+}
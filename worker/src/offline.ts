@@ -0,0 +1,527 @@
+/**
+ * Offline Mode
+ *
+ * With `STORAGE = "sqlite"` the worker serves recording from a local D1
+ * database (see repository-sqlite.ts). Before the production the laptop
+ * pulls a snapshot from Supabase; afterwards it pushes the posts and
+ * takes that changed offline. Posts go through sync_posts_batch() with
+ * the version last seen in Supabase, so edits made online in the meantime
+ * are reported as conflicts instead of being overwritten. Status changes
+ * were checked locally; since several of them may collapse into one jump,
+ * the push is recorded in audit_log as an override with its reason.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { jsonResponse } from './http';
+import { Repository } from './repository';
+import { SqliteRepository } from './repository-sqlite';
+import { BatchConflict, CorsHeaders, Env } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SnapshotTable {
+  table: string;
+  columns: string;
+  order: string;
+}
+
+// Tabellerna i insättningsordning; kolumnerna finns i migrations/
+const SNAPSHOT_TABLES: SnapshotTable[] = [
+  {
+    table: 'programs',
+    columns: 'id, program_nr, location, start_date, broadcast_date, church_year, prod_nr, target_duration_sec, start_time, frame_rate, notes, created_at, updated_at, version, last_modified_by, last_modified_client',
+    order: 'program_nr',
+  },
+  {
+    table: 'post_types',
+    columns: 'id, type_key, display_name, default_duration_sec, icon, requires_people, requires_text_author, requires_composer, category, bg_colour, row_height, description',
+    order: 'type_key',
+  },
+  {
+    table: 'people',
+    columns: 'id, person_id, name, roles, contact, type, availability, created_at, updated_at, version, last_modified_by, last_modified_client',
+    order: 'person_id',
+  },
+  {
+    table: 'recording_sessions',
+    columns: 'id, session_key, name, session_date, start_time, end_time, location, notes, created_at, updated_at',
+    order: 'session_key',
+  },
+  {
+    table: 'posts',
+    columns: 'id, post_id, program_nr, type_key, sort_order, title, duration_sec, location, people_ids, text_author, composer, arranger, recording_day, recording_slot, recording_time, status, info_pos, graphics, notes, open_text, created_at, updated_at, version, last_modified_by, last_modified_client, deleted_at, deleted_by',
+    order: 'post_id',
+  },
+  {
+    table: 'tc_log',
+    columns: 'id, post_id, operator, tc_in, tc_out, clip_nr, frame_rate, duration_frames, duration_sec, notes, take_nr, verdict, selected, created_at',
+    order: 'id',
+  },
+  {
+    table: 'counters',
+    columns: 'name, value, updated_at',
+    order: 'name',
+  },
+  {
+    table: 'api_clients',
+    columns: 'id, name, key_hash, key_prefix, scopes, created_at, revoked_at',
+    order: 'name',
+  },
+  {
+    table: 'user_roles',
+    columns: 'user_id, email, role, created_at, updated_at',
+    order: 'user_id',
+  },
+];
+
+// Fält som skickas med sync_posts_batch (resten sätter databasen själv)
+const PUSH_COLUMNS = [
+  'post_id', 'program_nr', 'type_key', 'sort_order', 'title', 'duration_sec', 'location',
+  'people_ids', 'text_author', 'composer', 'arranger', 'recording_day', 'recording_slot',
+  'recording_time', 'status', 'info_pos', 'graphics', 'notes', 'open_text',
+];
+
+const PAGE_SIZE = 1000;
+
+// Skrivningar från push attribueras till denna klient i Supabase
+const PUSH_CLIENT_NAME = 'offline';
+
+/**
+ * Routes that need Supabase features (triggers, audit log, RPCs) and are
+ * not served offline.
+ */
+const ONLINE_ONLY_ROUTES = [
+  '/sync/from-sheets',
+  '/sync/sheets-state',
+  '/api/clients',
+  '/api/clients/revoke',
+  '/api/users',
+  '/api/webhooks',
+  '/api/webhooks/deliveries',
+  '/api/webhooks/replay',
+  '/api/post/history',
+  '/api/post/revert',
+  '/api/running-order',
+  '/api/trash',
+  '/api/trash/restore',
+  '/api/trash/purge',
+  '/events',
+  '/api/sync/status',
+];
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * POST /sync/pull-from-supabase?force=true
+ *
+ * Replace the local database with a snapshot of Supabase. Refuses while
+ * local changes are unpushed unless `force=true`.
+ */
+export async function handlePullFromSupabase(
+  request: Request,
+  repo: Repository,
+  env: Env,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const precondition = offlinePrecondition(request, repo, env, corsHeaders);
+  if (precondition) return precondition;
+
+  const db = (repo as SqliteRepository).db;
+  const force = new URL(request.url).searchParams.get('force') === 'true';
+
+  const pending = await pendingChanges(db);
+  if (!force && (pending.posts > 0 || pending.takes > 0)) {
+    return jsonResponse(
+      {
+        error: 'Conflict',
+        message: 'Local changes have not been pushed to Supabase; push first or pull with force=true',
+        pending,
+      },
+      corsHeaders,
+      409
+    );
+  }
+
+  const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  const snapshot = new Map<string, Record<string, unknown>[]>();
+
+  for (const { table, columns, order } of SNAPSHOT_TABLES) {
+    snapshot.set(table, await fetchAll(supabase, table, columns, order));
+  }
+
+  // Rensa i omvänd ordning (främmande nycklar), fyll i tabellordning
+  const statements = [...SNAPSHOT_TABLES].reverse().map(({ table }) => db.prepare(`DELETE FROM ${table}`));
+
+  for (const { table } of SNAPSHOT_TABLES) {
+    for (const row of snapshot.get(table)!) {
+      // Allt som hämtas är per definition synkat
+      const local = table === 'posts' ? { ...row, synced_version: row.version }
+        : table === 'tc_log' ? { ...row, synced: 1 }
+        : row;
+      statements.push(insertStatement(db, table, local));
+    }
+  }
+
+  const report = Object.fromEntries(SNAPSHOT_TABLES.map(({ table }) => [table, snapshot.get(table)!.length]));
+  statements.push(recordRun(db, 'pull', report));
+
+  // En batch är en transaktion: misslyckas något finns den gamla datan kvar
+  await db.batch(statements);
+
+  return jsonResponse({ success: true, pulled: report }, corsHeaders);
+}
+
+/**
+ * POST /sync/push-to-supabase
+ *
+ * Send posts and takes changed offline to Supabase. Posts edited online
+ * since the pull come back as conflicts and stay unpushed; pull with
+ * force=true (discarding the local edit) or edit the post and push again.
+ * Takes logged offline get the next free take number in Supabase, so a
+ * take logged online in the meantime is kept; renumbered takes are listed
+ * in the report.
+ */
+export async function handlePushToSupabase(
+  request: Request,
+  repo: Repository,
+  env: Env,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const precondition = offlinePrecondition(request, repo, env, corsHeaders);
+  if (precondition) return precondition;
+
+  const db = (repo as SqliteRepository).db;
+  const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY, {
+    global: { headers: { 'X-Api-Client': PUSH_CLIENT_NAME } },
+  });
+
+  // Poster
+  const { results: changed } = await db
+    .prepare('SELECT * FROM posts WHERE synced_version IS NULL OR version > synced_version')
+    .all();
+
+  let created: string[] = [];
+  let updated: string[] = [];
+  let conflicts: BatchConflict[] = [];
+  let errors: { post_id: string; message: string }[] = [];
+
+  if (changed.length > 0) {
+    const { data: batch, error } = await supabase.rpc('sync_posts_batch', {
+      p_posts: changed.map(pushRow),
+      p_atomic: false,
+      p_source: 'api',
+      // Statusen har redan följt tillståndsmaskinen lokalt, men flera steg kan ha slagits ihop
+      p_override_reason: 'Offline push',
+    });
+
+    if (error) {
+      return jsonResponse({ error: error.message }, corsHeaders, 500);
+    }
+
+    ({ created, updated, conflicts, errors } = batch);
+
+    // Lokala versioner följer Supabase igen för poster som gick igenom
+    const applied = [...created, ...updated];
+    if (applied.length > 0) {
+      const { data: versions, error: versionError } = await supabase
+        .from('posts')
+        .select('post_id, version')
+        .in('post_id', applied);
+
+      if (versionError) {
+        return jsonResponse({ error: versionError.message }, corsHeaders, 500);
+      }
+
+      await db.batch(
+        (versions ?? []).map((row) =>
+          db.prepare('UPDATE posts SET version = ?1, synced_version = ?1 WHERE post_id = ?2').bind(row.version, row.post_id)
+        )
+      );
+    }
+  }
+
+  // Tagningar, utom för poster som inte kom fram
+  const rejected = new Set([...conflicts.map((c) => c.post_id), ...errors.map((e) => e.post_id)]);
+  const { results: takes } = await db.prepare('SELECT * FROM tc_log WHERE synced = 0 ORDER BY post_id, take_nr').all();
+  const pushable = takes.filter((take) => !rejected.has(take.post_id as string));
+  const renumbered: { post_id: string; local_take_nr: number; take_nr: number }[] = [];
+  let pushedTakes = 0;
+
+  if (pushable.length > 0) {
+    const { data: known, error: knownError } = await supabase
+      .from('tc_log')
+      .select('id')
+      .in('id', pushable.map((take) => take.id));
+
+    if (knownError) {
+      return jsonResponse({ error: knownError.message }, corsHeaders, 500);
+    }
+
+    const knownIds = new Set((known ?? []).map((row) => row.id as string));
+    const edited = pushable.filter((take) => knownIds.has(take.id as string));
+    const fresh = pushable.filter((take) => !knownIds.has(take.id as string));
+
+    // Hämtade tagningar som ändrats offline skrivs på sitt id
+    if (edited.length > 0) {
+      const { error } = await supabase.from('tc_log').upsert(
+        edited.map(({ selected: _selected, synced: _synced, ...take }) => take),
+        { onConflict: 'id' }
+      );
+
+      if (error) {
+        return jsonResponse({ error: error.message }, corsHeaders, 500);
+      }
+
+      pushedTakes += edited.length;
+    }
+
+    // Nya tagningar får nästa lediga nummer i Supabase via insert_take, så
+    // att en tagning loggad online med samma nummer inte skrivs över. Lokalt
+    // byts raden mot den som skrevs i Supabase.
+    const takeNumbers = new Map<string, number>();
+    const lastTakeNr = new Map<string, number>();
+    const failedPosts = new Set<string>();
+    const removed: D1PreparedStatement[] = [];
+    const added: D1PreparedStatement[] = [];
+    const parked: D1PreparedStatement[] = [];
+    const moved: D1PreparedStatement[] = [];
+
+    for (const { id, take_nr: localTakeNr, selected: _selected, synced: _synced, ...take } of fresh) {
+      const postId = take.post_id as string;
+
+      if (!failedPosts.has(postId)) {
+        const { data: inserted, error } = await supabase.rpc('insert_take', { p_take: take });
+
+        if (!error) {
+          takeNumbers.set(`${postId}:${localTakeNr}`, inserted.take_nr);
+          lastTakeNr.set(postId, inserted.take_nr);
+          if (inserted.take_nr !== localTakeNr) {
+            renumbered.push({ post_id: postId, local_take_nr: localTakeNr as number, take_nr: inserted.take_nr });
+          }
+
+          removed.push(db.prepare('DELETE FROM tc_log WHERE id = ?').bind(id));
+          added.push(insertStatement(db, 'tc_log', { ...inserted, selected: false, synced: 1 }));
+          pushedTakes++;
+          continue;
+        }
+
+        errors.push({ post_id: postId, message: `Take ${localTakeNr}: ${error.message}` });
+        failedPosts.add(postId);
+      }
+
+      // Kvar lokalt, men efter numren som redan kommit fram. Flyttas via ett
+      // negativt nummer så att den inte krockar med en annan kvarvarande.
+      const last = lastTakeNr.get(postId);
+      if (last !== undefined) {
+        parked.push(db.prepare('UPDATE tc_log SET take_nr = -take_nr WHERE id = ?').bind(id));
+        moved.push(db.prepare('UPDATE tc_log SET take_nr = ? WHERE id = ?').bind(last + 1, id));
+        lastTakeNr.set(postId, last + 1);
+      }
+    }
+
+    // Vald tagning sätts via select_take så att unika indexet i Supabase håller
+    const selections: D1PreparedStatement[] = [];
+
+    for (const postId of new Set(pushable.map((take) => take.post_id as string))) {
+      if (failedPosts.has(postId)) continue;
+
+      const selected = await db
+        .prepare('SELECT take_nr FROM tc_log WHERE post_id = ? AND selected = 1')
+        .bind(postId)
+        .first<{ take_nr: number }>();
+      const takeNr = selected ? takeNumbers.get(`${postId}:${selected.take_nr}`) ?? selected.take_nr : null;
+
+      const { error: selectError } = await supabase.rpc('select_take', {
+        p_post_id: postId,
+        p_take_nr: takeNr,
+      });
+
+      if (selectError) {
+        errors.push({ post_id: postId, message: `Take selection: ${selectError.message}` });
+        continue;
+      }
+
+      if (takeNr !== null) {
+        selections.push(
+          db.prepare('UPDATE tc_log SET selected = 0 WHERE post_id = ?').bind(postId),
+          db.prepare('UPDATE tc_log SET selected = 1 WHERE post_id = ? AND take_nr = ?').bind(postId, takeNr)
+        );
+      }
+    }
+
+    // Gamla rader bort före de nya, annars kan numren krocka lokalt
+    const statements = [
+      ...removed,
+      ...parked,
+      ...added,
+      ...moved,
+      ...selections,
+      ...edited.map((take) => db.prepare('UPDATE tc_log SET synced = 1 WHERE id = ?').bind(take.id)),
+    ];
+
+    if (statements.length > 0) await db.batch(statements);
+  }
+
+  // Klippräknaren får inte backa i Supabase
+  const clipCounter = await pushClipCounter(db, supabase);
+
+  const report = {
+    created: created.length,
+    updated: updated.length,
+    takes: pushedTakes,
+    renumbered_takes: renumbered,
+    clip_counter: clipCounter,
+    conflicts,
+    errors,
+  };
+
+  await recordRun(db, 'push', report).run();
+
+  return jsonResponse(
+    { success: conflicts.length === 0 && errors.length === 0, pushed: report },
+    corsHeaders
+  );
+}
+
+/**
+ * 503 for routes that need Supabase when running offline, else 404.
+ */
+export function offlineUnavailableResponse(path: string, corsHeaders: CorsHeaders): Response {
+  if (!ONLINE_ONLY_ROUTES.includes(path)) {
+    return jsonResponse({ error: 'Not found' }, corsHeaders, 404);
+  }
+
+  return jsonResponse(
+    { error: 'Not available offline', message: `${path} needs Supabase; push to Supabase and use the online worker` },
+    corsHeaders,
+    503
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function offlinePrecondition(
+  request: Request,
+  repo: Repository,
+  env: Env,
+  corsHeaders: CorsHeaders
+): Response | null {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+  if (repo.backend !== 'sqlite') {
+    return jsonResponse({ error: 'Offline storage is not enabled (STORAGE = "sqlite")' }, corsHeaders, 400);
+  }
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_KEY) {
+    return jsonResponse({ error: 'SUPABASE_URL and SUPABASE_SERVICE_KEY are not configured' }, corsHeaders, 503);
+  }
+  return null;
+}
+
+async function pendingChanges(db: D1Database): Promise<{ posts: number; takes: number }> {
+  const row = await db
+    .prepare(
+      `SELECT
+         (SELECT COUNT(*) FROM posts WHERE synced_version IS NULL OR version > synced_version) AS posts,
+         (SELECT COUNT(*) FROM tc_log WHERE synced = 0) AS takes`
+    )
+    .first<{ posts: number; takes: number }>();
+
+  return row ?? { posts: 0, takes: 0 };
+}
+
+async function fetchAll(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  order: string
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+
+  // PostgREST returnerar högst 1000 rader per fråga
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order(order)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Pull of ${table} failed: ${error.message}`);
+
+    rows.push(...(data as unknown as Record<string, unknown>[]));
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * INSERT for a Supabase row: arrays and objects as JSON, booleans as 0/1.
+ */
+function insertStatement(db: D1Database, table: string, row: Record<string, unknown>): D1PreparedStatement {
+  const columns = Object.keys(row);
+  const values = Object.values(row).map((value) =>
+    typeof value === 'boolean' ? (value ? 1 : 0)
+      : value !== null && typeof value === 'object' ? JSON.stringify(value)
+      : value
+  );
+
+  return db
+    .prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+    .bind(...values);
+}
+
+/**
+ * Local post as a sync_posts_batch row. The version is the one last seen
+ * in Supabase, so online edits since then are detected as conflicts. Posts
+ * created offline were never seen there and go with version 0, so a post
+ * created online under the same post_id is a conflict rather than overwritten.
+ */
+function pushRow(post: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  for (const column of PUSH_COLUMNS) {
+    row[column] = post[column];
+  }
+
+  row.people_ids = typeof post.people_ids === 'string' ? JSON.parse(post.people_ids) : null;
+  row.open_text = post.open_text === 1;
+  row.version = post.synced_version ?? 0;
+
+  return row;
+}
+
+async function pushClipCounter(db: D1Database, supabase: SupabaseClient): Promise<number | null> {
+  const local = await db
+    .prepare("SELECT value FROM counters WHERE name = 'clip_counter'")
+    .first<{ value: number }>();
+
+  const { data: remote, error } = await supabase
+    .from('counters')
+    .select('value')
+    .eq('name', 'clip_counter')
+    .maybeSingle();
+
+  if (error || !local || (remote && remote.value >= local.value)) {
+    return remote?.value ?? null;
+  }
+
+  await supabase
+    .from('counters')
+    .upsert({ name: 'clip_counter', value: local.value, updated_at: new Date().toISOString() });
+
+  return local.value;
+}
+
+function recordRun(db: D1Database, name: 'pull' | 'push', report: object): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO offline_sync (name, completed_at, report) VALUES (?, ?, ?)
+       ON CONFLICT (name) DO UPDATE SET completed_at = excluded.completed_at, report = excluded.report`
+    )
+    .bind(name, new Date().toISOString(), JSON.stringify(report));
+}
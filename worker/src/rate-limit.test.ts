@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enforceRateLimit, RateLimiter, routeClass } from './rate-limit';
+import { Env } from './types';
+
+// En RateLimiter per namn, med storage i minnet, bakom en DO-namnrymd
+function fakeEnv(rateLimits?: string) {
+  const limiters = new Map<string, RateLimiter>();
+  const names: string[] = [];
+
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => ({
+      fetch: (url: string, init: RequestInit) => {
+        if (!limiters.has(name)) {
+          const storage = new Map<string, unknown>();
+          const state = {
+            storage: {
+              get: async (key: string) => storage.get(key),
+              put: async (key: string, value: unknown) => void storage.set(key, value),
+            },
+          };
+          limiters.set(name, new RateLimiter(state as unknown as DurableObjectState));
+        }
+        names.push(name);
+        return limiters.get(name)!.fetch(new Request(url, init));
+      },
+    }),
+  };
+
+  return { env: { RATE_LIMITER: namespace, RATE_LIMITS: rateLimits } as unknown as Env, names };
+}
+
+async function take(env: Env, times: number, caller = 'companion-regi'): Promise<(Response | null)[]> {
+  const results: (Response | null)[] = [];
+  for (let i = 0; i < times; i++) {
+    results.push(await enforceRateLimit(env, 'companion', caller, {}));
+  }
+  return results;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-18T09:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('routeClass', () => {
+  it('sorts routes into companion, sync and read buckets', () => {
+    expect(routeClass('/health', 'GET')).toBeNull();
+    expect(routeClass('/sync/from-companion', 'POST')).toBe('companion');
+    expect(routeClass('/sync/from-sheets', 'POST')).toBe('sync');
+    expect(routeClass('/api/posts', 'GET')).toBe('read');
+    expect(routeClass('/api/takes', 'POST')).toBe('sync');
+  });
+});
+
+describe('enforceRateLimit', () => {
+  it('allows a burst of ten Companion requests, then answers 429', async () => {
+    const { env } = fakeEnv();
+    const results = await take(env, 11);
+
+    expect(results.slice(0, 10).every((result) => result === null)).toBe(true);
+    expect(results[10]?.status).toBe(429);
+    expect(results[10]?.headers.get('Retry-After')).toBe('1');
+    expect(await results[10]?.json()).toMatchObject({
+      error: 'Rate limit exceeded',
+      message: 'Maximum 60 companion requests per minute',
+      retry_after_seconds: 1,
+    });
+  });
+
+  it('refills the bucket over time', async () => {
+    const { env } = fakeEnv();
+    await take(env, 10);
+
+    expect((await take(env, 1))[0]?.status).toBe(429);
+    vi.advanceTimersByTime(1000);
+    expect(await take(env, 1)).toEqual([null]);
+  });
+
+  it('keeps one bucket per class and caller', async () => {
+    const { env, names } = fakeEnv();
+    await take(env, 10, 'companion-regi');
+
+    expect(await take(env, 1, 'companion-ljud')).toEqual([null]);
+    expect(await enforceRateLimit(env, 'sync', 'companion-regi', {})).toBeNull();
+    expect(names).toContain('sync:companion-regi');
+  });
+
+  it('uses overrides from RATE_LIMITS', async () => {
+    const { env } = fakeEnv(JSON.stringify({ companion: { capacity: 2, per_minute: 6 } }));
+    const results = await take(env, 3);
+
+    expect(results[2]?.headers.get('Retry-After')).toBe('10');
+  });
+
+  it('lets the request through when the limiter fails', async () => {
+    const env = { RATE_LIMITER: { idFromName: () => { throw new Error('no DO'); } } } as unknown as Env;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await enforceRateLimit(env, 'companion', 'companion-regi', {})).toBeNull();
+  });
+});
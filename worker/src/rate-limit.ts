@@ -0,0 +1,146 @@
+/**
+ * Rate Limiting
+ *
+ * Token buckets per client and route class, held in the RateLimiter
+ * Durable Object so every isolate sees the same count — also under
+ * `wrangler dev`, which runs Durable Objects locally. Companion defaults
+ * to the 60 requests/minute of checkRateLimit_ in Triggers.gs, with a
+ * small burst so a stuck button is cut off within seconds.
+ */
+
+import { jsonResponse } from './http';
+import { CorsHeaders, Env } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RouteClass = 'sync' | 'companion' | 'read';
+
+interface BucketConfig {
+  capacity: number;     // Största burst
+  per_minute: number;   // Påfyllnad, tokens per minut
+}
+
+interface Bucket {
+  tokens: number;
+  updated: number;      // ms sedan epoch
+}
+
+interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retry_after: number;  // Sekunder, 0 när tillåten
+}
+
+// Standardgränser, kan överskridas per klass med RATE_LIMITS (JSON) i wrangler.toml
+const DEFAULT_LIMITS: Record<RouteClass, BucketConfig> = {
+  companion: { capacity: 10, per_minute: 60 },
+  sync: { capacity: 30, per_minute: 120 },
+  read: { capacity: 60, per_minute: 300 },
+};
+
+// ============================================================================
+// WORKER SIDE
+// ============================================================================
+
+/**
+ * Route class for rate limiting, or null for unlimited routes.
+ */
+export function routeClass(path: string, method: string): RouteClass | null {
+  if (path === '/health') return null;
+  if (path === '/sync/from-companion') return 'companion';
+  if (path.startsWith('/sync/')) return 'sync';
+  return method === 'GET' ? 'read' : 'sync';
+}
+
+/**
+ * Take one token from the caller's bucket. Returns a 429 response when
+ * the bucket is empty, else null. A limiter failure lets the request
+ * through rather than stopping a recording.
+ */
+export async function enforceRateLimit(
+  env: Env,
+  cls: RouteClass,
+  caller: string,
+  corsHeaders: CorsHeaders
+): Promise<Response | null> {
+  const config = limitsFor(env)[cls];
+
+  let result: RateLimitResult;
+  try {
+    const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`${cls}:${caller}`));
+    const response = await stub.fetch('https://rate-limiter/take', {
+      method: 'POST',
+      body: JSON.stringify(config),
+    });
+    result = await response.json();
+  } catch (error) {
+    console.error('Rate limiter unavailable:', error);
+    return null;
+  }
+
+  if (result.allowed) return null;
+
+  const response = jsonResponse(
+    {
+      error: 'Rate limit exceeded',
+      message: `Maximum ${config.per_minute} ${cls} requests per minute`,
+      retry_after_seconds: result.retry_after,
+    },
+    corsHeaders,
+    429
+  );
+  response.headers.set('Retry-After', String(result.retry_after));
+  return response;
+}
+
+function limitsFor(env: Env): Record<RouteClass, BucketConfig> {
+  if (!env.RATE_LIMITS) return DEFAULT_LIMITS;
+
+  try {
+    const overrides = JSON.parse(env.RATE_LIMITS) as Partial<Record<RouteClass, Partial<BucketConfig>>>;
+    return {
+      companion: { ...DEFAULT_LIMITS.companion, ...overrides.companion },
+      sync: { ...DEFAULT_LIMITS.sync, ...overrides.sync },
+      read: { ...DEFAULT_LIMITS.read, ...overrides.read },
+    };
+  } catch {
+    console.error('Invalid RATE_LIMITS, using defaults');
+    return DEFAULT_LIMITS;
+  }
+}
+
+// ============================================================================
+// DURABLE OBJECT
+// ============================================================================
+
+/**
+ * One token bucket per instance (named `<class>:<caller>`). Refills
+ * continuously at per_minute / 60 tokens per second up to capacity.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { capacity, per_minute } = (await request.json()) as BucketConfig;
+    const now = Date.now();
+    const perMs = per_minute / 60000;
+
+    const stored = await this.state.storage.get<Bucket>('bucket');
+    const tokens = stored
+      ? Math.min(capacity, stored.tokens + (now - stored.updated) * perMs)
+      : capacity;
+
+    let result: RateLimitResult;
+    if (tokens >= 1) {
+      await this.state.storage.put<Bucket>('bucket', { tokens: tokens - 1, updated: now });
+      result = { allowed: true, remaining: Math.floor(tokens - 1), retry_after: 0 };
+    } else {
+      await this.state.storage.put<Bucket>('bucket', { tokens, updated: now });
+      result = { allowed: false, remaining: 0, retry_after: Math.ceil((1 - tokens) / perMs / 1000) };
+    }
+
+    return Response.json(result);
+  }
+}
@@ -0,0 +1,154 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getPlatformProxy, unstable_splitSqlQuery } from 'wrangler';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { SqliteRepository } from './repository-sqlite';
+
+// D1 i minnet från [env.offline] i wrangler.toml, med samma migrationer som
+// `wrangler d1 migrations apply`
+let proxy: Awaited<ReturnType<typeof getPlatformProxy<{ DB: D1Database }>>>;
+let db: D1Database;
+let repo: SqliteRepository;
+
+const MIGRATIONS_DIR = join(__dirname, '..', 'migrations');
+
+beforeAll(async () => {
+  proxy = await getPlatformProxy<{ DB: D1Database }>({ environment: 'offline', persist: false });
+  db = proxy.env.DB;
+
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith('.sql')).sort()) {
+    const statements = unstable_splitSqlQuery(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'));
+    await db.batch(statements.map((sql) => db.prepare(sql)));
+  }
+}, 60_000);
+
+afterAll(async () => {
+  await proxy?.dispose();
+});
+
+beforeEach(async () => {
+  await db.batch([
+    db.prepare('DELETE FROM tc_log'),
+    db.prepare('DELETE FROM posts'),
+    db.prepare('DELETE FROM programs'),
+    db.prepare("UPDATE counters SET value = 0 WHERE name = 'clip_counter'"),
+    db.prepare("INSERT INTO programs (id, program_nr, start_time, frame_rate) VALUES ('g1', 1, '09:00:00', '29.97df')"),
+  ]);
+  repo = new SqliteRepository(db, 'companion-regi');
+});
+
+async function seedPosts(): Promise<void> {
+  await repo.insertPost({ post_id: 'P1:1', program_nr: 1, sort_order: 10, title: 'Intro', duration_sec: 60, status: 'planerad', people_ids: ['P001'] });
+  await repo.insertPost({ post_id: 'P1:2', program_nr: 1, sort_order: 20, title: 'Psalm', duration_sec: 120, status: 'planerad' });
+  await repo.insertPost({ post_id: 'P2:1', program_nr: 2, sort_order: 10, title: 'Intro', duration_sec: 30, status: 'inspelad' });
+}
+
+describe('posts', () => {
+  it('round-trips a post with JSON columns and client attribution', async () => {
+    await seedPosts();
+    const post = await repo.getPost('P1:1');
+
+    expect(post).toMatchObject({ post_id: 'P1:1', title: 'Intro', people_ids: ['P001'], version: 1 });
+    expect(post?.last_modified_client).toBe('companion-regi');
+  });
+
+  it('filters and counts active posts in running order', async () => {
+    await seedPosts();
+
+    expect((await repo.listPosts({ program_nr: 1 })).map((post) => post.post_id)).toEqual(['P1:1', 'P1:2']);
+    expect(await repo.countPosts({ status: 'inspelad' })).toBe(1);
+    expect((await repo.listPosts({ post_ids: ['P2:1', 'P1:2'] })).map((post) => post.post_id)).toEqual(['P1:2', 'P2:1']);
+  });
+
+  it('keeps clock times in step without bumping other posts', async () => {
+    await seedPosts();
+    await repo.updatePost('P1:1', { duration_sec: 90 });
+
+    const second = await repo.getPost('P1:2');
+    expect(second?.clock_time).toBe('09:01:30');
+    expect(second?.recording_time).toBe('09:01:30');
+    expect(second?.version).toBe(1);
+  });
+
+  it('bumps the version and guards on version and status', async () => {
+    await seedPosts();
+
+    expect(await repo.updatePost('P1:1', { title: 'Stale' }, { version: 2 })).toBeNull();
+    expect(await repo.updatePost('P1:1', { status: 'inspelad' }, { from_status: ['recording'] })).toBeNull();
+
+    const updated = await repo.updatePost('P1:1', { title: 'Välkommen' }, { version: 1, from_status: ['planerad'] });
+    expect(updated).toMatchObject({ title: 'Välkommen', version: 2 });
+  });
+
+  it('hides soft-deleted posts unless asked for them', async () => {
+    await seedPosts();
+    await repo.updatePost('P1:2', { deleted_at: new Date().toISOString() }, { active_only: true });
+
+    expect(await repo.getPost('P1:2')).toBeNull();
+    expect(await repo.getPost('P1:2', { include_deleted: true })).not.toBeNull();
+    expect(await repo.updatePost('P1:2', { title: 'Gone' }, { active_only: true })).toBeNull();
+  });
+});
+
+describe('takes', () => {
+  it('numbers takes per post in insert order', async () => {
+    await seedPosts();
+
+    const first = await repo.insertTake({ post_id: 'P1:1', tc_in: '10:00:00;02', frame_rate: '29.97df' });
+    const other = await repo.insertTake({ post_id: 'P2:1', tc_in: '11:00:00:00', frame_rate: '25' });
+    const second = await repo.insertTake({ post_id: 'P1:1', tc_in: '10:05:00;02', frame_rate: '29.97df' });
+
+    expect([first.take_nr, second.take_nr, other.take_nr]).toEqual([1, 2, 1]);
+    expect(first.selected).toBe(false);
+  });
+
+  it('gives concurrent TC-INs distinct take numbers', async () => {
+    await seedPosts();
+
+    const takes = await Promise.all(
+      [1, 2, 3, 4].map(() => repo.insertTake({ post_id: 'P1:1', tc_in: '10:00:00;02' }))
+    );
+
+    expect(takes.map((take) => take.take_nr).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('closes the open take and finds it', async () => {
+    await seedPosts();
+    await repo.insertTake({ post_id: 'P1:1', tc_in: '10:00:00;02' });
+
+    expect((await repo.latestTake('P1:1', { open_only: true }))?.take_nr).toBe(1);
+    await repo.updateTake('P1:1', 1, { tc_out: '10:01:00;02', duration_frames: 1798, duration_sec: 60 });
+
+    expect(await repo.latestTake('P1:1', { open_only: true })).toBeNull();
+    expect(await repo.listTakes(['P1:1'], { closed_only: true })).toHaveLength(1);
+  });
+
+  it('keeps at most one selected take per post', async () => {
+    await seedPosts();
+    await repo.insertTake({ post_id: 'P1:1' });
+    await repo.insertTake({ post_id: 'P1:1' });
+
+    await repo.selectTake('P1:1', 1);
+    const takes = await repo.selectTake('P1:1', 2);
+
+    expect(takes?.map((take) => take.selected)).toEqual([false, true]);
+    expect(await repo.selectTake('P1:1', 9)).toBeNull();
+    expect((await repo.selectTake('P1:1', null))?.some((take) => take.selected)).toBe(false);
+  });
+});
+
+describe('programmes and clip counter', () => {
+  it('reads the programme frame rate', async () => {
+    expect((await repo.getProgram(1))?.frame_rate).toBe('29.97df');
+    expect(await repo.getProgram(3)).toBeNull();
+  });
+
+  it('moves the clip counter past logged clips', async () => {
+    await seedPosts();
+    await repo.insertTake({ post_id: 'P1:1', clip_nr: 7 });
+
+    expect(await repo.nextClipNumber()).toBe(8);
+    expect(await repo.incrementClipCounter()).toBe(8);
+    expect(await repo.incrementClipCounter()).toBe(9);
+  });
+});
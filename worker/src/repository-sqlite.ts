@@ -0,0 +1,430 @@
+/**
+ * SQLite Repository
+ *
+ * Repository backed by a D1 database (migrations/0001_offline_schema.sql).
+ * Under `wrangler dev --env offline` D1 is a SQLite file on the laptop,
+ * so recording continues without a connection to Supabase. The database
+ * triggers of the Supabase schema are done here in SQL: every post
+ * update bumps version and updated_at and records the API client.
+ */
+
+import { ApiClient, ApiScope, UserRole } from './auth';
+import { PostFilter, PostRow, PostUpdateOptions, Repository, SessionFilter, TcLogRow } from './repository';
+import { Person, Post, Program, RecordingSession } from './types';
+
+// Kolumner som får skrivas; allt annat i en uppdatering ignoreras
+const POST_COLUMNS = [
+  'post_id', 'program_nr', 'type_key', 'sort_order', 'title', 'duration_sec', 'location',
+  'people_ids', 'text_author', 'composer', 'arranger', 'recording_day', 'recording_slot',
+  'recording_time', 'status', 'info_pos', 'graphics', 'notes', 'open_text', 'last_modified_by',
+  'deleted_at', 'deleted_by',
+];
+
+const TAKE_COLUMNS = [
+  'post_id', 'operator', 'tc_in', 'tc_out', 'clip_nr', 'frame_rate', 'duration_frames',
+  'duration_sec', 'notes', 'take_nr', 'verdict', 'selected',
+];
+
+export class SqliteRepository implements Repository {
+  readonly backend = 'sqlite' as const;
+
+  readonly db: D1Database;
+  private readonly clientName: string | null;
+
+  constructor(db: D1Database, clientName?: string) {
+    this.db = db;
+    this.clientName = clientName ?? null;
+  }
+
+  // ==========================================================================
+  // POSTS
+  // ==========================================================================
+
+  async listPosts(filter: PostFilter = {}): Promise<PostRow[]> {
+    const { where, params } = postWhere(filter);
+    const limit = filter.limit ? ` LIMIT ${Math.floor(filter.limit)}` : '';
+
+    const { results } = await this.db
+      .prepare(`SELECT * FROM posts_active${where} ORDER BY program_nr, sort_order${limit}`)
+      .bind(...params)
+      .all();
+
+    return results.map(decodePost);
+  }
+
+  async countPosts(filter: PostFilter = {}): Promise<number> {
+    const { where, params } = postWhere(filter);
+
+    const row = await this.db
+      .prepare(`SELECT COUNT(*) AS count FROM posts_active${where}`)
+      .bind(...params)
+      .first<{ count: number }>();
+
+    return row?.count ?? 0;
+  }
+
+  async getPost(postId: string, options: { include_deleted?: boolean } = {}): Promise<PostRow | null> {
+    const row = await this.db
+      .prepare(`SELECT * FROM ${options.include_deleted ? 'posts' : 'posts_active'} WHERE post_id = ?`)
+      .bind(postId)
+      .first();
+
+    return row ? decodePost(row) : null;
+  }
+
+  async insertPost(post: Partial<Post>): Promise<PostRow> {
+    const values = encodePost(post as Record<string, unknown>);
+    const columns = Object.keys(values);
+    const now = new Date().toISOString();
+
+    const row = await this.db
+      .prepare(
+        `INSERT INTO posts (id, ${columns.join(', ')}, created_at, updated_at, last_modified_client)
+         VALUES (?, ${columns.map(() => '?').join(', ')}, ?, ?, ?) RETURNING *`
+      )
+      .bind(crypto.randomUUID(), ...Object.values(values), now, now, this.clientName)
+      .first();
+
+    return decodePost(row!);
+  }
+
+  async updatePost(
+    postId: string,
+    fields: Record<string, unknown>,
+    options: PostUpdateOptions = {}
+  ): Promise<PostRow | null> {
+    const values = encodePost(fields);
+    const assignments = Object.keys(values).map((column) => `${column} = ?`);
+    const params: unknown[] = [...Object.values(values), new Date().toISOString(), this.clientName, postId];
+
+    let where = 'post_id = ?';
+    if (options.version !== undefined) {
+      where += ' AND version = ?';
+      params.push(options.version);
+    }
+    if (options.from_status) {
+      where += ` AND status IN (${options.from_status.map(() => '?').join(', ') || 'NULL'})`;
+      params.push(...options.from_status);
+    }
+    if (options.active_only) {
+      where += ' AND deleted_at IS NULL';
+    }
+
+    const row = await this.db
+      .prepare(
+        `UPDATE posts SET ${[...assignments, 'version = version + 1', 'updated_at = ?', 'last_modified_client = ?'].join(', ')}
+         WHERE ${where} RETURNING *`
+      )
+      .bind(...params)
+      .first();
+
+    return row ? decodePost(row) : null;
+  }
+
+  // ==========================================================================
+  // PROGRAMS
+  // ==========================================================================
+
+  async getProgram(programNr: number): Promise<Program | null> {
+    return this.db.prepare('SELECT * FROM programs WHERE program_nr = ?').bind(programNr).first<Program>();
+  }
+
+  // ==========================================================================
+  // PEOPLE
+  // ==========================================================================
+
+  async listPeople(personIds?: string[]): Promise<Person[]> {
+    const where = personIds ? ` WHERE person_id IN (${personIds.map(() => '?').join(', ') || 'NULL'})` : '';
+    const { results } = await this.db
+      .prepare(`SELECT person_id, name, roles, contact, type, availability, version FROM people${where} ORDER BY person_id`)
+      .bind(...(personIds ?? []))
+      .all();
+
+    return results.map((row) => ({
+      ...row,
+      roles: typeof row.roles === 'string' ? JSON.parse(row.roles) : null,
+      availability: typeof row.availability === 'string' ? JSON.parse(row.availability) : null,
+    })) as unknown as Person[];
+  }
+
+  // ==========================================================================
+  // TAKES
+  // ==========================================================================
+
+  async listTakes(postIds: string[], options: { closed_only?: boolean } = {}): Promise<TcLogRow[]> {
+    if (postIds.length === 0) return [];
+
+    const closed = options.closed_only ? ' AND tc_out IS NOT NULL' : '';
+    const { results } = await this.db
+      .prepare(`SELECT * FROM tc_log WHERE post_id IN (${postIds.map(() => '?').join(', ')})${closed} ORDER BY take_nr`)
+      .bind(...postIds)
+      .all();
+
+    return results.map(decodeTake);
+  }
+
+  async latestTake(postId: string, options: { open_only?: boolean } = {}): Promise<TcLogRow | null> {
+    const open = options.open_only ? ' AND tc_out IS NULL' : '';
+    const row = await this.db
+      .prepare(`SELECT * FROM tc_log WHERE post_id = ?${open} ORDER BY take_nr DESC LIMIT 1`)
+      .bind(postId)
+      .first();
+
+    return row ? decodeTake(row) : null;
+  }
+
+  async insertTake(take: Omit<Partial<TcLogRow>, 'take_nr'>): Promise<TcLogRow> {
+    const values = encodeTake(take);
+    const columns = Object.keys(values);
+
+    // Numret räknas i samma sats som raden skrivs, så två TC-IN krockar inte
+    const row = await this.db
+      .prepare(
+        `INSERT INTO tc_log (id, ${columns.join(', ')}, take_nr, created_at)
+         SELECT ?, ${columns.map(() => '?').join(', ')}, COALESCE(MAX(take_nr), 0) + 1, ?
+         FROM tc_log WHERE post_id = ? RETURNING *`
+      )
+      .bind(crypto.randomUUID(), ...Object.values(values), new Date().toISOString(), take.post_id)
+      .first();
+
+    return decodeTake(row!);
+  }
+
+  async updateTake(postId: string, takeNr: number, fields: Partial<TcLogRow>): Promise<TcLogRow | null> {
+    const values = encodeTake(fields);
+    const assignments = [...Object.keys(values).map((column) => `${column} = ?`), 'synced = 0'];
+
+    const row = await this.db
+      .prepare(`UPDATE tc_log SET ${assignments.join(', ')} WHERE post_id = ? AND take_nr = ? RETURNING *`)
+      .bind(...Object.values(values), postId, takeNr)
+      .first();
+
+    return row ? decodeTake(row) : null;
+  }
+
+  async selectTake(postId: string, takeNr: number | null): Promise<TcLogRow[] | null> {
+    if (takeNr !== null) {
+      const exists = await this.db
+        .prepare('SELECT 1 FROM tc_log WHERE post_id = ? AND take_nr = ?')
+        .bind(postId, takeNr)
+        .first();
+      if (!exists) return null;
+    }
+
+    // Avmarkera först så att det unika indexet på vald tagning håller
+    const [, , selected] = await this.db.batch([
+      this.db
+        .prepare('UPDATE tc_log SET selected = 0, synced = 0 WHERE post_id = ? AND selected = 1 AND take_nr IS NOT ?')
+        .bind(postId, takeNr),
+      this.db
+        .prepare('UPDATE tc_log SET selected = 1, synced = 0 WHERE post_id = ? AND take_nr = ? AND selected = 0')
+        .bind(postId, takeNr),
+      this.db.prepare('SELECT * FROM tc_log WHERE post_id = ? ORDER BY take_nr').bind(postId),
+    ]);
+
+    return (selected.results as Record<string, unknown>[]).map(decodeTake);
+  }
+
+  // ==========================================================================
+  // RECORDING SESSIONS
+  // ==========================================================================
+
+  async listSessions(filter: SessionFilter = {}): Promise<RecordingSession[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.session_key) {
+      conditions.push('session_key = ?');
+      params.push(filter.session_key);
+    }
+    if (filter.session_date) {
+      conditions.push('session_date = ?');
+      params.push(filter.session_date);
+    }
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT session_key, name, session_date, start_time, end_time, location, notes
+         FROM recording_sessions${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY session_date IS NULL, session_date, start_time, session_key`
+      )
+      .bind(...params)
+      .all();
+
+    return results as unknown as RecordingSession[];
+  }
+
+  // ==========================================================================
+  // VIEWS
+  // ==========================================================================
+
+  async schedule(sessionKey: string): Promise<Record<string, unknown>[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM recording_schedule WHERE recording_day = ?
+         ORDER BY recording_slot IS NULL, recording_slot, program_nr, sort_order`
+      )
+      .bind(sessionKey)
+      .all();
+
+    return results.map((row) => ({
+      ...row,
+      people_ids: typeof row.people_ids === 'string' ? JSON.parse(row.people_ids) : null,
+    }));
+  }
+
+  async programStats(): Promise<Record<string, unknown>[]> {
+    const { results } = await this.db.prepare('SELECT * FROM program_stats ORDER BY program_nr').all();
+    return results;
+  }
+
+  // ==========================================================================
+  // CLIP COUNTER
+  // ==========================================================================
+
+  async nextClipNumber(): Promise<number> {
+    const row = await this.db.prepare(`SELECT ${NEXT_CLIP_SQL} AS clip_nr`).first<{ clip_nr: number }>();
+    return row!.clip_nr;
+  }
+
+  async incrementClipCounter(): Promise<number> {
+    // En enda sats: SQLite serialiserar skrivningar, två knapptryck får olika nummer
+    const row = await this.db
+      .prepare(
+        `UPDATE counters SET value = ${NEXT_CLIP_SQL}, updated_at = ?
+         WHERE name = 'clip_counter' RETURNING value`
+      )
+      .bind(new Date().toISOString())
+      .first<{ value: number }>();
+
+    return row!.value;
+  }
+
+  // ==========================================================================
+  // SYNC STATUS, CLIENTS & USERS
+  // ==========================================================================
+
+  async recordSyncStatus(entityType: string, entityId: string, source: string, sheetsVersion?: number): Promise<void> {
+    const now = new Date().toISOString();
+    const fromSheets = source === 'sheets' || sheetsVersion !== undefined;
+
+    try {
+      await this.db
+        .prepare(
+          `INSERT INTO sync_status (entity_type, entity_id, db_version, sheets_version, last_db_sync, last_sheets_sync, updated_at)
+           SELECT ?1, ?2, current.version, CASE WHEN ?3 THEN COALESCE(?4, current.version) ELSE 0 END,
+                  ?5, CASE WHEN ?3 THEN ?5 END, ?5
+           FROM (SELECT COALESCE((SELECT version FROM posts WHERE ?1 = 'post' AND post_id = ?2), 0) AS version) current
+           WHERE true
+           ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+             db_version = excluded.db_version,
+             sheets_version = CASE WHEN ?3 THEN excluded.sheets_version ELSE sync_status.sheets_version END,
+             last_db_sync = excluded.last_db_sync,
+             last_sheets_sync = COALESCE(excluded.last_sheets_sync, sync_status.last_sheets_sync),
+             updated_at = excluded.updated_at`
+        )
+        .bind(entityType, entityId, fromSheets ? 1 : 0, sheetsVersion ?? null, now)
+        .run();
+    } catch (error) {
+      console.error(`Sync status for ${entityType} ${entityId} failed:`, (error as Error).message);
+    }
+  }
+
+  async findApiClient(keyHash: string): Promise<ApiClient | null> {
+    const row = await this.db
+      .prepare('SELECT name, scopes FROM api_clients WHERE key_hash = ? AND revoked_at IS NULL')
+      .bind(keyHash)
+      .first<{ name: string; scopes: string }>();
+
+    return row ? { name: row.name, scopes: JSON.parse(row.scopes) as ApiScope[] } : null;
+  }
+
+  async findUserRole(userId: string): Promise<UserRole | null> {
+    const row = await this.db
+      .prepare('SELECT role FROM user_roles WHERE user_id = ?')
+      .bind(userId)
+      .first<{ role: UserRole }>();
+
+    return row?.role ?? null;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Samma regel som next_clip_number() i Supabase
+const NEXT_CLIP_SQL = `MAX(
+  COALESCE((SELECT value FROM counters WHERE name = 'clip_counter'), 0),
+  COALESCE((SELECT MAX(clip_nr) FROM tc_log), 0)
+) + 1`;
+
+function postWhere(filter: PostFilter): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.program_nr) {
+    conditions.push('program_nr = ?');
+    params.push(filter.program_nr);
+  }
+  if (filter.status) {
+    conditions.push('status = ?');
+    params.push(filter.status);
+  }
+  if (filter.recording_day) {
+    conditions.push('recording_day = ?');
+    params.push(filter.recording_day);
+  }
+  if (filter.post_ids) {
+    conditions.push(`post_id IN (${filter.post_ids.map(() => '?').join(', ') || 'NULL'})`);
+    params.push(...filter.post_ids);
+  }
+
+  return { where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+function encodePost(fields: Record<string, unknown>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const column of POST_COLUMNS) {
+    if (fields[column] === undefined) continue;
+
+    const value = fields[column];
+    if (column === 'people_ids') {
+      values[column] = value === null ? null : JSON.stringify(value);
+    } else if (column === 'open_text') {
+      values[column] = value ? 1 : 0;
+    } else {
+      values[column] = value;
+    }
+  }
+
+  return values;
+}
+
+function decodePost(row: Record<string, unknown>): PostRow {
+  const { synced_version: _synced, ...post } = row;
+
+  return {
+    ...post,
+    people_ids: typeof row.people_ids === 'string' ? JSON.parse(row.people_ids) : null,
+    open_text: row.open_text === 1,
+  } as unknown as PostRow;
+}
+
+function encodeTake(fields: Partial<TcLogRow>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const column of TAKE_COLUMNS) {
+    const value = fields[column as keyof TcLogRow];
+    if (value === undefined) continue;
+    values[column] = column === 'selected' ? (value ? 1 : 0) : value;
+  }
+
+  return values;
+}
+
+function decodeTake(row: Record<string, unknown>): TcLogRow {
+  const { synced: _synced, ...take } = row;
+  return { ...take, selected: row.selected === 1 } as TcLogRow;
+}
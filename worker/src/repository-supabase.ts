@@ -0,0 +1,268 @@
+/**
+ * Supabase Repository
+ *
+ * Repository backed by the production database. Views (posts_active,
+ * recording_schedule, program_stats) and RPCs (select_take, the clip
+ * counter, record_sync_status) do the work; this class only maps rows.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ApiClient, UserRole } from './auth';
+import { PostFilter, PostRow, PostUpdateOptions, Repository, SessionFilter, TcLogRow } from './repository';
+import { updateSyncStatus } from './sync-status';
+import { Person, Post, Program, RecordingSession } from './types';
+
+export class SupabaseRepository implements Repository {
+  readonly backend = 'supabase' as const;
+
+  /** For the features that only exist in Supabase (history, trash, webhooks …). */
+  readonly client: SupabaseClient;
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  // ==========================================================================
+  // POSTS
+  // ==========================================================================
+
+  async listPosts(filter: PostFilter = {}): Promise<PostRow[]> {
+    let query = this.client
+      .from('posts_active')
+      .select('*')
+      .order('program_nr')
+      .order('sort_order');
+
+    if (filter.program_nr) query = query.eq('program_nr', filter.program_nr);
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.recording_day) query = query.eq('recording_day', filter.recording_day);
+    if (filter.post_ids) query = query.in('post_id', filter.post_ids);
+    if (filter.limit) query = query.limit(filter.limit);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return data as PostRow[];
+  }
+
+  async countPosts(filter: PostFilter = {}): Promise<number> {
+    let query = this.client
+      .from('posts_active')
+      .select('post_id', { count: 'exact', head: true });
+
+    if (filter.program_nr) query = query.eq('program_nr', filter.program_nr);
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.recording_day) query = query.eq('recording_day', filter.recording_day);
+    if (filter.post_ids) query = query.in('post_id', filter.post_ids);
+
+    const { count, error } = await query;
+    if (error) throw new Error(error.message);
+    return count ?? 0;
+  }
+
+  async getPost(postId: string, options: { include_deleted?: boolean } = {}): Promise<PostRow | null> {
+    const { data, error } = await this.client
+      .from(options.include_deleted ? 'posts' : 'posts_active')
+      .select('*')
+      .eq('post_id', postId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  async insertPost(post: Partial<Post>): Promise<PostRow> {
+    const { data, error } = await this.client.from('posts').insert(post).select().single();
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  async updatePost(
+    postId: string,
+    fields: Record<string, unknown>,
+    options: PostUpdateOptions = {}
+  ): Promise<PostRow | null> {
+    let query = this.client.from('posts').update(fields).eq('post_id', postId);
+
+    if (options.version !== undefined) query = query.eq('version', options.version);
+    if (options.from_status) query = query.in('status', options.from_status);
+    if (options.active_only) query = query.is('deleted_at', null);
+
+    const { data, error } = await query.select().maybeSingle();
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  // ==========================================================================
+  // PROGRAMS
+  // ==========================================================================
+
+  async getProgram(programNr: number): Promise<Program | null> {
+    const { data, error } = await this.client
+      .from('programs')
+      .select('*')
+      .eq('program_nr', programNr)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  // ==========================================================================
+  // PEOPLE
+  // ==========================================================================
+
+  async listPeople(personIds?: string[]): Promise<Person[]> {
+    let query = this.client
+      .from('people')
+      .select('person_id, name, roles, contact, type, availability, version')
+      .order('person_id');
+
+    if (personIds) query = query.in('person_id', personIds);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  // ==========================================================================
+  // TAKES
+  // ==========================================================================
+
+  async listTakes(postIds: string[], options: { closed_only?: boolean } = {}): Promise<TcLogRow[]> {
+    let query = this.client.from('tc_log').select('*').in('post_id', postIds).order('take_nr');
+    if (options.closed_only) query = query.not('tc_out', 'is', null);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  async latestTake(postId: string, options: { open_only?: boolean } = {}): Promise<TcLogRow | null> {
+    let query = this.client.from('tc_log').select('*').eq('post_id', postId);
+    if (options.open_only) query = query.is('tc_out', null);
+
+    const { data, error } = await query
+      .order('take_nr', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  async insertTake(take: Omit<Partial<TcLogRow>, 'take_nr'>): Promise<TcLogRow> {
+    const { data, error } = await this.client.rpc('insert_take', { p_take: take });
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  async updateTake(postId: string, takeNr: number, fields: Partial<TcLogRow>): Promise<TcLogRow | null> {
+    const { data, error } = await this.client
+      .from('tc_log')
+      .update(fields)
+      .eq('post_id', postId)
+      .eq('take_nr', takeNr)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  async selectTake(postId: string, takeNr: number | null): Promise<TcLogRow[] | null> {
+    const { data, error } = await this.client.rpc('select_take', {
+      p_post_id: postId,
+      p_take_nr: takeNr,
+    });
+
+    if (error?.code === 'P0002') return null;
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  // ==========================================================================
+  // RECORDING SESSIONS
+  // ==========================================================================
+
+  async listSessions(filter: SessionFilter = {}): Promise<RecordingSession[]> {
+    let query = this.client
+      .from('recording_sessions')
+      .select('session_key, name, session_date, start_time, end_time, location, notes')
+      .order('session_date', { nullsFirst: false })
+      .order('start_time')
+      .order('session_key');
+
+    if (filter.session_key) query = query.eq('session_key', filter.session_key);
+    if (filter.session_date) query = query.eq('session_date', filter.session_date);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  // ==========================================================================
+  // VIEWS
+  // ==========================================================================
+
+  async schedule(sessionKey: string): Promise<Record<string, unknown>[]> {
+    const { data, error } = await this.client
+      .from('recording_schedule')
+      .select('*')
+      .eq('recording_day', sessionKey);
+
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  async programStats(): Promise<Record<string, unknown>[]> {
+    const { data, error } = await this.client.from('program_stats').select('*');
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  // ==========================================================================
+  // CLIP COUNTER
+  // ==========================================================================
+
+  async nextClipNumber(): Promise<number> {
+    const { data, error } = await this.client.rpc('next_clip_number');
+    if (error) throw new Error(error.message);
+    return data as number;
+  }
+
+  async incrementClipCounter(): Promise<number> {
+    const { data, error } = await this.client.rpc('increment_clip_counter');
+    if (error) throw new Error(error.message);
+    return data as number;
+  }
+
+  // ==========================================================================
+  // SYNC STATUS, CLIENTS & USERS
+  // ==========================================================================
+
+  recordSyncStatus(entityType: string, entityId: string, source: string, sheetsVersion?: number): Promise<void> {
+    return updateSyncStatus(this.client, entityType, entityId, source, sheetsVersion);
+  }
+
+  async findApiClient(keyHash: string): Promise<ApiClient | null> {
+    const { data } = await this.client
+      .from('api_clients')
+      .select('name, scopes')
+      .eq('key_hash', keyHash)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    return data ? { name: data.name, scopes: data.scopes } : null;
+  }
+
+  async findUserRole(userId: string): Promise<UserRole | null> {
+    const { data, error } = await this.client
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data?.role ?? null;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Repository
+ *
+ * Storage interface for the data a recording session needs: posts,
+ * programmes, people, takes (tc_log), recording sessions, the clip counter,
+ * sync status, the schedule and statistics views, API clients and user
+ * roles. Two backends:
+ *
+ * - supabase (default): the production database
+ * - sqlite: a D1 database, which `wrangler dev` keeps as a local SQLite
+ *   file (or in memory under Miniflare), so a production can run on a
+ *   laptop without connectivity and push its data to Supabase later
+ *
+ * Features built on Postgres triggers and RPCs (history, merge, trash,
+ * running order, webhooks, events, idempotency) stay Supabase-only.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { ApiClient, UserRole } from './auth';
+import { SqliteRepository } from './repository-sqlite';
+import { SupabaseRepository } from './repository-supabase';
+import { Env, Person, Post, Program, RecordingSession } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StorageBackend = 'supabase' | 'sqlite';
+
+/** Post row; posts_active adds type and programme columns. */
+export type PostRow = Post & Record<string, unknown>;
+
+export interface TcLogRow {
+  id: string;
+  post_id: string;
+  take_nr: number;
+  operator: string | null;
+  tc_in: string | null;
+  tc_out: string | null;
+  clip_nr: number | null;
+  frame_rate: string | null;
+  duration_frames: number | null;
+  duration_sec: number | null;
+  notes: string | null;
+  verdict: 'good' | 'ng' | 'keep' | null;
+  selected: boolean;
+  created_at: string;
+}
+
+export interface PostFilter {
+  program_nr?: number | null;
+  status?: string | null;
+  recording_day?: string | null;
+  post_ids?: string[];
+  limit?: number;
+}
+
+export interface SessionFilter {
+  session_key?: string | null;
+  session_date?: string | null;
+}
+
+export interface PostUpdateOptions {
+  version?: number;          // Bara om versionen stämmer (optimistisk låsning)
+  from_status?: string[];    // Bara poster med en av dessa statusar
+  active_only?: boolean;     // Inte raderade poster
+}
+
+export interface Repository {
+  readonly backend: StorageBackend;
+
+  // Poster
+  listPosts(filter?: PostFilter): Promise<PostRow[]>;
+  countPosts(filter?: PostFilter): Promise<number>;
+  getPost(postId: string, options?: { include_deleted?: boolean }): Promise<PostRow | null>;
+  insertPost(post: Partial<Post>): Promise<PostRow>;
+  updatePost(postId: string, fields: Record<string, unknown>, options?: PostUpdateOptions): Promise<PostRow | null>;
+
+  // Program
+  getProgram(programNr: number): Promise<Program | null>;
+
+  // Medverkande (alla, eller bara de angivna)
+  listPeople(personIds?: string[]): Promise<Person[]>;
+
+  // Tagningar
+  listTakes(postIds: string[], options?: { closed_only?: boolean }): Promise<TcLogRow[]>;
+  latestTake(postId: string, options?: { open_only?: boolean }): Promise<TcLogRow | null>;
+  /** Insert the post's next take; take_nr is allocated atomically. */
+  insertTake(take: Omit<Partial<TcLogRow>, 'take_nr'>): Promise<TcLogRow>;
+  updateTake(postId: string, takeNr: number, fields: Partial<TcLogRow>): Promise<TcLogRow | null>;
+  /** Select one take (null clears the selection). Null when the take does not exist. */
+  selectTake(postId: string, takeNr: number | null): Promise<TcLogRow[] | null>;
+
+  // Inspelningspass, i tidsordning
+  listSessions(filter?: SessionFilter): Promise<RecordingSession[]>;
+
+  // Vyer
+  /** Posts of one session: fixed slots first, then running order. */
+  schedule(sessionKey: string): Promise<Record<string, unknown>[]>;
+  programStats(): Promise<Record<string, unknown>[]>;
+
+  // Klippräknare
+  nextClipNumber(): Promise<number>;
+  incrementClipCounter(): Promise<number>;
+
+  // Synkstatus (loggar fel, kastar aldrig)
+  recordSyncStatus(entityType: string, entityId: string, source: string, sheetsVersion?: number): Promise<void>;
+
+  // API-klienter och användare
+  findApiClient(keyHash: string): Promise<ApiClient | null>;
+  findUserRole(userId: string): Promise<UserRole | null>;
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Repository for the configured backend (`STORAGE`). Writes are
+ * attributed to `client`: an API client by name (last_modified_client),
+ * a signed-in user by email (audit_log.user_email).
+ */
+export function createRepository(env: Env, client?: ApiClient): Repository {
+  if (storageBackend(env) === 'sqlite') {
+    if (!env.DB) {
+      throw new Error('STORAGE = "sqlite" needs a D1 binding named DB');
+    }
+    return new SqliteRepository(env.DB, client?.name);
+  }
+
+  // Databasen attribuerar skrivningar via X-Api-Client respektive X-User-Email
+  const headers: Record<string, string> | null = client?.user
+    ? { 'X-User-Email': client.user.email }
+    : client ? { 'X-Api-Client': client.name } : null;
+
+  return new SupabaseRepository(
+    createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY, headers ? { global: { headers } } : undefined)
+  );
+}
+
+export function storageBackend(env: Env): StorageBackend {
+  return env.STORAGE === 'sqlite' ? 'sqlite' : 'supabase';
+}
@@ -0,0 +1,242 @@
+/**
+ * Running Order
+ *
+ * Move, insert and renumber operations for a programme's posts. The new
+ * order is computed here and written by apply_running_order() in one
+ * transaction, so sort_order is never left duplicated or gapped and the
+ * whole reorder appears in audit_log as one logical change.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { CorsHeaders } from './types';
+import { FieldError, POST_ID_PATTERN, validatePost } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ReorderOperation = 'move' | 'insert_before' | 'insert_after' | 'renumber' | 'set';
+
+interface ReorderRequest {
+  program: number;
+  operation: ReorderOperation;
+  post_id?: string;      // move, insert_before, insert_after
+  to_index?: number;     // move (0-baserat)
+  anchor_id?: string;    // insert_before, insert_after
+  post?: Record<string, unknown>;  // insert_*: ny post istället för post_id
+  order?: string[];      // set: hela ordningen
+}
+
+const OPERATIONS: ReorderOperation[] = ['move', 'insert_before', 'insert_after', 'renumber', 'set'];
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET  /api/running-order?program=1 — current order
+ * POST /api/running-order           — apply a ReorderRequest
+ */
+export async function handleRunningOrder(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method === 'GET') {
+    const url = new URL(request.url);
+    const programNr = parseInt(url.searchParams.get('program') || '');
+
+    if (!(programNr >= 1 && programNr <= 4)) {
+      return validationErrorResponse(
+        [{ field: 'program', message: 'must be an integer between 1 and 4' }],
+        corsHeaders
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('posts_active')
+      .select('post_id, sort_order, title, version')
+      .eq('program_nr', programNr)
+      .order('sort_order');
+
+    if (error) {
+      return jsonResponse({ error: error.message }, corsHeaders, 500);
+    }
+
+    return jsonResponse({ success: true, program_nr: programNr, order: data }, corsHeaders);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = await readJsonBody(request);
+  const errors = validateReorderRequest(body);
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const req = body as ReorderRequest;
+
+  const { data: rows, error: fetchError } = await supabase
+    .from('posts')
+    .select('post_id')
+    .eq('program_nr', req.program)
+    .is('deleted_at', null)
+    .order('sort_order')
+    .order('post_id');
+
+  if (fetchError) {
+    return jsonResponse({ error: fetchError.message }, corsHeaders, 500);
+  }
+
+  const current = (rows ?? []).map((row) => row.post_id as string);
+  const planned = planOrder(current, req);
+
+  if ('errors' in planned) {
+    return validationErrorResponse(planned.errors, corsHeaders);
+  }
+
+  const { data: result, error } = await supabase.rpc('apply_running_order', {
+    p_program_nr: req.program,
+    p_order: planned.order,
+    p_expected: current,
+    p_new_post: req.post ?? null,
+    p_source: 'api',
+  });
+
+  if (error) {
+    if (error.code === '40001') {
+      return jsonResponse(
+        { error: 'Conflict', message: 'Running order changed while reordering, retry' },
+        corsHeaders,
+        409
+      );
+    }
+    if (error.code === '22023') {
+      return validationErrorResponse([{ field: 'order', message: error.message }], corsHeaders);
+    }
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse(
+    {
+      success: true,
+      program_nr: req.program,
+      batch_id: result.batch_id,
+      order: result.order,
+    },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// ORDER PLANNING
+// ============================================================================
+
+/**
+ * Compute the new post_id order for a request, given the current order.
+ */
+function planOrder(
+  current: string[],
+  req: ReorderRequest
+): { order: string[] } | { errors: FieldError[] } {
+  switch (req.operation) {
+    case 'renumber':
+      return { order: current };
+
+    case 'set':
+      return { order: req.order! };
+
+    case 'move': {
+      const postId = req.post_id!;
+      if (!current.includes(postId)) {
+        return { errors: [{ field: 'post_id', message: `is not an active post in program ${req.program}` }] };
+      }
+
+      const rest = current.filter((id) => id !== postId);
+      const index = Math.min(req.to_index!, rest.length);
+      return { order: [...rest.slice(0, index), postId, ...rest.slice(index)] };
+    }
+
+    case 'insert_before':
+    case 'insert_after': {
+      const postId = (req.post?.post_id as string | undefined) ?? req.post_id!;
+      const anchorId = req.anchor_id!;
+
+      if (!req.post && !current.includes(postId)) {
+        return { errors: [{ field: 'post_id', message: `is not an active post in program ${req.program}` }] };
+      }
+      if (req.post && current.includes(postId)) {
+        return { errors: [{ field: 'post.post_id', message: 'already exists in the running order' }] };
+      }
+      if (!current.includes(anchorId) || anchorId === postId) {
+        return { errors: [{ field: 'anchor_id', message: `is not another active post in program ${req.program}` }] };
+      }
+
+      const rest = current.filter((id) => id !== postId);
+      const anchorIndex = rest.indexOf(anchorId);
+      const index = req.operation === 'insert_before' ? anchorIndex : anchorIndex + 1;
+      return { order: [...rest.slice(0, index), postId, ...rest.slice(index)] };
+    }
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validateReorderRequest(body: unknown): FieldError[] {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return [{ field: 'body', message: 'must be a JSON object' }];
+  }
+
+  const req = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const isPostId = (v: unknown) => typeof v === 'string' && POST_ID_PATTERN.test(v);
+
+  if (typeof req.program !== 'number' || !Number.isInteger(req.program) || req.program < 1 || req.program > 4) {
+    errors.push({ field: 'program', message: 'must be an integer between 1 and 4' });
+  }
+
+  if (!OPERATIONS.includes(req.operation as ReorderOperation)) {
+    errors.push({ field: 'operation', message: `must be one of: ${OPERATIONS.join(', ')}` });
+    return errors;
+  }
+
+  switch (req.operation) {
+    case 'move':
+      if (!isPostId(req.post_id)) {
+        errors.push({ field: 'post_id', message: 'must match format P<program>:<n>' });
+      }
+      if (typeof req.to_index !== 'number' || !Number.isInteger(req.to_index) || req.to_index < 0) {
+        errors.push({ field: 'to_index', message: 'must be an integer >= 0' });
+      }
+      break;
+
+    case 'insert_before':
+    case 'insert_after':
+      if (!isPostId(req.anchor_id)) {
+        errors.push({ field: 'anchor_id', message: 'must match format P<program>:<n>' });
+      }
+      if (req.post !== undefined) {
+        // sort_order sätts av den nya ordningen
+        const { sort_order: _sortOrder, ...post } = (req.post ?? {}) as Record<string, unknown>;
+        errors.push(...validatePost({ program_nr: req.program, ...post, sort_order: 0 }, { prefix: 'post.' }));
+      } else if (!isPostId(req.post_id)) {
+        errors.push({ field: 'post_id', message: 'must match format P<program>:<n> (or send post)' });
+      }
+      break;
+
+    case 'set':
+      if (!Array.isArray(req.order) || !req.order.every(isPostId)) {
+        errors.push({ field: 'order', message: 'must be an array of post_ids' });
+      } else if (new Set(req.order).size !== req.order.length) {
+        errors.push({ field: 'order', message: 'must not contain duplicates' });
+      }
+      break;
+  }
+
+  return errors;
+}
@@ -0,0 +1,199 @@
+/**
+ * Recording Sessions & Schedule
+ *
+ * A production records in sessions: days, or blocks within a day (morning
+ * and evening), each with a date, start and end time and location. Posts
+ * are assigned to a session through recording_day (the session_key) and
+ * may have a fixed slot (recording_slot). The schedule lays each session's
+ * posts out in time slots from its start time.
+ */
+
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { Repository } from './repository';
+import { SupabaseRepository } from './repository-supabase';
+import { clockToSeconds, secondsToClock } from './timing';
+import { CorsHeaders, RecordingSession } from './types';
+import { DATE_PATTERN, FieldError, isSessionKey, validateSession } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScheduleSlot {
+  post_id: string;
+  program_nr: number;
+  sort_order: number;
+  title: string | null;
+  type_name: string | null;
+  icon: string | null;
+  status: string;
+  duration_sec: number;
+  people_ids: string[];
+  fixed_slot: string | null;  // recording_slot
+  start: string;              // HH:MM:SS
+  end: string;
+  late_sec: number;           // Hur långt efter sin fasta tid posten börjar
+}
+
+export interface SessionPlan extends RecordingSession {
+  planned_end: string;
+  overrun_sec: number | null;  // Positivt = passet drar över end_time
+  slots: ScheduleSlot[];
+}
+
+// "Idag" är datumet där inspelningen görs
+const PRODUCTION_TIME_ZONE = 'Europe/Stockholm';
+
+const SECONDS_PER_DAY = 24 * 3600;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/schedule?session=dag1 — one session
+ * GET /api/schedule?date=2026-03-14 — every session that day
+ * GET /api/schedule — today's sessions
+ *
+ * `day` is accepted as an alias of `session`.
+ */
+export async function handleSchedule(
+  request: Request,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const sessionKey = url.searchParams.get('session') ?? url.searchParams.get('day');
+  const dateParam = url.searchParams.get('date');
+  const errors: FieldError[] = [];
+
+  if (sessionKey !== null) {
+    const keyError = isSessionKey(sessionKey);
+    if (keyError) errors.push({ field: 'session', message: keyError });
+  }
+  if (dateParam !== null && !DATE_PATTERN.test(dateParam)) {
+    errors.push({ field: 'date', message: 'must match format YYYY-MM-DD' });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const date = sessionKey === null ? (dateParam ?? today()) : null;
+  const sessions = await repo.listSessions(
+    sessionKey !== null ? { session_key: sessionKey } : { session_date: date }
+  );
+
+  if (sessionKey !== null && sessions.length === 0) {
+    return jsonResponse({ error: 'Session not found', session: sessionKey }, corsHeaders, 404);
+  }
+
+  const plans = await Promise.all(
+    sessions.map(async (session) => buildSessionPlan(session, await repo.schedule(session.session_key)))
+  );
+
+  return jsonResponse({ success: true, date, sessions: plans }, corsHeaders);
+}
+
+/**
+ * GET  /api/sessions — every session in time order
+ * POST /api/sessions — create or update a session by session_key
+ * Body: { session_key, name, session_date?, start_time?, end_time?, location?, notes? }
+ */
+export async function handleSessions(
+  request: Request,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method === 'GET') {
+    return jsonResponse({ success: true, sessions: await repo.listSessions() }, corsHeaders);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  if (!(repo instanceof SupabaseRepository)) {
+    return jsonResponse(
+      { error: 'Not available offline', message: 'Sessions are edited in Supabase and pulled with the snapshot' },
+      corsHeaders,
+      503
+    );
+  }
+
+  const body = await readJsonBody(request);
+  const errors = validateSession(body);
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const { data, error } = await repo.client
+    .from('recording_sessions')
+    .upsert(body as Partial<RecordingSession>, { onConflict: 'session_key' })
+    .select('session_key, name, session_date, start_time, end_time, location, notes')
+    .single();
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse({ success: true, session: data }, corsHeaders);
+}
+
+// ============================================================================
+// DAY PLAN
+// ============================================================================
+
+/**
+ * Lay out a session's posts (already ordered: fixed slots first, then
+ * running order). Each post starts at its fixed slot or when the previous
+ * one ends, whichever is later; a fixed slot that has already passed is
+ * reported as late_sec.
+ */
+export function buildSessionPlan(session: RecordingSession, rows: Record<string, unknown>[]): SessionPlan {
+  const start = clockToSeconds(session.start_time);
+  let cursor = start;
+
+  const slots = rows.map((row): ScheduleSlot => {
+    const fixedSlot = (row.recording_slot as string | null) ?? null;
+    const fixed = fixedSlot === null ? null : clockToSeconds(fixedSlot);
+    const slotStart = fixed === null ? cursor : Math.max(fixed, cursor);
+    const duration = (row.duration_sec as number | null) ?? 0;
+    cursor = slotStart + duration;
+
+    return {
+      post_id: row.post_id as string,
+      program_nr: row.program_nr as number,
+      sort_order: row.sort_order as number,
+      title: (row.title as string | null) ?? null,
+      type_name: (row.type_name as string | null) ?? null,
+      icon: (row.icon as string | null) ?? null,
+      status: row.status as string,
+      duration_sec: duration,
+      people_ids: (row.people_ids as string[] | null) ?? [],
+      fixed_slot: fixedSlot,
+      start: secondsToClock(slotStart),
+      end: secondsToClock(cursor),
+      late_sec: fixed === null ? 0 : slotStart - fixed,
+    };
+  });
+
+  let end: number | null = session.end_time ? clockToSeconds(session.end_time) : null;
+  // Ett kvällspass kan sluta efter midnatt
+  if (end !== null && end < start) end += SECONDS_PER_DAY;
+
+  return {
+    ...session,
+    planned_end: secondsToClock(cursor),
+    overrun_sec: end === null ? null : cursor - end,
+    slots,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function today(): string {
+  // sv-SE formaterar som YYYY-MM-DD
+  return new Intl.DateTimeFormat('sv-SE', { timeZone: PRODUCTION_TIME_ZONE }).format(new Date());
+}
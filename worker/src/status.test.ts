@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ApiClient } from './auth';
+import { PostRow, Repository } from './repository';
+import {
+  checkApproval,
+  handlePostStatus,
+  isStatusTransitionAllowed,
+  POST_STATUS_TRANSITIONS,
+  statusTransitionError,
+} from './status';
+import { POST_STATUSES } from './validation';
+
+const PRODUCER: ApiClient = { name: 'producent', scopes: ['read', 'status', 'approve', 'override'] };
+const FLOOR: ApiClient = { name: 'golvet', scopes: ['read', 'status'] };
+
+// Bara de repository-metoder som handlern använder
+function fakeRepo(post: Partial<PostRow> | null) {
+  const repo = {
+    getPost: vi.fn(async () => post as PostRow | null),
+    updatePost: vi.fn(async (_id: string, fields: Record<string, unknown>) => ({ ...post, ...fields, version: (post?.version ?? 0) + 1 }) as PostRow),
+    recordSyncStatus: vi.fn(async () => {}),
+  };
+  return repo as typeof repo & Repository;
+}
+
+function statusRequest(body: unknown): Request {
+  return new Request('https://worker.test/api/post/status', { method: 'POST', body: JSON.stringify(body) });
+}
+
+describe('POST_STATUS_TRANSITIONS', () => {
+  it('has an entry for every post status', () => {
+    expect(Object.keys(POST_STATUS_TRANSITIONS).sort()).toEqual([...POST_STATUSES].sort());
+  });
+
+  it('follows planerad → recording → inspelad → godkand with the documented ways back', () => {
+    expect(isStatusTransitionAllowed('planerad', 'recording')).toBe(true);
+    expect(isStatusTransitionAllowed('recording', 'planerad')).toBe(true);
+    expect(isStatusTransitionAllowed('inspelad', 'recording')).toBe(true);
+    expect(isStatusTransitionAllowed('godkand', 'inspelad')).toBe(true);
+
+    expect(isStatusTransitionAllowed('planerad', 'godkand')).toBe(false);
+    expect(isStatusTransitionAllowed('godkand', 'planerad')).toBe(false);
+    expect(isStatusTransitionAllowed('recording', 'godkand')).toBe(false);
+  });
+
+  it('always allows staying put and a first status', () => {
+    for (const status of POST_STATUSES) {
+      expect(isStatusTransitionAllowed(status, status)).toBe(true);
+      expect(isStatusTransitionAllowed(undefined, status)).toBe(true);
+    }
+  });
+});
+
+describe('statusTransitionError', () => {
+  it('names the moves that are allowed', () => {
+    expect(statusTransitionError('planerad', 'godkand')).toEqual({
+      field: 'status',
+      message: 'cannot change from planerad to godkand; allowed from planerad: recording',
+    });
+    expect(statusTransitionError('inspelad', 'godkand', 'data.status')).toBeNull();
+  });
+});
+
+describe('checkApproval', () => {
+  it('needs the approve scope to approve or un-approve', async () => {
+    expect(checkApproval(FLOOR, 'inspelad', 'recording', {})).toBeNull();
+    expect(checkApproval(PRODUCER, 'inspelad', 'godkand', {})).toBeNull();
+    expect(checkApproval(null, 'inspelad', 'godkand', {})).toBeNull();
+
+    const denied = checkApproval(FLOOR, 'godkand', 'inspelad', {});
+    expect(denied?.status).toBe(403);
+    expect(await denied?.json()).toMatchObject({ message: 'API client "golvet" lacks scope "approve"' });
+  });
+});
+
+describe('handlePostStatus', () => {
+  it('moves the post and records the sync status', async () => {
+    const repo = fakeRepo({ post_id: 'P1:5', status: 'planerad', version: 2 });
+    const response = await handlePostStatus(statusRequest({ post_id: 'P1:5', status: 'recording', version: 2 }), repo, FLOOR, {});
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, from: 'planerad', to: 'recording', override: false });
+    expect(repo.updatePost).toHaveBeenCalledWith(
+      'P1:5',
+      { status: 'recording', last_modified_by: 'api' },
+      { version: 2, active_only: true }
+    );
+    expect(repo.recordSyncStatus).toHaveBeenCalledWith('post', 'P1:5', 'api');
+  });
+
+  it('rejects an illegal move with 422 and a stale version with 409', async () => {
+    const repo = fakeRepo({ post_id: 'P1:5', status: 'planerad', version: 2 });
+
+    const illegal = await handlePostStatus(statusRequest({ post_id: 'P1:5', status: 'godkand' }), repo, PRODUCER, {});
+    expect(illegal.status).toBe(422);
+
+    const stale = await handlePostStatus(statusRequest({ post_id: 'P1:5', status: 'recording', version: 1 }), repo, FLOOR, {});
+    expect(stale.status).toBe(409);
+    expect(await stale.json()).toMatchObject({ server_version: 2, your_version: 1 });
+
+    expect(repo.updatePost).not.toHaveBeenCalled();
+  });
+
+  it('refuses approval without the approve scope', async () => {
+    const repo = fakeRepo({ post_id: 'P1:5', status: 'inspelad', version: 4 });
+    const response = await handlePostStatus(statusRequest({ post_id: 'P1:5', status: 'godkand' }), repo, FLOOR, {});
+
+    expect(response.status).toBe(403);
+    expect(repo.updatePost).not.toHaveBeenCalled();
+  });
+
+  it('requires a reason with override and the override scope', async () => {
+    const repo = fakeRepo({ post_id: 'P1:5', status: 'planerad', version: 1 });
+
+    const missing = await handlePostStatus(statusRequest({ post_id: 'P1:5', status: 'godkand', override: true }), repo, PRODUCER, {});
+    expect(missing.status).toBe(422);
+    expect(await missing.json()).toMatchObject({ details: [{ field: 'reason' }] });
+
+    const denied = await handlePostStatus(
+      statusRequest({ post_id: 'P1:5', status: 'godkand', override: true, reason: 'Godkänd på plats' }),
+      repo,
+      FLOOR,
+      {}
+    );
+    expect(denied.status).toBe(403);
+  });
+
+  it('answers 404 for an unknown post', async () => {
+    const response = await handlePostStatus(statusRequest({ post_id: 'P1:99', status: 'recording' }), fakeRepo(null), FLOOR, {});
+
+    expect(response.status).toBe(404);
+  });
+});
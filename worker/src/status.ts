@@ -0,0 +1,203 @@
+/**
+ * Post Status
+ *
+ * The status state machine: planerad → recording → inspelad → godkand,
+ * with explicit paths for an aborted take, a retake, a reset and
+ * un-approving. Every write route checks transitions here; the
+ * enforce_post_status trigger checks them again in the database, so a
+ * client writing to Supabase directly cannot bypass them. Approving and
+ * un-approving also need the `approve` scope. A client with the
+ * `override` scope can force any status with a reason, which is stored
+ * in audit_log.reason.
+ */
+
+import { ApiClient, checkScope } from './auth';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { Repository } from './repository';
+import { SupabaseRepository } from './repository-supabase';
+import { CorsHeaders } from './types';
+import { FieldError, POST_ID_PATTERN, POST_STATUSES, PostStatus } from './validation';
+
+// ============================================================================
+// STATE MACHINE
+// ============================================================================
+
+/**
+ * Allowed moves per status. Must match post_status_allowed() in
+ * supabase/schema.sql. Staying on the same status is always allowed.
+ */
+export const POST_STATUS_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  planerad: ['recording'],
+  recording: ['inspelad', 'planerad'],              // klar, avbruten tagning
+  inspelad: ['godkand', 'recording', 'planerad'],   // godkänn, omtagning, återställ
+  godkand: ['inspelad'],                            // ångra godkännande
+};
+
+const MAX_REASON_LENGTH = 500;
+
+export function isStatusTransitionAllowed(from: string | undefined, to: string): boolean {
+  if (from === undefined || from === to) return true;
+  return POST_STATUS_TRANSITIONS[from as PostStatus]?.includes(to as PostStatus) ?? false;
+}
+
+/**
+ * Field error for an illegal move, naming the moves that are allowed.
+ */
+export function statusTransitionError(
+  from: string | undefined,
+  to: string,
+  field = 'status'
+): FieldError | null {
+  if (isStatusTransitionAllowed(from, to)) return null;
+
+  const allowed = POST_STATUS_TRANSITIONS[from as PostStatus] ?? [];
+  return {
+    field,
+    message: `cannot change from ${from} to ${to}; allowed from ${from}: ${allowed.join(', ') || 'none'}`,
+  };
+}
+
+/**
+ * 403 when a move approves or un-approves a post and the client lacks the
+ * `approve` scope, else null. Without a client (Sheets, which signs with
+ * the webhook secret) there is nothing to check.
+ */
+export function checkApproval(
+  client: ApiClient | null,
+  from: string | undefined,
+  to: string | undefined,
+  corsHeaders: CorsHeaders
+): Response | null {
+  if (!client || to === undefined || from === to) return null;
+  if (from !== 'godkand' && to !== 'godkand') return null;
+
+  return checkScope(client, 'approve', corsHeaders);
+}
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+/**
+ * POST /api/post/status
+ * Body: { post_id, status, version?, override?, reason? }
+ *
+ * Move a post along the state machine. With `override: true` and a
+ * `reason`, a client holding the `override` scope may set any status.
+ */
+export async function handlePostStatus(
+  request: Request,
+  repo: Repository,
+  client: ApiClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+  const errors: FieldError[] = [];
+
+  if (typeof body?.post_id !== 'string' || !POST_ID_PATTERN.test(body.post_id)) {
+    errors.push({ field: 'post_id', message: 'must match format P<program>:<n>' });
+  }
+  if (!POST_STATUSES.includes(body?.status as PostStatus)) {
+    errors.push({ field: 'status', message: `must be one of: ${POST_STATUSES.join(', ')}` });
+  }
+  if (body?.version !== undefined && (typeof body.version !== 'number' || !Number.isInteger(body.version))) {
+    errors.push({ field: 'version', message: 'must be an integer' });
+  }
+  if (body?.override !== undefined && typeof body.override !== 'boolean') {
+    errors.push({ field: 'override', message: 'must be a boolean' });
+  }
+  if (body?.override === true && (typeof body.reason !== 'string' || body.reason.trim() === '' || body.reason.length > MAX_REASON_LENGTH)) {
+    errors.push({ field: 'reason', message: `is required with override (at most ${MAX_REASON_LENGTH} characters)` });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const postId = body!.post_id as string;
+  const status = body!.status as PostStatus;
+  const version = body!.version as number | undefined;
+
+  if (body!.override === true) {
+    const denied = checkScope(client, 'override', corsHeaders);
+    if (denied) return denied;
+  }
+
+  const current = await repo.getPost(postId);
+
+  if (!current) {
+    return jsonResponse({ error: 'Post not found' }, corsHeaders, 404);
+  }
+
+  if (version !== undefined && version !== current.version) {
+    return jsonResponse(
+      {
+        error: 'Conflict',
+        message: 'Post has been modified since your last read',
+        server_version: current.version,
+        your_version: version,
+      },
+      corsHeaders,
+      409
+    );
+  }
+
+  let updated: Record<string, unknown> | null;
+
+  if (body!.override === true) {
+    // Motiveringen skrivs till audit_log, som bara finns i Supabase
+    if (!(repo instanceof SupabaseRepository)) {
+      return jsonResponse(
+        { error: 'Not available offline', message: 'Status overrides are recorded in audit_log and need Supabase' },
+        corsHeaders,
+        503
+      );
+    }
+
+    const { data, error } = await repo.client.rpc('override_post_status', {
+      p_post_id: postId,
+      p_status: status,
+      p_reason: (body!.reason as string).trim(),
+      p_version: current.version,
+    });
+
+    if (error) {
+      return jsonResponse({ error: error.message }, corsHeaders, 500);
+    }
+    updated = (data as Record<string, unknown>[])[0] ?? null;
+  } else {
+    const transitionError = statusTransitionError(current.status, status);
+    if (transitionError) {
+      return validationErrorResponse([transitionError], corsHeaders);
+    }
+
+    const denied = checkApproval(client, current.status, status, corsHeaders);
+    if (denied) return denied;
+
+    updated = await repo.updatePost(
+      postId,
+      { status, last_modified_by: 'api' },
+      { version: current.version, active_only: true }
+    );
+  }
+
+  if (!updated) {
+    return jsonResponse({ error: 'Conflict', message: 'Post changed during status update, retry' }, corsHeaders, 409);
+  }
+
+  await repo.recordSyncStatus('post', postId, 'api');
+
+  return jsonResponse(
+    {
+      success: true,
+      data: updated,
+      from: current.status,
+      to: status,
+      override: body!.override === true,
+    },
+    corsHeaders
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * Sync Status Tracking
+ *
+ * Per-entity version ledger in the sync_status table: the version in the
+ * database, the version Sheets last wrote or received, and when Sheets
+ * last reported the row. The cron job reconciles the ledger against the
+ * tables and flags conflicts; GET /api/sync/status summarises it.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { CorsHeaders } from './types';
+import { FieldError } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type SyncState = 'healthy' | 'stale' | 'conflict';
+
+interface SyncHealthRow {
+  entity_type: string;
+  entity_id: string;
+  program_nr: number | null;
+  db_version: number;
+  sheets_version: number;
+  last_db_sync: string | null;
+  last_sheets_sync: string | null;
+  sheets_modified_at: string | null;
+  conflict_data: Record<string, unknown> | null;
+  state: SyncState;
+}
+
+interface ProgramSyncSummary {
+  program_nr: number | null;  // null för personer
+  healthy: number;
+  stale: number;
+  conflict: number;
+  stale_entities: Omit<SyncHealthRow, 'program_nr' | 'state' | 'conflict_data'>[];
+  conflicts: Omit<SyncHealthRow, 'program_nr' | 'state'>[];
+}
+
+const ENTITY_TYPES = ['post', 'person', 'program'];
+
+const MAX_REPORT_ROWS = 5000;
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Record a write to an entity. Writes from Sheets, and deliveries to
+ * Sheets (with the delivered version), also mark Sheets as up to date.
+ */
+export async function updateSyncStatus(
+  supabase: SupabaseClient,
+  entityType: string,
+  entityId: string,
+  source: string,
+  sheetsVersion?: number
+): Promise<void> {
+  const { error } = await supabase.rpc('record_sync_status', {
+    p_entity_type: entityType,
+    p_entity_id: entityId,
+    p_source: source,
+    p_sheets_version: sheetsVersion ?? null,
+  });
+
+  if (error) {
+    console.error(`Sync status for ${entityType} ${entityId} failed:`, error.message);
+  }
+}
+
+/**
+ * Reconcile the ledger against the tables and flag conflicts.
+ */
+export async function reconcileSyncStatus(supabase: SupabaseClient): Promise<void> {
+  const { data, error } = await supabase.rpc('reconcile_sync_status');
+
+  if (error) {
+    console.error('Sync reconciliation failed:', error.message);
+    return;
+  }
+
+  if (data.flagged > 0) {
+    console.warn(`Sync reconciliation: ${data.flagged} conflicts flagged, ${data.cleared} cleared`);
+  }
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/sync/status?program=1
+ *
+ * Healthy, stale and conflicting entities per programme. People have no
+ * programme and are summarised under `program_nr: null`.
+ */
+export async function handleSyncStatus(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const programNr = url.searchParams.get('program');
+
+  let query = supabase
+    .from('sync_health')
+    .select('entity_type, entity_id, program_nr, db_version, sheets_version, last_db_sync, last_sheets_sync, sheets_modified_at, conflict_data, state')
+    .order('entity_type')
+    .order('entity_id');
+
+  if (programNr) {
+    query = query.eq('program_nr', parseInt(programNr));
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  const programs = new Map<number | null, ProgramSyncSummary>();
+
+  for (const row of (data ?? []) as SyncHealthRow[]) {
+    let summary = programs.get(row.program_nr);
+    if (!summary) {
+      summary = { program_nr: row.program_nr, healthy: 0, stale: 0, conflict: 0, stale_entities: [], conflicts: [] };
+      programs.set(row.program_nr, summary);
+    }
+
+    summary[row.state]++;
+
+    const { program_nr: _program, state: _state, conflict_data, ...entity } = row;
+    if (row.state === 'stale') {
+      summary.stale_entities.push(entity);
+    } else if (row.state === 'conflict') {
+      summary.conflicts.push({ ...entity, conflict_data });
+    }
+  }
+
+  // Program i nummerordning, personer sist
+  const summaries = [...programs.values()].sort(
+    (a, b) => (a.program_nr ?? Infinity) - (b.program_nr ?? Infinity)
+  );
+
+  return jsonResponse(
+    {
+      success: true,
+      totals: {
+        healthy: summaries.reduce((sum, s) => sum + s.healthy, 0),
+        stale: summaries.reduce((sum, s) => sum + s.stale, 0),
+        conflict: summaries.reduce((sum, s) => sum + s.conflict, 0),
+      },
+      programs: summaries,
+    },
+    corsHeaders
+  );
+}
+
+/**
+ * POST /sync/sheets-state
+ * Body: { entity_type, rows: [{ id, modified_at }] }
+ *
+ * Sent by periodicSync in Sync.gs so the reconciliation job knows which
+ * rows Sheets holds and whether they were edited since the last sync.
+ */
+export async function handleSheetsState(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+  const errors: FieldError[] = [];
+
+  if (!ENTITY_TYPES.includes(body?.entity_type as string)) {
+    errors.push({ field: 'entity_type', message: `must be one of: ${ENTITY_TYPES.join(', ')}` });
+  }
+
+  const rows = body?.rows;
+  if (!Array.isArray(rows) || rows.length > MAX_REPORT_ROWS) {
+    errors.push({ field: 'rows', message: `must be an array of at most ${MAX_REPORT_ROWS} rows` });
+  } else {
+    rows.forEach((row, i) => {
+      if (typeof row?.id !== 'string' || row.id === '') {
+        errors.push({ field: `rows[${i}].id`, message: 'is required' });
+      }
+      if (row?.modified_at != null && (typeof row.modified_at !== 'string' || isNaN(Date.parse(row.modified_at)))) {
+        errors.push({ field: `rows[${i}].modified_at`, message: 'must be an ISO timestamp' });
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const { data, error } = await supabase.rpc('report_sheets_state', {
+    p_entity_type: body!.entity_type,
+    p_rows: rows,
+  });
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse({ success: true, reported: data }, corsHeaders);
+}
@@ -0,0 +1,145 @@
+/**
+ * Takes
+ *
+ * Every TC-IN opens a new numbered take in tc_log. Takes carry a verdict
+ * (good / ng / keep), notes and a selected flag; at most one take per post
+ * is selected, and recording a retake never touches the selected one.
+ */
+
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { Repository, TcLogRow } from './repository';
+import { CorsHeaders } from './types';
+import { FieldError, POST_ID_PATTERN } from './validation';
+
+export const TAKE_VERDICTS = ['good', 'ng', 'keep'] as const;
+
+export type TakeVerdict = (typeof TAKE_VERDICTS)[number];
+
+export interface TakeUpdate {
+  post_id: string;
+  take_nr?: number;               // Utelämnat = senaste tagningen
+  verdict?: TakeVerdict | null;
+  notes?: string | null;
+  selected?: boolean;
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET  /api/takes?post_id=P1:5 — all takes for a post
+ * POST /api/takes              — set verdict, notes and/or selection
+ */
+export async function handleTakes(
+  request: Request,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method === 'GET') {
+    const url = new URL(request.url);
+    const postId = url.searchParams.get('post_id');
+
+    if (!postId || !POST_ID_PATTERN.test(postId)) {
+      return validationErrorResponse(
+        [{ field: 'post_id', message: 'must match format P<program>:<n>' }],
+        corsHeaders
+      );
+    }
+
+    const takes = await repo.listTakes([postId]);
+
+    return jsonResponse({ success: true, post_id: postId, takes }, corsHeaders);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = await readJsonBody(request);
+  const errors = validateTakeUpdate(body);
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  return updateTake(body as TakeUpdate, repo, corsHeaders);
+}
+
+/**
+ * Apply a TakeUpdate. Shared by POST /api/takes and the Companion
+ * `select_take` / `take_verdict` actions.
+ */
+export async function updateTake(
+  update: TakeUpdate,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const takeNr = update.take_nr ?? (await latestTakeNr(update.post_id, repo));
+
+  if (takeNr === null) {
+    return jsonResponse({ error: 'No takes recorded for post' }, corsHeaders, 404);
+  }
+
+  const fields: Partial<TcLogRow> = {};
+  if (update.verdict !== undefined) fields.verdict = update.verdict;
+  if (update.notes !== undefined) fields.notes = update.notes;
+
+  if (Object.keys(fields).length > 0) {
+    const take = await repo.updateTake(update.post_id, takeNr, fields);
+
+    if (!take) {
+      return jsonResponse({ error: `Take ${takeNr} not found` }, corsHeaders, 404);
+    }
+  }
+
+  if (update.selected !== undefined) {
+    const selected = await repo.selectTake(update.post_id, update.selected ? takeNr : null);
+
+    if (!selected) {
+      return jsonResponse({ error: `Take ${takeNr} not found for post ${update.post_id}` }, corsHeaders, 404);
+    }
+  }
+
+  const takes = await repo.listTakes([update.post_id]);
+
+  return jsonResponse(
+    { success: true, post_id: update.post_id, take_nr: takeNr, takes },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function latestTakeNr(postId: string, repo: Repository): Promise<number | null> {
+  const take = await repo.latestTake(postId);
+  return take?.take_nr ?? null;
+}
+
+export function validateTakeUpdate(body: unknown): FieldError[] {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return [{ field: 'body', message: 'must be a JSON object' }];
+  }
+
+  const update = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  if (typeof update.post_id !== 'string' || !POST_ID_PATTERN.test(update.post_id)) {
+    errors.push({ field: 'post_id', message: 'must match format P<program>:<n>' });
+  }
+  if (update.take_nr !== undefined && (typeof update.take_nr !== 'number' || !Number.isInteger(update.take_nr) || update.take_nr < 1)) {
+    errors.push({ field: 'take_nr', message: 'must be an integer >= 1' });
+  }
+  if (update.verdict !== undefined && update.verdict !== null && !TAKE_VERDICTS.includes(update.verdict as TakeVerdict)) {
+    errors.push({ field: 'verdict', message: `must be one of: ${TAKE_VERDICTS.join(', ')}` });
+  }
+  if (update.notes !== undefined && update.notes !== null && typeof update.notes !== 'string') {
+    errors.push({ field: 'notes', message: 'must be a string' });
+  }
+  if (update.selected !== undefined && typeof update.selected !== 'boolean') {
+    errors.push({ field: 'selected', message: 'must be a boolean' });
+  }
+
+  return errors;
+}
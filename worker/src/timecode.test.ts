@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  durationFrames,
+  FRAME_RATES,
+  framesPerDay,
+  framesToRational,
+  framesToSeconds,
+  framesToTimecode,
+  timecodeToFrames,
+  validateTimecode,
+} from './timecode';
+
+describe('timecodeToFrames', () => {
+  it('counts non-drop frames from midnight', () => {
+    expect(timecodeToFrames('00:00:00:00', '25')).toBe(0);
+    expect(timecodeToFrames('01:00:00:00', '25')).toBe(90000);
+    expect(timecodeToFrames('00:00:01:23', '23.976')).toBe(47);
+  });
+
+  it('skips the dropped frame numbers at 29.97df', () => {
+    expect(timecodeToFrames('00:00:59;29', '29.97df')).toBe(1799);
+    expect(timecodeToFrames('00:01:00;02', '29.97df')).toBe(1800);
+    expect(timecodeToFrames('00:10:00;00', '29.97df')).toBe(17982);
+    expect(timecodeToFrames('01:00:00;00', '29.97df')).toBe(107892);
+  });
+
+  it('skips four frame numbers per minute at 59.94df', () => {
+    expect(timecodeToFrames('00:01:00;04', '59.94df')).toBe(3600);
+    expect(timecodeToFrames('00:10:00;00', '59.94df')).toBe(35964);
+  });
+});
+
+describe('framesToTimecode', () => {
+  it('writes drop-frame timecode with a semicolon', () => {
+    expect(framesToTimecode(1800, '29.97df')).toBe('00:01:00;02');
+    expect(framesToTimecode(17982, '29.97df')).toBe('00:10:00;00');
+    expect(framesToTimecode(107892, '29.97df')).toBe('01:00:00;00');
+    expect(framesToTimecode(90000, '25')).toBe('01:00:00:00');
+  });
+
+  it('wraps at 24 hours in both directions', () => {
+    expect(framesToTimecode(framesPerDay('25'), '25')).toBe('00:00:00:00');
+    expect(framesToTimecode(-1, '29.97df')).toBe('23:59:59;29');
+  });
+
+  it.each(FRAME_RATES)('round-trips every minute boundary at %s', (rate) => {
+    // Runt varje minutgräns under de första tjugo minuterna, där drop-frame hoppar
+    for (let minute = 0; minute < 20; minute++) {
+      const boundary = timecodeToFrames(`00:${String(minute).padStart(2, '0')}:00:00`, rate);
+
+      for (let frames = Math.max(0, boundary - 5); frames < boundary + 5; frames++) {
+        const tc = framesToTimecode(frames, rate);
+        expect(validateTimecode(tc, rate)).toBeNull();
+        expect(timecodeToFrames(tc, rate)).toBe(frames);
+      }
+    }
+  });
+});
+
+describe('validateTimecode', () => {
+  it('rejects frame numbers dropped at 29.97df and 59.94df', () => {
+    expect(validateTimecode('00:01:00;00', '29.97df')).toBe('frame 00 does not exist at 29.97df (dropped)');
+    expect(validateTimecode('00:01:00;01', '29.97df')).not.toBeNull();
+    expect(validateTimecode('00:01:00;03', '59.94df')).not.toBeNull();
+    expect(validateTimecode('00:10:00;00', '29.97df')).toBeNull();
+    expect(validateTimecode('00:01:00:00', '25')).toBeNull();
+  });
+
+  it('checks the frame field against the timebase', () => {
+    expect(validateTimecode('00:00:00:24', '25')).toBeNull();
+    expect(validateTimecode('00:00:00:25', '25')).toBe('frames must be 00-24 at 25 fps');
+    expect(validateTimecode('00:00:00:29', '29.97df')).toBeNull();
+  });
+
+  it('rejects malformed and out-of-range timecodes', () => {
+    expect(validateTimecode(undefined, '25')).toBe('must be a string');
+    expect(validateTimecode('1:00:00:00', '25')).toBe('must match format HH:MM:SS:FF');
+    expect(validateTimecode('24:00:00:00', '25')).toBe('hours must be 00-23');
+    expect(validateTimecode('00:60:00:00', '25')).toBe('minutes must be 00-59');
+  });
+});
+
+describe('durations', () => {
+  it('measures a take that crosses midnight', () => {
+    expect(durationFrames('23:59:59:00', '00:00:01:00', '25')).toBe(50);
+    expect(durationFrames('23:59:59;00', '00:00:01;00', '29.97df')).toBe(60);
+  });
+
+  it('has 24 hours of frames per day', () => {
+    expect(framesPerDay('25')).toBe(2160000);
+    expect(framesPerDay('29.97df')).toBe(2589408);
+    expect(framesPerDay('59.94df')).toBe(5178816);
+  });
+
+  it('converts frames to real time at fractional rates', () => {
+    expect(framesToSeconds(30000, '29.97df')).toBe(1001);
+    expect(framesToSeconds(50, '25')).toBe(2);
+    expect(framesToRational(1, '29.97df')).toBe('1001/30000s');
+    expect(framesToRational(0, '25')).toBe('0s');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Timecode
+ *
+ * SMPTE timecode arithmetic for the frame rates we record at. Handles
+ * drop-frame counting (29.97/59.94), validation against the frame rate,
+ * midnight rollover and frame-accurate durations.
+ */
+
+// ============================================================================
+// FRAME RATES
+// ============================================================================
+
+export const FRAME_RATES = ['23.976', '24', '25', '29.97df', '30', '50', '59.94df'] as const;
+
+export type FrameRate = (typeof FRAME_RATES)[number];
+
+export const DEFAULT_FRAME_RATE: FrameRate = '25';
+
+interface FrameRateSpec {
+  timebase: number;     // Frames per timecode-sekund (det som räknas i FF)
+  dropFrames: number;   // Frame-nummer som hoppas över per minut (0 = non-drop)
+  rateNum: number;      // Verklig bildfrekvens = rateNum / rateDen
+  rateDen: number;
+}
+
+const SPECS: Record<FrameRate, FrameRateSpec> = {
+  '23.976': { timebase: 24, dropFrames: 0, rateNum: 24000, rateDen: 1001 },
+  '24': { timebase: 24, dropFrames: 0, rateNum: 24, rateDen: 1 },
+  '25': { timebase: 25, dropFrames: 0, rateNum: 25, rateDen: 1 },
+  '29.97df': { timebase: 30, dropFrames: 2, rateNum: 30000, rateDen: 1001 },
+  '30': { timebase: 30, dropFrames: 0, rateNum: 30, rateDen: 1 },
+  '50': { timebase: 50, dropFrames: 0, rateNum: 50, rateDen: 1 },
+  '59.94df': { timebase: 60, dropFrames: 4, rateNum: 60000, rateDen: 1001 },
+};
+
+// HH:MM:SS:FF, semikolon före frames för drop-frame. Delas med validation.ts;
+// intervallen kontrolleras av validateTimecode mot bildfrekvensen.
+export const TIMECODE_PATTERN = /^(\d{2}):(\d{2}):(\d{2})[:;](\d{2})$/;
+
+export function isFrameRate(value: unknown): value is FrameRate {
+  return typeof value === 'string' && (FRAME_RATES as readonly string[]).includes(value);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a HH:MM:SS:FF timecode against a frame rate.
+ * Returns an error message, or null when valid.
+ */
+export function validateTimecode(tc: unknown, rate: FrameRate): string | null {
+  if (typeof tc !== 'string') return 'must be a string';
+
+  const match = TIMECODE_PATTERN.exec(tc);
+  if (!match) return 'must match format HH:MM:SS:FF';
+
+  const [hh, mm, ss, ff] = match.slice(1).map(Number);
+  const spec = SPECS[rate];
+
+  if (hh > 23) return 'hours must be 00-23';
+  if (mm > 59) return 'minutes must be 00-59';
+  if (ss > 59) return 'seconds must be 00-59';
+  if (ff >= spec.timebase) return `frames must be 00-${spec.timebase - 1} at ${rate} fps`;
+
+  // Drop-frame: de första rutorna i varje minut utom var tionde finns inte
+  if (spec.dropFrames > 0 && ss === 0 && mm % 10 !== 0 && ff < spec.dropFrames) {
+    return `frame ${String(ff).padStart(2, '0')} does not exist at ${rate} (dropped)`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Frame count since 00:00:00:00. Assumes a valid timecode.
+ */
+export function timecodeToFrames(tc: string, rate: FrameRate): number {
+  const [hh, mm, ss, ff] = TIMECODE_PATTERN.exec(tc)!.slice(1).map(Number);
+  const { timebase, dropFrames } = SPECS[rate];
+
+  const nominal = (hh * 3600 + mm * 60 + ss) * timebase + ff;
+  if (dropFrames === 0) return nominal;
+
+  const totalMinutes = hh * 60 + mm;
+  return nominal - dropFrames * (totalMinutes - Math.floor(totalMinutes / 10));
+}
+
+/**
+ * Timecode for a frame count, wrapping at 24 hours.
+ * Drop-frame timecodes use ';' before the frame field.
+ */
+export function framesToTimecode(frames: number, rate: FrameRate): string {
+  const { timebase, dropFrames } = SPECS[rate];
+  let count = ((frames % framesPerDay(rate)) + framesPerDay(rate)) % framesPerDay(rate);
+
+  if (dropFrames > 0) {
+    const framesPerMinute = timebase * 60 - dropFrames;
+    const framesPer10Minutes = framesPerMinute * 10 + dropFrames;
+    const tens = Math.floor(count / framesPer10Minutes);
+    const rest = count % framesPer10Minutes;
+
+    count += dropFrames * 9 * tens;
+    if (rest > dropFrames) {
+      count += dropFrames * Math.floor((rest - dropFrames) / framesPerMinute);
+    }
+  }
+
+  const ff = count % timebase;
+  const totalSeconds = Math.floor(count / timebase);
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:` +
+    `${pad(totalSeconds % 60)}${dropFrames > 0 ? ';' : ':'}${pad(ff)}`;
+}
+
+/**
+ * Frames in 24 hours of timecode.
+ */
+export function framesPerDay(rate: FrameRate): number {
+  return timecodeToFrames('23:59:59:00', rate) + SPECS[rate].timebase;
+}
+
+// ============================================================================
+// DURATION
+// ============================================================================
+
+/**
+ * Frame-accurate duration from TC-IN to TC-OUT. A TC-OUT earlier than
+ * TC-IN is taken as a take that crossed midnight.
+ */
+export function durationFrames(tcIn: string, tcOut: string, rate: FrameRate): number {
+  const diff = timecodeToFrames(tcOut, rate) - timecodeToFrames(tcIn, rate);
+  return diff >= 0 ? diff : diff + framesPerDay(rate);
+}
+
+/**
+ * Real-time seconds for a frame count (29.97 frames are 1001/30000 s).
+ */
+export function framesToSeconds(frames: number, rate: FrameRate): number {
+  const { rateNum, rateDen } = SPECS[rate];
+  return (frames * rateDen) / rateNum;
+}
+
+/**
+ * Exact real-time length of a frame count as a rational, e.g. "1001/30000s"
+ * (the time notation used by FCPXML).
+ */
+export function framesToRational(frames: number, rate: FrameRate): string {
+  const { rateNum, rateDen } = SPECS[rate];
+  return frames === 0 ? '0s' : `${frames * rateDen}/${rateNum}s`;
+}
+
+export function isDropFrame(rate: FrameRate): boolean {
+  return SPECS[rate].dropFrames > 0;
+}
@@ -0,0 +1,189 @@
+/**
+ * Running-Order Timing
+ *
+ * Cumulative in-times and estimated clock times for a programme's posts,
+ * the total against the programme's target length and a breakdown per
+ * post-type category. Computed on every request from the current
+ * durations and order; the post_clock_times view makes the same
+ * calculation, posts_active exposes it as clock_time and the database
+ * keeps posts.recording_time in step with it.
+ */
+
+import { jsonResponse, validationErrorResponse } from './http';
+import { PostRow, Repository } from './repository';
+import { CorsHeaders, Program } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PostTiming {
+  post_id: string;
+  sort_order: number;
+  title: string | null;
+  type_key: string | null;
+  category: string | null;
+  duration_sec: number;
+  in_sec: number;        // Från programstart
+  out_sec: number;
+  in_formatted: string;
+  clock_in: string;      // Beräknad klocktid (HH:MM:SS)
+  clock_out: string;
+}
+
+interface CategoryTiming {
+  category: string | null;
+  posts: number;
+  duration_sec: number;
+  duration_formatted: string;
+  percent: number;       // Av programmets totala längd
+}
+
+interface ProgramTiming {
+  program_nr: number;
+  start_time: string;
+  end_time: string;
+  target_duration_sec: number;
+  total_duration_sec: number;
+  total_formatted: string;
+  over_under_sec: number;  // Positivt = över målet
+  over_under_formatted: string;
+  status: 'over' | 'under' | 'on_target';
+  posts: PostTiming[];
+  categories: CategoryTiming[];
+}
+
+// Samma standardvärden som programs i supabase/schema.sql
+const DEFAULT_START_TIME = '09:00:00';
+const DEFAULT_TARGET_DURATION_SEC = 2610;  // 43:30
+
+const SECONDS_PER_DAY = 24 * 3600;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/rundown/timing?program=1
+ */
+export async function handleRundownTiming(
+  request: Request,
+  repo: Repository,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const programNr = parseInt(url.searchParams.get('program') || '');
+
+  if (!(programNr >= 1 && programNr <= 4)) {
+    return validationErrorResponse(
+      [{ field: 'program', message: 'must be an integer between 1 and 4' }],
+      corsHeaders
+    );
+  }
+
+  const [program, posts] = await Promise.all([
+    repo.getProgram(programNr),
+    repo.listPosts({ program_nr: programNr }),
+  ]);
+
+  return jsonResponse({ success: true, ...computeTiming(programNr, program, posts) }, corsHeaders);
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Timing for active posts in running order (sort_order, then post_id, as
+ * in the database). Missing durations count as zero.
+ */
+export function computeTiming(programNr: number, program: Program | null, posts: PostRow[]): ProgramTiming {
+  const startTime = program?.start_time ?? DEFAULT_START_TIME;
+  const start = clockToSeconds(startTime);
+  const target = program?.target_duration_sec ?? DEFAULT_TARGET_DURATION_SEC;
+
+  const ordered = [...posts].sort((a, b) =>
+    a.sort_order - b.sort_order || (a.post_id < b.post_id ? -1 : a.post_id > b.post_id ? 1 : 0)
+  );
+
+  let elapsed = 0;
+  const timings = ordered.map((post): PostTiming => {
+    const duration = post.duration_sec ?? 0;
+    const timing: PostTiming = {
+      post_id: post.post_id,
+      sort_order: post.sort_order,
+      title: post.title ?? null,
+      type_key: post.type_key ?? null,
+      category: (post.type_category as string | null | undefined) ?? null,
+      duration_sec: duration,
+      in_sec: elapsed,
+      out_sec: elapsed + duration,
+      in_formatted: formatDuration(elapsed),
+      clock_in: secondsToClock(start + elapsed),
+      clock_out: secondsToClock(start + elapsed + duration),
+    };
+    elapsed += duration;
+    return timing;
+  });
+
+  const overUnder = elapsed - target;
+
+  return {
+    program_nr: programNr,
+    start_time: secondsToClock(start),
+    end_time: secondsToClock(start + elapsed),
+    target_duration_sec: target,
+    total_duration_sec: elapsed,
+    total_formatted: formatDuration(elapsed),
+    over_under_sec: overUnder,
+    over_under_formatted: `${overUnder < 0 ? '-' : '+'}${formatDuration(Math.abs(overUnder))}`,
+    status: overUnder > 0 ? 'over' : overUnder < 0 ? 'under' : 'on_target',
+    posts: timings,
+    categories: categoryBreakdown(timings, elapsed),
+  };
+}
+
+function categoryBreakdown(timings: PostTiming[], total: number): CategoryTiming[] {
+  const byCategory = new Map<string | null, CategoryTiming>();
+
+  for (const timing of timings) {
+    const entry = byCategory.get(timing.category) ?? {
+      category: timing.category,
+      posts: 0,
+      duration_sec: 0,
+      duration_formatted: '',
+      percent: 0,
+    };
+    entry.posts += 1;
+    entry.duration_sec += timing.duration_sec;
+    byCategory.set(timing.category, entry);
+  }
+
+  return [...byCategory.values()]
+    .map((entry) => ({
+      ...entry,
+      duration_formatted: formatDuration(entry.duration_sec),
+      percent: total > 0 ? Math.round((1000 * entry.duration_sec) / total) / 10 : 0,
+    }))
+    .sort((a, b) => b.duration_sec - a.duration_sec);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** 'HH:MM' or 'HH:MM:SS' to seconds after midnight. */
+export function clockToSeconds(clock: string): number {
+  const [hours = 0, minutes = 0, seconds = 0] = clock.split(':').map((part) => parseInt(part) || 0);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/** Seconds after midnight to 'HH:MM:SS', wrapping past midnight like TIME does. */
+export function secondsToClock(total: number): string {
+  return formatDuration(((total % SECONDS_PER_DAY) + SECONDS_PER_DAY) % SECONDS_PER_DAY);
+}
+
+function formatDuration(seconds: number): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+}
@@ -0,0 +1,232 @@
+/**
+ * Trash
+ *
+ * Listing, restore and permanent purge of soft-deleted posts, giving
+ * Supabase parity with the _DB_Trash workflow in Database.gs
+ * (getDeletedPosts_, restoreDeletedPost, emptyTrash).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { updateSyncStatus } from './sync-status';
+import { CorsHeaders } from './types';
+import { FieldError, POST_ID_PATTERN } from './validation';
+
+// Standardålder innan en raderad post får rensas permanent
+const DEFAULT_PURGE_AGE_DAYS = 30;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/trash?program=1
+ */
+export async function handleGetTrash(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const programParam = url.searchParams.get('program');
+  const programNr = programParam === null ? null : Number(programParam);
+
+  if (programNr !== null && !(Number.isInteger(programNr) && programNr >= 1 && programNr <= 4)) {
+    return validationErrorResponse(
+      [{ field: 'program', message: 'must be an integer between 1 and 4' }],
+      corsHeaders
+    );
+  }
+
+  let query = supabase
+    .from('posts')
+    .select('post_id, program_nr, sort_order, type_key, title, duration_sec, status, version, deleted_at, deleted_by')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (programNr !== null) {
+    query = query.eq('program_nr', programNr);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse({ success: true, posts: data }, corsHeaders);
+}
+
+/**
+ * POST /api/trash/restore
+ * Body: { post_id }
+ *
+ * If another active post has taken the original sort_order the restored
+ * post goes into the first free slot before the next post, or last in the
+ * running order when there is no gap.
+ */
+export async function handleRestorePost(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+  const postId = body?.post_id;
+
+  if (typeof postId !== 'string' || !POST_ID_PATTERN.test(postId)) {
+    return validationErrorResponse(
+      [{ field: 'post_id', message: 'must match format P<program>:<n>' }],
+      corsHeaders
+    );
+  }
+
+  const { data: trashed, error: fetchError } = await supabase
+    .from('posts')
+    .select('post_id, program_nr, sort_order, version')
+    .eq('post_id', postId)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+
+  if (fetchError) {
+    return jsonResponse({ error: fetchError.message }, corsHeaders, 500);
+  }
+
+  if (!trashed) {
+    return jsonResponse({ error: 'Post not found in trash' }, corsHeaders, 404);
+  }
+
+  const { data: active, error: orderError } = await supabase
+    .from('posts')
+    .select('sort_order')
+    .eq('program_nr', trashed.program_nr)
+    .is('deleted_at', null)
+    .order('sort_order');
+
+  if (orderError) {
+    return jsonResponse({ error: orderError.message }, corsHeaders, 500);
+  }
+
+  const sortOrder = findFreeSortOrder(
+    trashed.sort_order,
+    (active ?? []).map((row) => row.sort_order as number)
+  );
+
+  const { data: restored, error: updateError } = await supabase
+    .from('posts')
+    .update({
+      deleted_at: null,
+      deleted_by: null,
+      sort_order: sortOrder,
+      last_modified_by: 'api',
+    })
+    .eq('post_id', postId)
+    .eq('version', trashed.version)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    return jsonResponse({ error: updateError.message }, corsHeaders, 500);
+  }
+
+  if (!restored) {
+    return jsonResponse(
+      { error: 'Conflict', message: 'Post changed during restore, retry' },
+      corsHeaders,
+      409
+    );
+  }
+
+  await updateSyncStatus(supabase, 'post', postId, 'api');
+
+  return jsonResponse(
+    {
+      success: true,
+      data: restored,
+      sort_order_changed: sortOrder !== trashed.sort_order,
+    },
+    corsHeaders
+  );
+}
+
+/**
+ * POST /api/trash/purge
+ * Body: { older_than_days?, program?, include_recorded? }
+ *
+ * Permanently deletes posts that have been in the trash longer than the
+ * threshold, via purge_trash() so the posts and their takes go in one
+ * transaction. Posts with timecode history are kept unless
+ * `include_recorded` is set, since tc_log references them.
+ */
+export async function handlePurgeTrash(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = ((await readJsonBody(request)) ?? {}) as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const olderThanDays = body.older_than_days ?? DEFAULT_PURGE_AGE_DAYS;
+  if (typeof olderThanDays !== 'number' || !Number.isInteger(olderThanDays) || olderThanDays < 0) {
+    errors.push({ field: 'older_than_days', message: 'must be an integer >= 0' });
+  }
+  if (body.program !== undefined && !(Number.isInteger(body.program) && (body.program as number) >= 1 && (body.program as number) <= 4)) {
+    errors.push({ field: 'program', message: 'must be an integer between 1 and 4' });
+  }
+  if (body.include_recorded !== undefined && typeof body.include_recorded !== 'boolean') {
+    errors.push({ field: 'include_recorded', message: 'must be a boolean' });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const cutoff = new Date(Date.now() - (olderThanDays as number) * 86400 * 1000).toISOString();
+
+  // Båda raderingarna i en transaktion, bara för poster som fortfarande ligger i papperskorgen
+  const { data: result, error } = await supabase.rpc('purge_trash', {
+    p_cutoff: cutoff,
+    p_program_nr: body.program ?? null,
+    p_include_recorded: body.include_recorded === true,
+  });
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse(
+    {
+      success: true,
+      purged: result.purged as string[],
+      kept: (result.kept as string[]).map((post_id) => ({ post_id, reason: 'has timecode history' })),
+    },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Original slot if free, else the first free integer before the next
+ * taken slot, else after the last post (sort_order steps of 10).
+ */
+function findFreeSortOrder(original: number, taken: number[]): number {
+  const used = new Set(taken);
+
+  if (!used.has(original)) return original;
+
+  const next = taken.find((order) => order > original);
+  for (let candidate = original + 1; next === undefined || candidate < next; candidate++) {
+    if (!used.has(candidate)) return candidate;
+  }
+
+  return Math.max(...taken) + 10;
+}
@@ -0,0 +1,119 @@
+/**
+ * Shared Types
+ *
+ * Row and payload shapes used across the worker modules.
+ * Column names follow supabase/schema.sql.
+ */
+
+export interface Env {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_KEY: string;
+  SHEETS_WEBHOOK_SECRET: string;
+  SUPABASE_JWT_SECRET?: string;  // Verifierar Supabase Auth-tokens från inloggade användare
+  ENVIRONMENT: string;
+  RATE_LIMITER: DurableObjectNamespace;
+  RATE_LIMITS?: string;  // JSON, t.ex. {"companion": {"capacity": 5, "per_minute": 30}}
+  DEFAULT_LOCATION?: string;   // Plats för återställda program (DEFAULT_LOCATION i Config.gs)
+  CALL_LEAD_MINUTES?: string;  // Inställelse före första posten på inställelselistan (standard 30)
+  STORAGE?: string;      // "supabase" (standard) eller "sqlite" för offline-läge
+  DB?: D1Database;       // Lokal databas när STORAGE = "sqlite"
+}
+
+export type CorsHeaders = Record<string, string>;
+
+export interface SyncPayload {
+  source: 'sheets' | 'studio' | 'companion';
+  action: 'create' | 'update' | 'delete' | 'batch_sync';
+  entity_type: 'post' | 'person' | 'program';
+  data: unknown;
+  version?: number;
+  timestamp?: string;
+  atomic?: boolean;  // batch_sync: allt eller inget
+  merge?: boolean;   // update: trevägsmerge mot audit_log vid versionskonflikt
+}
+
+export interface BatchConflict {
+  post_id: string;
+  your_version: number;
+  server_version: number;
+  last_modified_by: string;
+  last_modified_at: string;
+}
+
+/** Conflict in a person/programme batch; entity_id is person_id or program_nr. */
+export type EntityBatchConflict = Omit<BatchConflict, 'post_id'> & { entity_id: string };
+
+export interface CompanionPayload {
+  action:
+    | 'tc_in' | 'tc_out' | 'select_take' | 'take_verdict' | 'mark_approved'
+    | 'get_current' | 'get_next' | 'next_clip' | 'increment_clip' | 'batch_update' | 'batch_get';
+  post_id: string;
+  tc_in?: string;
+  tc_out?: string;
+  clip_nr?: number | string;
+  operator?: string;
+  take_nr?: number;
+  verdict?: 'good' | 'ng' | 'keep' | null;
+  notes?: string;
+  program_nr?: number | null;           // get_next
+  recording_day?: string | null;        // get_next
+  updates?: Record<string, unknown>[];  // batch_update
+  post_ids?: string[];                  // batch_get
+}
+
+export interface Post {
+  post_id: string;
+  program_nr: number;
+  sort_order: number;
+  type_key?: string;
+  title?: string;
+  duration_sec?: number;
+  people_ids?: string[];
+  location?: string;
+  recording_day?: string | null;   // recording_sessions.session_key
+  recording_slot?: string | null;
+  status?: string;
+  notes?: string;
+  version: number;
+  last_modified_by: string;
+}
+
+export interface Person {
+  person_id: string;
+  name: string;
+  roles?: string[];
+  contact?: string;
+  type?: string;
+  availability?: AvailabilityWindow[] | null;  // Null eller tom = alltid tillgänglig
+  version?: number;
+}
+
+export interface AvailabilityWindow {
+  date?: string | null;  // YYYY-MM-DD; utan datum gäller fönstret alla dagar
+  start: string;         // HH:MM[:SS]
+  end: string;
+}
+
+export interface Program {
+  program_nr: number;
+  location?: string;
+  start_date?: string;
+  broadcast_date?: string;
+  church_year?: string;
+  prod_nr?: string;
+  target_duration_sec?: number;
+  start_time?: string;
+  notes?: string;
+  frame_rate?: string;
+  version?: number;
+}
+
+export interface RecordingSession {
+  session_key: string;
+  name: string;
+  session_date: string | null;
+  start_time: string;
+  end_time: string | null;
+  location: string | null;
+  notes: string | null;
+}
@@ -0,0 +1,86 @@
+/**
+ * User Role Administration
+ *
+ * Assign roles (producer, floor_manager, operator, guest) to people who
+ * sign in with Supabase Auth. Like the API client routes, these are
+ * guarded by the Sheets webhook secret. A person must exist in Supabase
+ * Auth (invited or signed in once) before they can get a role; until then,
+ * and without a role, they are a guest.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { USER_ROLES, UserRole } from './auth';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { CorsHeaders } from './types';
+import { FieldError } from './validation';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET  /api/users — every user with a role
+ * POST /api/users — set a user's role
+ * Body: { email, role }
+ */
+export async function handleUsers(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method === 'GET') {
+    const { data, error } = await supabase
+      .from('user_roles')
+      .select('email, role, created_at, updated_at')
+      .order('email');
+
+    if (error) {
+      return jsonResponse({ error: error.message }, corsHeaders, 500);
+    }
+
+    return jsonResponse({ success: true, users: data }, corsHeaders);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+  const errors: FieldError[] = [];
+
+  if (typeof body?.email !== 'string' || !EMAIL_PATTERN.test(body.email)) {
+    errors.push({ field: 'email', message: 'must be an email address' });
+  }
+  if (!USER_ROLES.includes(body?.role as UserRole)) {
+    errors.push({ field: 'role', message: `must be one of: ${USER_ROLES.join(', ')}` });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const { data, error } = await supabase.rpc('set_user_role', {
+    p_email: body!.email,
+    p_role: body!.role,
+  });
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  const [user] = data as Record<string, unknown>[];
+
+  if (!user) {
+    return jsonResponse(
+      { error: 'User not found', message: 'Invite the user in Supabase Auth first' },
+      corsHeaders,
+      404
+    );
+  }
+
+  return jsonResponse(
+    { success: true, user: { email: user.email, role: user.role, updated_at: user.updated_at } },
+    corsHeaders
+  );
+}
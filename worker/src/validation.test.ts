@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_BATCH_GET,
+  MAX_BATCH_UPDATE,
+  validateCompanionPayload,
+  validatePost,
+  validateSheetsPayload,
+  validateStudioPayload,
+} from './validation';
+
+const POST = { post_id: 'P1:5', program_nr: 1, sort_order: 50, title: 'Psalm', status: 'planerad' };
+
+describe('validatePost', () => {
+  it('accepts a complete post and a partial update', () => {
+    expect(validatePost(POST)).toEqual([]);
+    expect(validatePost({ post_id: 'P1:5', notes: null }, { partial: true })).toEqual([]);
+  });
+
+  it('requires the NOT NULL columns on create but only the id on update', () => {
+    expect(validatePost({ post_id: 'P1:5' })).toEqual([
+      { field: 'program_nr', message: 'is required' },
+      { field: 'sort_order', message: 'is required' },
+    ]);
+    expect(validatePost({ title: 'Psalm' }, { partial: true })).toEqual([
+      { field: 'post_id', message: 'is required' },
+    ]);
+  });
+
+  it('rejects unknown fields, bad types and nulls in NOT NULL columns', () => {
+    expect(validatePost({ ...POST, titel: 'Psalm', duration_sec: -1, status: null }, { prefix: 'data.' })).toEqual([
+      { field: 'data.status', message: 'cannot be null' },
+      { field: 'data.titel', message: 'is not a known post field' },
+      { field: 'data.duration_sec', message: 'must be >= 0' },
+    ]);
+    expect(validatePost({ ...POST, status: 'klar' })).toEqual([
+      { field: 'status', message: 'must be one of: planerad, recording, inspelad, godkand' },
+    ]);
+  });
+
+  it('checks that program_nr matches the post_id', () => {
+    expect(validatePost({ ...POST, program_nr: 2 })).toEqual([
+      { field: 'program_nr', message: 'does not match post_id P1:5' },
+    ]);
+  });
+});
+
+describe('validateSheetsPayload', () => {
+  it('accepts each action with a well-formed payload', () => {
+    expect(validateSheetsPayload({ action: 'create', data: POST })).toEqual([]);
+    expect(validateSheetsPayload({ action: 'update', data: { post_id: 'P1:5', title: 'Ny' }, version: 3 })).toEqual([]);
+    expect(validateSheetsPayload({ action: 'delete', entity_type: 'person', data: { person_id: 'P001' } })).toEqual([]);
+    expect(validateSheetsPayload({ action: 'batch_sync', data: [POST], atomic: true })).toEqual([]);
+  });
+
+  it('rejects unknown actions, entity types and versions', () => {
+    expect(validateSheetsPayload('create')).toEqual([{ field: 'body', message: 'must be a JSON object' }]);
+    expect(validateSheetsPayload({ action: 'upsert', entity_type: 'take', version: 0, data: {} })).toEqual([
+      { field: 'action', message: 'must be one of: create, update, delete, batch_sync' },
+      { field: 'entity_type', message: 'must be one of: post, person, program' },
+    ]);
+    expect(validateSheetsPayload({ action: 'update', data: { post_id: 'P1:5' }, version: 0 })).toEqual([
+      { field: 'version', message: 'must be >= 1' },
+    ]);
+  });
+
+  it('validates rows against the schema of the entity type', () => {
+    expect(validateSheetsPayload({ action: 'delete', data: {} })).toEqual([
+      { field: 'data.post_id', message: 'must match format P<program>:<n>' },
+    ]);
+    expect(validateSheetsPayload({ action: 'create', entity_type: 'program', data: { program_nr: 5 } })).toEqual([
+      { field: 'data.program_nr', message: 'must be <= 4' },
+    ]);
+  });
+
+  it('prefixes batch row errors with the row index', () => {
+    expect(validateSheetsPayload({ action: 'batch_sync', data: POST })).toEqual([
+      { field: 'data', message: 'must be an array of post rows' },
+    ]);
+    expect(validateSheetsPayload({ action: 'batch_sync', data: [POST, { ...POST, post_id: 'P1' }] })).toEqual([
+      { field: 'data[1].post_id', message: 'must match format P<program>:<n>' },
+    ]);
+  });
+});
+
+describe('validateStudioPayload', () => {
+  it('lets studio change status and notes only', () => {
+    expect(validateStudioPayload({ action: 'update', data: { post_id: 'P1:5', status: 'godkand' } })).toEqual([]);
+    expect(validateStudioPayload({ action: 'update', data: { post_id: 'P1:5', title: 'Ny' } })).toEqual([
+      { field: 'data.title', message: 'cannot be changed from studio' },
+    ]);
+  });
+
+  it('requires the update action and a data object', () => {
+    expect(validateStudioPayload({ action: 'create', data: 'P1:5' })).toEqual([
+      { field: 'action', message: 'must be update' },
+      { field: 'data', message: 'must be an object' },
+    ]);
+  });
+});
+
+describe('validateCompanionPayload', () => {
+  it('requires a post_id and a timecode for TC-IN and TC-OUT', () => {
+    expect(validateCompanionPayload({ action: 'tc_in', post_id: 'P1:5', tc_in: '10:00:00;02' })).toEqual([]);
+    expect(validateCompanionPayload({ action: 'tc_out', post_id: 'P5:1', tc_out: '10:00:00.02' })).toEqual([
+      { field: 'post_id', message: 'must match format P<program>:<n>' },
+      { field: 'tc_out', message: 'must match format HH:MM:SS:FF' },
+    ]);
+  });
+
+  it('rejects unknown actions and a verdict action without a verdict', () => {
+    expect(validateCompanionPayload({ action: 'rewind' })[0].field).toBe('action');
+    expect(validateCompanionPayload({ action: 'take_verdict', post_id: 'P1:5' })).toEqual([
+      { field: 'verdict', message: 'is required' },
+    ]);
+  });
+
+  it('caps batch sizes at the Apps Script limits', () => {
+    const updates = Array.from({ length: MAX_BATCH_UPDATE + 1 }, (_, i) => ({ post_id: `P1:${i + 1}` }));
+    const postIds = Array.from({ length: MAX_BATCH_GET + 1 }, (_, i) => `P1:${i + 1}`);
+
+    expect(validateCompanionPayload({ action: 'batch_update', updates: updates.slice(1) })).toEqual([]);
+    expect(validateCompanionPayload({ action: 'batch_update', updates })).toEqual([
+      { field: 'updates', message: `must not exceed ${MAX_BATCH_UPDATE} updates` },
+    ]);
+    expect(validateCompanionPayload({ action: 'batch_get', post_ids: postIds })).toEqual([
+      { field: 'post_ids', message: `must not exceed ${MAX_BATCH_GET} ids` },
+    ]);
+  });
+
+  it('prefixes batch update errors with the update index', () => {
+    expect(validateCompanionPayload({ action: 'batch_update', updates: [{ post_id: 'P1:1', status: 'klar' }, 'P1:2'] })).toEqual([
+      { field: 'updates[0].status', message: 'must be one of: planerad, recording, inspelad, godkand' },
+      { field: 'updates[1]', message: 'must be an object' },
+    ]);
+  });
+
+  it('accepts HyperDeck clip ids as digit strings', () => {
+    expect(validateCompanionPayload({ action: 'next_clip', clip_nr: '007' })).toEqual([]);
+    expect(validateCompanionPayload({ action: 'next_clip', clip_nr: 'A7' })).toEqual([
+      { field: 'clip_nr', message: 'must be an integer' },
+    ]);
+  });
+});
@@ -0,0 +1,525 @@
+/**
+ * Payload Validation
+ *
+ * Schema checks for everything the worker writes to Supabase. Mirrors the
+ * column types, enums and constraints in supabase/schema.sql so that a bad
+ * Sheets row or a mistyped Companion button is rejected with a readable 422
+ * instead of surfacing as a Postgres error (or, worse, a silently wrong row).
+ */
+
+import { FRAME_RATES, TIMECODE_PATTERN } from './timecode';
+
+// ============================================================================
+// SCHEMA CONSTANTS (speglar supabase/schema.sql)
+// ============================================================================
+
+export const POST_STATUSES = ['planerad', 'recording', 'inspelad', 'godkand'] as const;
+export const CHANGE_SOURCES = ['sheets', 'api', 'studio', 'companion', 'system'] as const;
+export const PERSON_TYPES = ['medverkande', 'team', 'komponist', 'textforfattare'] as const;
+
+export type PostStatus = (typeof POST_STATUSES)[number];
+
+// P1:5 = Program 1, Post 5
+export const POST_ID_PATTERN = /^P([1-4]):(\d+)$/;
+
+// recording_sessions.session_key: 'dag1', 'dag2-kvall'
+export const SESSION_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+// P001 / PXYZ123 (generateId_ i Config.gs)
+export const PERSON_ID_PATTERN = /^P[A-Z0-9]+$/;
+
+// TIME-kolumn: HH:MM eller HH:MM:SS
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+// DATE-kolumn: YYYY-MM-DD
+export const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+type FieldCheck = (value: unknown) => string | null;
+
+type FieldSpecs = Record<string, { check: FieldCheck; nullable: boolean }>;
+
+interface EntitySchema {
+  label: string;
+  fields: FieldSpecs;
+  required: string[];
+  idField: string;
+}
+
+// ============================================================================
+// FIELD CHECKS
+// ============================================================================
+
+const isString: FieldCheck = (v) =>
+  typeof v === 'string' ? null : 'must be a string';
+
+const isInteger = (min?: number, max?: number): FieldCheck => (v) => {
+  if (typeof v !== 'number' || !Number.isInteger(v)) return 'must be an integer';
+  if (min !== undefined && v < min) return `must be >= ${min}`;
+  if (max !== undefined && v > max) return `must be <= ${max}`;
+  return null;
+};
+
+const isBoolean: FieldCheck = (v) =>
+  typeof v === 'boolean' ? null : 'must be a boolean';
+
+const isOneOf = (allowed: readonly string[]): FieldCheck => (v) =>
+  typeof v === 'string' && allowed.includes(v)
+    ? null
+    : `must be one of: ${allowed.join(', ')}`;
+
+const matches = (pattern: RegExp, format: string): FieldCheck => (v) =>
+  typeof v === 'string' && pattern.test(v) ? null : `must match format ${format}`;
+
+const isStringArray: FieldCheck = (v) =>
+  Array.isArray(v) && v.every((item) => typeof item === 'string')
+    ? null
+    : 'must be an array of strings';
+
+const isTimeOfDay = matches(TIME_OF_DAY_PATTERN, 'HH:MM[:SS]');
+
+// people.availability: [{ date?, start, end }]
+const isAvailability: FieldCheck = (v) => {
+  if (!Array.isArray(v)) return 'must be an array of { date?, start, end } windows';
+
+  for (const [i, window] of v.entries()) {
+    if (!isObject(window)) return `[${i}] must be an object with start and end`;
+    const dateError = window.date == null ? null : matches(DATE_PATTERN, 'YYYY-MM-DD')(window.date);
+    const timeError = isTimeOfDay(window.start) ?? isTimeOfDay(window.end);
+    if (dateError) return `[${i}].date ${dateError}`;
+    if (timeError) return `[${i}].start/end ${timeError}`;
+  }
+  return null;
+};
+
+export const isTimecode = matches(TIMECODE_PATTERN, 'HH:MM:SS:FF');
+
+export const isSessionKey = matches(SESSION_KEY_PATTERN, 'session_key (a-z, 0-9, _, -)');
+
+/**
+ * Column checks for the posts table. Nullable columns accept null;
+ * NOT NULL columns are listed in POST_REQUIRED_FIELDS.
+ */
+const POST_FIELDS: FieldSpecs = {
+  post_id: { check: matches(POST_ID_PATTERN, 'P<program>:<n>'), nullable: false },
+  program_nr: { check: isInteger(1, 4), nullable: false },
+  sort_order: { check: isInteger(0), nullable: false },
+  type_key: { check: isString, nullable: true },
+  title: { check: isString, nullable: true },
+  duration_sec: { check: isInteger(0), nullable: true },
+  location: { check: isString, nullable: true },
+  people_ids: { check: isStringArray, nullable: true },
+  text_author: { check: isString, nullable: true },
+  composer: { check: isString, nullable: true },
+  arranger: { check: isString, nullable: true },
+  recording_day: { check: isSessionKey, nullable: true },
+  recording_slot: { check: matches(TIME_OF_DAY_PATTERN, 'HH:MM[:SS]'), nullable: true },
+  recording_time: { check: matches(TIME_OF_DAY_PATTERN, 'HH:MM[:SS]'), nullable: true },
+  status: { check: isOneOf(POST_STATUSES), nullable: false },
+  info_pos: { check: isString, nullable: true },
+  graphics: { check: isString, nullable: true },
+  notes: { check: isString, nullable: true },
+  open_text: { check: isBoolean, nullable: false },
+  version: { check: isInteger(1), nullable: false },
+  last_modified_by: { check: isOneOf(CHANGE_SOURCES), nullable: false },
+};
+
+const POST_SCHEMA: EntitySchema = {
+  label: 'post',
+  fields: POST_FIELDS,
+  required: ['post_id', 'program_nr', 'sort_order'],
+  idField: 'post_id',
+};
+
+const PERSON_SCHEMA: EntitySchema = {
+  label: 'person',
+  fields: {
+    person_id: { check: matches(PERSON_ID_PATTERN, 'P<id>'), nullable: false },
+    name: { check: isString, nullable: false },
+    roles: { check: isStringArray, nullable: true },
+    contact: { check: isString, nullable: true },
+    type: { check: isOneOf(PERSON_TYPES), nullable: false },
+    availability: { check: isAvailability, nullable: true },
+    version: { check: isInteger(1), nullable: false },
+    last_modified_by: { check: isOneOf(CHANGE_SOURCES), nullable: false },
+  },
+  required: ['person_id', 'name'],
+  idField: 'person_id',
+};
+
+const PROGRAM_SCHEMA: EntitySchema = {
+  label: 'program',
+  fields: {
+    program_nr: { check: isInteger(1, 4), nullable: false },
+    location: { check: isString, nullable: true },
+    start_date: { check: matches(DATE_PATTERN, 'YYYY-MM-DD'), nullable: true },
+    broadcast_date: { check: matches(DATE_PATTERN, 'YYYY-MM-DD'), nullable: true },
+    church_year: { check: isString, nullable: true },
+    prod_nr: { check: isString, nullable: true },
+    target_duration_sec: { check: isInteger(0), nullable: true },
+    start_time: { check: matches(TIME_OF_DAY_PATTERN, 'HH:MM[:SS]'), nullable: true },
+    notes: { check: isString, nullable: true },
+    frame_rate: { check: isOneOf(FRAME_RATES), nullable: false },
+    version: { check: isInteger(1), nullable: false },
+    last_modified_by: { check: isOneOf(CHANGE_SOURCES), nullable: false },
+  },
+  required: ['program_nr'],
+  idField: 'program_nr',
+};
+
+const SESSION_SCHEMA: EntitySchema = {
+  label: 'session',
+  fields: {
+    session_key: { check: isSessionKey, nullable: false },
+    name: { check: isString, nullable: false },
+    session_date: { check: matches(DATE_PATTERN, 'YYYY-MM-DD'), nullable: true },
+    start_time: { check: matches(TIME_OF_DAY_PATTERN, 'HH:MM[:SS]'), nullable: false },
+    end_time: { check: matches(TIME_OF_DAY_PATTERN, 'HH:MM[:SS]'), nullable: true },
+    location: { check: isString, nullable: true },
+    notes: { check: isString, nullable: true },
+  },
+  required: ['session_key', 'name'],
+  idField: 'session_key',
+};
+
+const ENTITY_SCHEMAS: Record<string, EntitySchema> = {
+  post: POST_SCHEMA,
+  person: PERSON_SCHEMA,
+  program: PROGRAM_SCHEMA,
+};
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a row against an entity schema.
+ * `partial` allows missing columns (updates); the id column is always required.
+ * Unknown fields are rejected so typos never reach the database.
+ */
+function validateEntity(
+  schema: EntitySchema,
+  data: unknown,
+  options: { partial?: boolean; prefix?: string }
+): FieldError[] {
+  const prefix = options.prefix ?? '';
+
+  if (!isObject(data)) {
+    return [{ field: prefix || 'data', message: 'must be an object' }];
+  }
+
+  const errors: FieldError[] = [];
+  const required = options.partial ? [schema.idField] : schema.required;
+
+  for (const field of required) {
+    if (data[field] === undefined || data[field] === null) {
+      errors.push({ field: prefix + field, message: 'is required' });
+    }
+  }
+
+  for (const [field, value] of Object.entries(data)) {
+    const spec = schema.fields[field];
+
+    if (!spec) {
+      errors.push({ field: prefix + field, message: `is not a known ${schema.label} field` });
+      continue;
+    }
+
+    if (value === undefined) continue;
+
+    if (value === null) {
+      if (!spec.nullable && !required.includes(field)) {
+        errors.push({ field: prefix + field, message: 'cannot be null' });
+      }
+      continue;
+    }
+
+    const message = spec.check(value);
+    if (message) {
+      errors.push({ field: prefix + field, message });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a post payload against the posts table.
+ */
+export function validatePost(
+  data: unknown,
+  options: { partial?: boolean; prefix?: string } = {}
+): FieldError[] {
+  const errors = validateEntity(POST_SCHEMA, data, options);
+  const prefix = options.prefix ?? '';
+
+  // post_id och program_nr måste peka på samma program
+  if (isObject(data) && typeof data.post_id === 'string' && typeof data.program_nr === 'number') {
+    const match = POST_ID_PATTERN.exec(data.post_id);
+    if (match && Number(match[1]) !== data.program_nr) {
+      errors.push({
+        field: prefix + 'program_nr',
+        message: `does not match post_id ${data.post_id}`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a person payload against the people table.
+ */
+export function validatePerson(
+  data: unknown,
+  options: { partial?: boolean; prefix?: string } = {}
+): FieldError[] {
+  return validateEntity(PERSON_SCHEMA, data, options);
+}
+
+/**
+ * Validate a programme payload against the programs table.
+ */
+export function validateProgram(
+  data: unknown,
+  options: { partial?: boolean; prefix?: string } = {}
+): FieldError[] {
+  return validateEntity(PROGRAM_SCHEMA, data, options);
+}
+
+/**
+ * Validate a recording session payload against the recording_sessions table.
+ */
+export function validateSession(
+  data: unknown,
+  options: { partial?: boolean; prefix?: string } = {}
+): FieldError[] {
+  return validateEntity(SESSION_SCHEMA, data, options);
+}
+
+/**
+ * Validate a /sync/from-sheets payload. The shape of `data` depends on action.
+ */
+export function validateSheetsPayload(payload: unknown): FieldError[] {
+  if (!isObject(payload)) {
+    return [{ field: 'body', message: 'must be a JSON object' }];
+  }
+
+  const errors: FieldError[] = [];
+  const { action, entity_type, data, version, atomic, merge } = payload;
+
+  const actionError = isOneOf(['create', 'update', 'delete', 'batch_sync'])(action);
+  if (actionError) errors.push({ field: 'action', message: actionError });
+
+  if (atomic !== undefined) {
+    const atomicError = isBoolean(atomic);
+    if (atomicError) errors.push({ field: 'atomic', message: atomicError });
+  }
+
+  if (merge !== undefined) {
+    const mergeError = isBoolean(merge);
+    if (mergeError) errors.push({ field: 'merge', message: mergeError });
+  }
+
+  const entityError = entity_type === undefined ? null : isOneOf(Object.keys(ENTITY_SCHEMAS))(entity_type);
+  if (entityError) errors.push({ field: 'entity_type', message: entityError });
+
+  // entity_type saknas i äldre Sync.gs-anrop och betyder då post
+  const schema = ENTITY_SCHEMAS[(entity_type as string | undefined) ?? 'post'];
+  if (!schema) return errors;
+
+  const validate = (row: unknown, options: { partial?: boolean; prefix: string }) =>
+    schema === POST_SCHEMA ? validatePost(row, options) : validateEntity(schema, row, options);
+
+  if (version !== undefined && version !== null) {
+    const versionError = isInteger(1)(version);
+    if (versionError) errors.push({ field: 'version', message: versionError });
+  }
+
+  switch (action) {
+    case 'create':
+      errors.push(...validate(data, { prefix: 'data.' }));
+      break;
+
+    case 'update':
+      errors.push(...validate(data, { partial: true, prefix: 'data.' }));
+      break;
+
+    case 'delete':
+      if (!isObject(data)) {
+        errors.push({ field: 'data', message: 'must be an object' });
+      } else {
+        const idError = schema.fields[schema.idField].check(data[schema.idField]);
+        if (idError) errors.push({ field: `data.${schema.idField}`, message: idError });
+      }
+      break;
+
+    case 'batch_sync':
+      if (!Array.isArray(data)) {
+        errors.push({ field: 'data', message: `must be an array of ${schema.label} rows` });
+      } else {
+        data.forEach((row, i) => {
+          errors.push(...validate(row, { prefix: `data[${i}].` }));
+        });
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a /sync/from-studio payload. Studio may only touch status and notes.
+ */
+export function validateStudioPayload(payload: unknown): FieldError[] {
+  if (!isObject(payload)) {
+    return [{ field: 'body', message: 'must be a JSON object' }];
+  }
+
+  const errors: FieldError[] = [];
+
+  if (payload.action !== 'update') {
+    errors.push({ field: 'action', message: 'must be update' });
+  }
+
+  if (payload.version !== undefined && payload.version !== null) {
+    const versionError = isInteger(1)(payload.version);
+    if (versionError) errors.push({ field: 'version', message: versionError });
+  }
+
+  if (payload.merge !== undefined) {
+    const mergeError = isBoolean(payload.merge);
+    if (mergeError) errors.push({ field: 'merge', message: mergeError });
+  }
+
+  if (!isObject(payload.data)) {
+    errors.push({ field: 'data', message: 'must be an object' });
+    return errors;
+  }
+
+  for (const field of Object.keys(payload.data)) {
+    if (!['post_id', 'status', 'notes'].includes(field)) {
+      errors.push({ field: `data.${field}`, message: 'cannot be changed from studio' });
+    }
+  }
+
+  errors.push(
+    ...validatePost(
+      { post_id: payload.data.post_id, status: payload.data.status, notes: payload.data.notes },
+      { partial: true, prefix: 'data.' }
+    )
+  );
+
+  return errors;
+}
+
+export const COMPANION_ACTIONS = [
+  'tc_in', 'tc_out', 'select_take', 'take_verdict', 'mark_approved',
+  'get_current', 'get_next', 'next_clip', 'increment_clip', 'batch_update', 'batch_get',
+] as const;
+
+// Actions som gäller en enskild post och kräver post_id
+const COMPANION_POST_ACTIONS: readonly string[] = ['tc_in', 'tc_out', 'select_take', 'take_verdict', 'mark_approved'];
+
+// Samma gränser som Apps Script-API:t
+export const MAX_BATCH_UPDATE = 50;
+export const MAX_BATCH_GET = 100;
+
+/**
+ * Validate a /sync/from-companion payload. Take fields themselves are
+ * checked by validateTakeUpdate.
+ */
+export function validateCompanionPayload(payload: unknown): FieldError[] {
+  if (!isObject(payload)) {
+    return [{ field: 'body', message: 'must be a JSON object' }];
+  }
+
+  const errors: FieldError[] = [];
+  const { action, post_id, tc_in, tc_out, clip_nr, operator } = payload;
+
+  const actionError = isOneOf(COMPANION_ACTIONS)(action);
+  if (actionError) errors.push({ field: 'action', message: actionError });
+
+  if (COMPANION_POST_ACTIONS.includes(action as string)) {
+    const idError = POST_FIELDS.post_id.check(post_id);
+    if (idError) errors.push({ field: 'post_id', message: idError });
+  }
+
+  if (action === 'tc_in') {
+    const tcError = isTimecode(tc_in);
+    if (tcError) errors.push({ field: 'tc_in', message: tcError });
+  }
+
+  if (action === 'tc_out') {
+    const tcError = isTimecode(tc_out);
+    if (tcError) errors.push({ field: 'tc_out', message: tcError });
+  }
+
+  if (action === 'take_verdict' && payload.verdict === undefined) {
+    errors.push({ field: 'verdict', message: 'is required' });
+  }
+
+  if (action === 'get_next') {
+    if (payload.program_nr !== undefined && payload.program_nr !== null) {
+      const programError = isInteger(1, 4)(payload.program_nr);
+      if (programError) errors.push({ field: 'program_nr', message: programError });
+    }
+    if (payload.recording_day !== undefined && payload.recording_day !== null) {
+      const dayError = isSessionKey(payload.recording_day);
+      if (dayError) errors.push({ field: 'recording_day', message: dayError });
+    }
+  }
+
+  if (action === 'batch_update') {
+    const { updates } = payload;
+    if (!Array.isArray(updates) || updates.length === 0) {
+      errors.push({ field: 'updates', message: 'must be a non-empty array' });
+    } else if (updates.length > MAX_BATCH_UPDATE) {
+      errors.push({ field: 'updates', message: `must not exceed ${MAX_BATCH_UPDATE} updates` });
+    } else {
+      updates.forEach((update, index) => {
+        const prefix = `updates[${index}].`;
+        if (!isObject(update)) {
+          errors.push({ field: `updates[${index}]`, message: 'must be an object' });
+          return;
+        }
+        errors.push(...validatePost(update, { partial: true, prefix }));
+      });
+    }
+  }
+
+  if (action === 'batch_get') {
+    const { post_ids } = payload;
+    const idsError = isStringArray(post_ids);
+    if (idsError) {
+      errors.push({ field: 'post_ids', message: idsError });
+    } else if ((post_ids as string[]).length > MAX_BATCH_GET) {
+      errors.push({ field: 'post_ids', message: `must not exceed ${MAX_BATCH_GET} ids` });
+    }
+  }
+
+  // HyperDeck skickar clip_id som sträng via Companion-variabler
+  if (clip_nr !== undefined && clip_nr !== null && !(typeof clip_nr === 'string' && /^\d+$/.test(clip_nr))) {
+    const clipError = isInteger(0)(clip_nr);
+    if (clipError) errors.push({ field: 'clip_nr', message: clipError });
+  }
+
+  if (operator !== undefined && operator !== null) {
+    const operatorError = isString(operator);
+    if (operatorError) errors.push({ field: 'operator', message: operatorError });
+  }
+
+  return errors;
+}
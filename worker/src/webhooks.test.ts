@@ -0,0 +1,118 @@
+import { createHmac } from 'node:crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { deliverPendingWebhooks } from './webhooks';
+
+const NOW = new Date('2026-10-18T09:00:00Z');
+
+const DELIVERY = {
+  id: 42,
+  target_name: 'sheets',
+  event: { type: 'UPDATE', entity_type: 'post', entity_id: 'P1:5', data: { post_id: 'P1:5', version: 3 } },
+  attempts: 0,
+  url: 'https://script.google.com/macros/s/abc/exec',
+  secret: 'whsec_test',
+};
+
+// claim_webhook_deliveries, record_sync_status och uppdateringen av raden
+function fakeSupabase(deliveries: Record<string, unknown>[]) {
+  const rpcs: [string, unknown][] = [];
+  const updates: [Record<string, unknown>, unknown][] = [];
+
+  const supabase = {
+    rpc: async (name: string, args: unknown) => {
+      rpcs.push([name, args]);
+      return { data: name === 'claim_webhook_deliveries' ? deliveries : null, error: null };
+    },
+    from: () => ({
+      update: (fields: Record<string, unknown>) => ({
+        eq: async (_column: string, id: unknown) => void updates.push([fields, id]),
+      }),
+    }),
+  };
+
+  return { supabase: supabase as unknown as SupabaseClient, rpcs, updates };
+}
+
+function respondWith(body: string, status = 200) {
+  const fetch = vi.fn(async (_url: string, _init: RequestInit) => new Response(body, { status }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('deliverPendingWebhooks', () => {
+  it('signs the body with the target secret in headers and query', async () => {
+    const fetch = respondWith('{"success":true}');
+    await deliverPendingWebhooks(fakeSupabase([DELIVERY]).supabase);
+
+    const [url, init] = fetch.mock.calls[0];
+    const headers = init.headers as Record<string, string>;
+    const timestamp = String(NOW.getTime() / 1000);
+    const expected = createHmac('sha256', 'whsec_test').update(`${timestamp}.${init.body}`).digest('hex');
+
+    expect(JSON.parse(init.body as string)).toEqual({ delivery_id: 42, ...DELIVERY.event });
+    expect(headers['X-Webhook-Id']).toBe('42');
+    expect(headers['X-Webhook-Timestamp']).toBe(timestamp);
+    expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+    expect(new URL(url).searchParams.get('signature')).toBe(expected);
+    expect(new URL(url).searchParams.get('timestamp')).toBe(timestamp);
+  });
+
+  it('marks a delivery delivered and records the version Sheets now has', async () => {
+    respondWith('{"success":true}');
+    const { supabase, rpcs, updates } = fakeSupabase([DELIVERY]);
+    await deliverPendingWebhooks(supabase);
+
+    expect(updates).toEqual([[
+      { status: 'delivered', delivered_at: NOW.toISOString(), last_error: null, attempts: 1, last_status: 200 },
+      42,
+    ]]);
+    expect(rpcs).toContainEqual(['record_sync_status', {
+      p_entity_type: 'post', p_entity_id: 'P1:5', p_source: 'sheets', p_sheets_version: 3,
+    }]);
+  });
+
+  it('backs off exponentially, counting an Apps Script error body as a failure', async () => {
+    respondWith('{"error":"Sheet locked"}');
+    const { supabase, rpcs, updates } = fakeSupabase([{ ...DELIVERY, attempts: 3 }]);
+    await deliverPendingWebhooks(supabase);
+
+    expect(updates).toEqual([[
+      { next_attempt_at: new Date(NOW.getTime() + 4 * 60 * 1000).toISOString(), last_error: 'Sheet locked', attempts: 4, last_status: 200 },
+      42,
+    ]]);
+    expect(rpcs.map(([name]) => name)).toEqual(['claim_webhook_deliveries']);
+  });
+
+  it('gives up after the eighth attempt', async () => {
+    respondWith('Service Unavailable', 503);
+    const { supabase, updates } = fakeSupabase([{ ...DELIVERY, attempts: 7 }]);
+    await deliverPendingWebhooks(supabase);
+
+    expect(updates).toEqual([[
+      { status: 'dead', last_error: 'Service Unavailable', attempts: 8, last_status: 503 },
+      42,
+    ]]);
+  });
+
+  it('records a network error without a status', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('connection reset'); }));
+    const { supabase, updates } = fakeSupabase([DELIVERY]);
+    await deliverPendingWebhooks(supabase);
+
+    expect(updates[0][0]).toMatchObject({ last_error: 'connection reset', attempts: 1, last_status: null });
+    expect(updates[0][0].next_attempt_at).toBe(new Date(NOW.getTime() + 30 * 1000).toISOString());
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Outbound Webhooks
+ *
+ * Delivers change events to registered targets — the Sheets web app
+ * (handleSupabaseWebhook in Sync.gs) and any other subscriber. A database
+ * trigger on audit_log queues one webhook_deliveries row per event and
+ * target, so every write is queued in the same transaction, whichever
+ * route made it. The worker sends the queue right after each write and
+ * from the cron trigger, retrying with exponential backoff until a
+ * delivery is marked dead.
+ *
+ * Each request is signed with HMAC-SHA256 over `<timestamp>.<body>` using
+ * the target's secret. Apps Script cannot read request headers, so the
+ * timestamp and signature are sent both as headers and query parameters.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { jsonResponse, readJsonBody, validationErrorResponse } from './http';
+import { updateSyncStatus } from './sync-status';
+import { CorsHeaders } from './types';
+import { FieldError } from './validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ClaimedDelivery {
+  id: number;
+  target_name: string;
+  event: Record<string, unknown>;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+interface DeliveryOutcome {
+  ok: boolean;
+  status: number | null;
+  error?: string;
+}
+
+const ENTITY_TYPES = ['post', 'person', 'program'];
+
+const TARGET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+const SECRET_PREFIX = 'whsec_';
+
+// Målet som registerSheetsWebhook i Sync.gs skapar
+const SHEETS_TARGET = 'sheets';
+
+// Försök 1–8 med 30 s, 1, 2, 4 … 32 min emellan: drygt en timme totalt
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_SECONDS = 30;
+
+// Lånet måste räcka för en hel batch med långsamma mottagare
+const BATCH_SIZE = 20;
+const LEASE_SECONDS = 300;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Levererade rader sparas en vecka för felsökning
+const DELIVERED_RETENTION_DAYS = 7;
+
+const MAX_DELIVERY_LIST = 500;
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Send due deliveries. Never throws; failures are recorded on the row.
+ */
+export async function deliverPendingWebhooks(supabase: SupabaseClient): Promise<void> {
+  const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+    p_limit: BATCH_SIZE,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) {
+    console.error('Webhook claim failed:', error.message);
+    return;
+  }
+
+  for (const delivery of (data ?? []) as ClaimedDelivery[]) {
+    const outcome = await sendDelivery(delivery);
+    await recordOutcome(supabase, delivery, outcome);
+  }
+}
+
+/**
+ * Remove delivered rows past the retention window.
+ */
+export async function purgeDeliveredWebhooks(supabase: SupabaseClient): Promise<void> {
+  const cutoff = new Date(Date.now() - DELIVERED_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  await supabase
+    .from('webhook_deliveries')
+    .delete()
+    .eq('status', 'delivered')
+    .lt('delivered_at', cutoff.toISOString());
+}
+
+async function sendDelivery(delivery: ClaimedDelivery): Promise<DeliveryOutcome> {
+  const body = JSON.stringify({ delivery_id: delivery.id, ...delivery.event });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = await hmacSha256Hex(delivery.secret, `${timestamp}.${body}`);
+
+  let url: URL;
+  try {
+    url = new URL(delivery.url);
+  } catch {
+    return { ok: false, status: null, error: `Invalid target URL: ${delivery.url}` };
+  }
+  url.searchParams.set('timestamp', timestamp);
+  url.searchParams.set('signature', signature);
+
+  try {
+    const response = await fetch(url.toString(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': String(delivery.id),
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signature}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    const text = await response.text();
+
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: text.slice(0, 500) || response.statusText };
+    }
+
+    // Apps Script svarar alltid 200, fel syns bara i bodyn
+    const error = bodyError(text);
+    if (error) {
+      return { ok: false, status: response.status, error };
+    }
+
+    return { ok: true, status: response.status };
+  } catch (error) {
+    return { ok: false, status: null, error: (error as Error).message };
+  }
+}
+
+async function recordOutcome(
+  supabase: SupabaseClient,
+  delivery: ClaimedDelivery,
+  outcome: DeliveryOutcome
+): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  let update: Record<string, unknown>;
+  if (outcome.ok) {
+    update = { status: 'delivered', delivered_at: now.toISOString(), last_error: null };
+  } else if (attempts >= MAX_ATTEMPTS) {
+    update = { status: 'dead', last_error: outcome.error };
+  } else {
+    const backoffMs = BASE_BACKOFF_SECONDS * 1000 * 2 ** (attempts - 1);
+    update = { next_attempt_at: new Date(now.getTime() + backoffMs).toISOString(), last_error: outcome.error };
+  }
+
+  if (!outcome.ok) {
+    console.error(`Webhook ${delivery.id} to ${delivery.target_name} failed (attempt ${attempts}):`, outcome.error);
+  }
+
+  await supabase
+    .from('webhook_deliveries')
+    .update({ ...update, attempts, last_status: outcome.status })
+    .eq('id', delivery.id);
+
+  // Sheets har nu den levererade versionen
+  const { entity_type, entity_id, data } = delivery.event as {
+    entity_type: string;
+    entity_id: string | null;
+    data: { version?: number } | null;
+  };
+  if (outcome.ok && delivery.target_name === SHEETS_TARGET && entity_id && data?.version) {
+    await updateSyncStatus(supabase, entity_type, entity_id, 'sheets', data.version);
+  }
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * GET  /api/webhooks — all targets, without secrets
+ * POST /api/webhooks — create or update a target
+ * Body: { name, url, entity_types?, active?, secret?, rotate_secret? }
+ *
+ * A new target gets a generated secret unless one is given; an existing
+ * target keeps its secret unless `secret` or `rotate_secret` is sent. The
+ * secret is only returned when it was set by this request.
+ */
+export async function handleWebhookTargets(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method === 'GET') {
+    const { data, error } = await supabase
+      .from('webhook_targets')
+      .select('name, url, entity_types, active, created_at')
+      .order('name');
+
+    if (error) {
+      return jsonResponse({ error: error.message }, corsHeaders, 500);
+    }
+
+    return jsonResponse({ success: true, targets: data }, corsHeaders);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+  const errors = validateTarget(body);
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('webhook_targets')
+    .select('name')
+    .eq('name', body!.name)
+    .maybeSingle();
+
+  if (lookupError) {
+    return jsonResponse({ error: lookupError.message }, corsHeaders, 500);
+  }
+
+  const row: Record<string, unknown> = { name: body!.name, url: body!.url };
+  if (body!.entity_types !== undefined) row.entity_types = [...new Set(body!.entity_types as string[])];
+  if (body!.active !== undefined) row.active = body!.active;
+
+  let secret: string | undefined;
+  if (typeof body!.secret === 'string') {
+    secret = body!.secret;
+  } else if (!existing || body!.rotate_secret === true) {
+    secret = generateSecret();
+  }
+  if (secret) row.secret = secret;
+
+  const { data, error } = await supabase
+    .from('webhook_targets')
+    .upsert(row, { onConflict: 'name' })
+    .select('name, url, entity_types, active, created_at')
+    .single();
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse(
+    { success: true, target: data, ...(secret ? { secret } : {}) },
+    corsHeaders,
+    existing ? 200 : 201
+  );
+}
+
+/**
+ * GET /api/webhooks/deliveries?status=dead&target=sheets&limit=100
+ *
+ * Dead letters by default; `status=pending` shows the retry queue.
+ */
+export async function handleWebhookDeliveries(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  const url = new URL(request.url);
+  const status = url.searchParams.get('status') ?? 'dead';
+  const target = url.searchParams.get('target');
+  const limit = Math.min(parseInt(url.searchParams.get('limit') ?? '100') || 100, MAX_DELIVERY_LIST);
+
+  if (!['pending', 'delivered', 'dead'].includes(status)) {
+    return validationErrorResponse(
+      [{ field: 'status', message: 'must be one of: pending, delivered, dead' }],
+      corsHeaders
+    );
+  }
+
+  let query = supabase
+    .from('webhook_deliveries')
+    .select('id, target_name, entity_type, entity_id, event, status, attempts, next_attempt_at, last_status, last_error, created_at, delivered_at')
+    .eq('status', status)
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (target) {
+    query = query.eq('target_name', target);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse({ success: true, deliveries: data }, corsHeaders);
+}
+
+/**
+ * POST /api/webhooks/replay
+ * Body: { ids?: number[], target?: string }
+ *
+ * Puts dead deliveries back in the queue with a fresh attempt count.
+ * `ids` alone replays those rows, `target` alone every dead delivery for
+ * the target.
+ */
+export async function handleWebhookReplay(
+  request: Request,
+  supabase: SupabaseClient,
+  corsHeaders: CorsHeaders
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, corsHeaders, 405);
+  }
+
+  const body = (await readJsonBody(request)) as Record<string, unknown> | undefined;
+  const errors: FieldError[] = [];
+
+  const ids = body?.ids;
+  const target = body?.target;
+
+  if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0 || !ids.every(Number.isInteger))) {
+    errors.push({ field: 'ids', message: 'must be a non-empty array of delivery ids' });
+  }
+  if (target !== undefined && typeof target !== 'string') {
+    errors.push({ field: 'target', message: 'must be a target name' });
+  }
+  if (ids === undefined && target === undefined) {
+    errors.push({ field: 'ids', message: 'ids or target is required' });
+  }
+  if (errors.length > 0) {
+    return validationErrorResponse(errors, corsHeaders);
+  }
+
+  let query = supabase
+    .from('webhook_deliveries')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+    })
+    .eq('status', 'dead');
+
+  if (ids !== undefined) {
+    query = query.in('id', ids as number[]);
+  }
+  if (target !== undefined) {
+    query = query.eq('target_name', target);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    return jsonResponse({ error: error.message }, corsHeaders, 500);
+  }
+
+  return jsonResponse(
+    { success: true, replayed: data?.length ?? 0, ids: (data ?? []).map((row) => row.id) },
+    corsHeaders
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function validateTarget(body: Record<string, unknown> | undefined): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (typeof body?.name !== 'string' || !TARGET_NAME_PATTERN.test(body.name)) {
+    errors.push({ field: 'name', message: 'must be lowercase letters, digits, "-" or "_"' });
+  }
+  if (typeof body?.url !== 'string' || !isHttpsUrl(body.url)) {
+    errors.push({ field: 'url', message: 'must be an https URL' });
+  }
+  if (
+    body?.entity_types !== undefined &&
+    (!Array.isArray(body.entity_types) ||
+      body.entity_types.length === 0 ||
+      !body.entity_types.every((type) => ENTITY_TYPES.includes(type as string)))
+  ) {
+    errors.push({ field: 'entity_types', message: `must be a non-empty array of: ${ENTITY_TYPES.join(', ')}` });
+  }
+  if (body?.active !== undefined && typeof body.active !== 'boolean') {
+    errors.push({ field: 'active', message: 'must be a boolean' });
+  }
+  if (body?.secret !== undefined && (typeof body.secret !== 'string' || body.secret.length === 0)) {
+    errors.push({ field: 'secret', message: 'must be a non-empty string' });
+  }
+
+  return errors;
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function bodyError(text: string): string | undefined {
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed?.error === 'string' ? parsed.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return SECRET_PREFIX + [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}